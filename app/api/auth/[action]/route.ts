@@ -0,0 +1,17 @@
+import { proxyRequest } from "@/lib/proxy";
+
+export const dynamic = "force-dynamic";
+
+const ACTIONS = ["login", "refresh", "logout"];
+
+interface RouteContext {
+  params: Promise<{ action: string }>;
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { action } = await params;
+  if (!ACTIONS.includes(action)) {
+    return Response.json({ detail: "Not found" }, { status: 404 });
+  }
+  return proxyRequest(request, `/auth/${action}`);
+}
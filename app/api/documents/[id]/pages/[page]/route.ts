@@ -0,0 +1,12 @@
+import { proxyRequest } from "@/lib/proxy";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: Promise<{ id: string; page: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id, page } = await params;
+  return proxyRequest(request, `/documents/${encodeURIComponent(id)}/pages/${encodeURIComponent(page)}`);
+}
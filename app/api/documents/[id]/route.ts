@@ -0,0 +1,20 @@
+import { proxyRequest } from "@/lib/proxy";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function documentPath({ params }: RouteContext) {
+  const { id } = await params;
+  return `/documents/${encodeURIComponent(id)}`;
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  return proxyRequest(request, await documentPath(context));
+}
+
+export async function DELETE(request: Request, context: RouteContext) {
+  return proxyRequest(request, await documentPath(context));
+}
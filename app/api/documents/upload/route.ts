@@ -0,0 +1,8 @@
+import { MAX_UPLOAD_BYTES, proxyRequest } from "@/lib/proxy";
+
+export const dynamic = "force-dynamic";
+
+/** Streams indexing progress as SSE */
+export function POST(request: Request) {
+  return proxyRequest(request, "/documents/upload", { maxBodyBytes: MAX_UPLOAD_BYTES });
+}
@@ -0,0 +1,7 @@
+import { proxyRequest } from "@/lib/proxy";
+
+export const dynamic = "force-dynamic";
+
+export function POST(request: Request) {
+  return proxyRequest(request, "/feedback");
+}
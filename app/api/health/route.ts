@@ -0,0 +1,7 @@
+import { proxyRequest } from "@/lib/proxy";
+
+export const dynamic = "force-dynamic";
+
+export function GET(request: Request) {
+  return proxyRequest(request, "/health");
+}
@@ -0,0 +1,8 @@
+import { proxyRequest } from "@/lib/proxy";
+
+export const dynamic = "force-dynamic";
+
+/** Streams the answer as SSE */
+export function POST(request: Request) {
+  return proxyRequest(request, "/query");
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { AlertCircle, X } from "lucide-react";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { DocumentTable } from "@/components/documents/DocumentTable";
+import { useI18n } from "@/components/layout/I18nProvider";
+import { DocumentInfo } from "@/lib/types";
+import { getDocuments, deleteDocument, renameDocument } from "@/lib/api";
+
+export default function DocumentsPage() {
+  const router = useRouter();
+  const { t, tn } = useI18n();
+  const [documents, setDocuments] = useState<DocumentInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Kept as a flag so the message follows the interface language
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    getDocuments()
+      .then(setDocuments)
+      .catch((err) => {
+        console.error(err);
+        setLoadFailed(true);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleRename = useCallback(async (id: string, filename: string) => {
+    try {
+      const updated = await renameDocument(id, filename);
+      setDocuments((prev) => prev.map((doc) => (doc.id === id ? { ...doc, ...updated } : doc)));
+    } catch (err) {
+      console.error("Failed to rename document:", err);
+      setError(t("library.renameFailed", { error: err instanceof Error ? err.message : t("common.unknown") }));
+    }
+  }, [t]);
+
+  const handleDelete = useCallback(async (ids: string[]) => {
+    const results = await Promise.allSettled(ids.map((id) => deleteDocument(id)));
+    const deleted = ids.filter((_, index) => results[index].status === "fulfilled");
+    const failed = ids.length - deleted.length;
+
+    setDocuments((prev) => prev.filter((doc) => !deleted.includes(doc.id)));
+    if (failed > 0) {
+      setError(t("library.deleteFailed", { failed, total: ids.length }));
+    }
+  }, [t]);
+
+  // Chat reads its initial scope from the query string
+  const handleAsk = useCallback(
+    (ids: string[]) => {
+      router.push(`/?${new URLSearchParams({ scope: ids.join(",") })}`);
+    },
+    [router]
+  );
+
+  const handleRunPlaybook = useCallback(
+    (id: string) => {
+      router.push(`/playbook?${new URLSearchParams({ document: id })}`);
+    },
+    [router]
+  );
+
+  return (
+    <div className="h-screen flex flex-col bg-[#fafaf9]">
+      <AppHeader />
+
+      <main className="flex-1 overflow-y-auto">
+        <div className="max-w-6xl mx-auto py-8 px-6">
+          <div className="mb-6">
+            <h2 className="text-xl font-semibold text-stone-800">{t("library.title")}</h2>
+            <p className="text-sm text-stone-500 mt-1">
+              {tn("library.indexedDocuments", documents.length)}
+            </p>
+          </div>
+
+          {(error || loadFailed) && (
+            <div className="mb-4 flex items-center gap-2 px-4 py-3 rounded-xl bg-red-50 border border-red-100 text-sm text-red-700 animate-fade-in">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span className="flex-1">{error ?? t("library.loadFailed")}</span>
+              <button
+                onClick={() => {
+                  setError(null);
+                  setLoadFailed(false);
+                }}
+                className="p-1 rounded-lg hover:bg-red-100"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+
+          <DocumentTable
+            documents={documents}
+            isLoading={isLoading}
+            onRename={handleRename}
+            onDelete={handleDelete}
+            onAsk={handleAsk}
+            onRunPlaybook={handleRunPlaybook}
+          />
+        </div>
+      </main>
+    </div>
+  );
+}
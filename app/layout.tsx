@@ -1,6 +1,9 @@
 import type { Metadata } from "next";
 import { GeistSans } from "geist/font/sans";
 import { GeistMono } from "geist/font/mono";
+import { BackendHealthProvider } from "@/components/layout/BackendHealthProvider";
+import { I18nProvider } from "@/components/layout/I18nProvider";
+import { EvidenceBoardProvider } from "@/components/layout/EvidenceBoardProvider";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -16,7 +19,11 @@ export default function RootLayout({
   return (
     <html lang="en" className={`${GeistSans.variable} ${GeistMono.variable}`}>
       <body className="antialiased bg-slate-50 text-slate-900">
-        {children}
+        <I18nProvider>
+          <BackendHealthProvider>
+            <EvidenceBoardProvider>{children}</EvidenceBoardProvider>
+          </BackendHealthProvider>
+        </I18nProvider>
       </body>
     </html>
   );
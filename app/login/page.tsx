@@ -0,0 +1,101 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { Scale, AlertCircle, Loader2 } from "lucide-react";
+import { login } from "@/lib/auth";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+/** Only follow same-origin paths after login */
+function safeNext(next: string | null): string {
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
+export default function LoginPage() {
+  const router = useRouter();
+  const { t } = useI18n();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await login(email.trim(), password);
+      const next = new URLSearchParams(window.location.search).get("next");
+      router.replace(safeNext(next));
+    } catch (err) {
+      console.error("Login failed:", err);
+      setError(err instanceof Error ? err.message : t("login.failed"));
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="h-screen flex items-center justify-center bg-[#fafaf9] px-6">
+      <div className="w-full max-w-sm">
+        <div className="flex items-center gap-3 mb-8 justify-center">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-indigo-600 to-violet-600 flex items-center justify-center shadow-lg shadow-indigo-500/20">
+            <Scale className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h1 className="text-lg font-semibold text-stone-900 tracking-tight">LexVisual</h1>
+            <p className="text-[10px] text-stone-400 uppercase tracking-widest">Visual RAG</p>
+          </div>
+        </div>
+
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-2xl border border-stone-200 shadow-sm p-6 space-y-4"
+        >
+          <h2 className="text-base font-semibold text-stone-800">{t("login.title")}</h2>
+
+          {error && (
+            <div className="flex items-center gap-2 px-3 py-2.5 rounded-xl bg-red-50 border border-red-100 text-sm text-red-700 animate-fade-in">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <label className="block">
+            <span className="text-xs font-medium text-stone-600">{t("login.email")}</span>
+            <input
+              type="email"
+              required
+              autoFocus
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="mt-1 w-full px-3 py-2 rounded-xl border border-stone-200 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-400"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-xs font-medium text-stone-600">{t("login.password")}</span>
+            <input
+              type="password"
+              required
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="mt-1 w-full px-3 py-2 rounded-xl border border-stone-200 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-400"
+            />
+          </label>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            {t("login.submit")}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
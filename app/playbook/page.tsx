@@ -0,0 +1,163 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { Play, Square, Download, ListChecks, Loader2 } from "lucide-react";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { PlaybookGrid, PlaybookQuestionsEditor } from "@/components/playbook";
+import { useI18n } from "@/components/layout/I18nProvider";
+import { useBackendHealthContext } from "@/components/layout/BackendHealthProvider";
+import { DocumentInfo } from "@/lib/types";
+import { getDocuments } from "@/lib/api";
+import { usePlaybook } from "@/lib/usePlaybook";
+import { exportPlaybook, type PlaybookExportFormat } from "@/lib/playbookExport";
+import { cn } from "@/lib/utils";
+
+const EXPORT_FORMATS: PlaybookExportFormat[] = ["csv", "xlsx"];
+
+export default function PlaybookPage() {
+  const router = useRouter();
+  const { t, tn, answerLanguage } = useI18n();
+  const { isReady: isBackendReady } = useBackendHealthContext();
+  const playbook = usePlaybook(t);
+  const [documents, setDocuments] = useState<DocumentInfo[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [isEditing, setIsEditing] = useState(false);
+  // Document passed from the library's "Run playbook" action
+  const [autoRunId, setAutoRunId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getDocuments()
+      .then((docs) => setDocuments(docs.filter((doc) => doc.indexed)))
+      .catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    const documentId = new URLSearchParams(window.location.search).get("document");
+    if (!documentId) return;
+    setSelectedId(documentId);
+    setAutoRunId(documentId);
+    router.replace("/playbook");
+  }, [router]);
+
+  const { run } = playbook;
+  useEffect(() => {
+    if (!autoRunId || !isBackendReady || !documents.some((doc) => doc.id === autoRunId)) return;
+    setAutoRunId(null);
+    run(autoRunId, answerLanguage);
+  }, [autoRunId, isBackendReady, documents, run, answerLanguage]);
+
+  const runDocument = documents.find((doc) => doc.id === playbook.documentId);
+  const answered = playbook.rows.filter((row) => row.status === "done").length;
+  const canRun =
+    !!selectedId && isBackendReady && playbook.questions.some((q) => q.question.trim());
+
+  return (
+    <div className="h-screen flex flex-col bg-[#fafaf9]">
+      <AppHeader />
+
+      <main className="flex-1 overflow-y-auto">
+        <div className="max-w-6xl mx-auto py-8 px-6 space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold text-stone-800">{t("playbook.title")}</h2>
+            <p className="text-sm text-stone-500 mt-1">{t("playbook.subtitle")}</p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={selectedId}
+              onChange={(e) => setSelectedId(e.target.value)}
+              disabled={playbook.isRunning}
+              className="w-72 px-3 py-2.5 rounded-xl text-sm text-stone-600 bg-white border border-stone-200 hover:border-stone-300 shadow-sm focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100 focus:outline-none"
+            >
+              <option value="">{t("chat.selectDocument")}</option>
+              {documents.map((doc) => (
+                <option key={doc.id} value={doc.id}>
+                  {doc.filename}
+                </option>
+              ))}
+            </select>
+
+            {playbook.isRunning ? (
+              <button
+                onClick={playbook.stop}
+                className="flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 transition-colors"
+              >
+                <Square className="w-4 h-4" />
+                {t("playbook.stop")}
+              </button>
+            ) : (
+              <button
+                onClick={() => playbook.run(selectedId, answerLanguage)}
+                disabled={!canRun}
+                className="flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-medium text-white bg-gradient-to-r from-indigo-600 to-violet-600 hover:from-indigo-700 hover:to-violet-700 shadow-lg shadow-indigo-500/20 disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none transition-all"
+              >
+                <Play className="w-4 h-4" />
+                {t("playbook.run")}
+              </button>
+            )}
+
+            <button
+              onClick={() => setIsEditing(!isEditing)}
+              disabled={playbook.isRunning}
+              className={cn(
+                "flex items-center gap-2 px-3 py-2.5 rounded-xl text-sm text-stone-600 hover:bg-stone-100 disabled:opacity-50 transition-colors",
+                isEditing && "bg-indigo-50 text-indigo-700"
+              )}
+            >
+              <ListChecks className="w-4 h-4" />
+              {isEditing ? t("playbook.doneEditing") : t("playbook.editQuestions")}
+              <span className="text-xs text-stone-400">
+                {tn("playbook.questions", playbook.questions.length)}
+              </span>
+            </button>
+
+            <div className="ml-auto flex items-center gap-3">
+              {playbook.rows.length > 0 && (
+                <span className="flex items-center gap-1.5 text-xs text-stone-500">
+                  {playbook.isRunning && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                  {t("playbook.progress", { done: answered, total: playbook.rows.length })}
+                </span>
+              )}
+              {EXPORT_FORMATS.map((format) => (
+                <button
+                  key={format}
+                  onClick={() => exportPlaybook(playbook.rows, format, runDocument?.filename ?? "document", t)}
+                  disabled={playbook.isRunning || answered === 0}
+                  className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm text-stone-600 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-50 disabled:pointer-events-none transition-colors"
+                  title={t("playbook.export", { format: format.toUpperCase() })}
+                >
+                  <Download className="w-4 h-4" />
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {isEditing && (
+            <PlaybookQuestionsEditor
+              questions={playbook.questions}
+              onChange={playbook.setQuestions}
+              onReset={playbook.resetQuestions}
+            />
+          )}
+
+          {playbook.rows.length > 0 && playbook.documentId ? (
+            <PlaybookGrid
+              rows={playbook.rows}
+              documentId={playbook.documentId}
+              documentName={runDocument?.filename}
+              pageCount={runDocument?.page_count}
+              isRunning={playbook.isRunning}
+              onRerun={playbook.runRow}
+            />
+          ) : (
+            <div className="rounded-2xl border border-dashed border-stone-200 py-16 text-center text-sm text-stone-400">
+              {t("playbook.empty")}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
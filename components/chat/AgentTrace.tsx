@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, Loader2, CheckCircle, Brain, ListTree } from "lucide-react";
+import type { TraceStep } from "@/lib/types";
+import { cn, formatDuration } from "@/lib/utils";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface AgentTraceProps {
+  trace?: TraceStep[];
+  reasoning?: string;
+  isStreaming?: boolean;
+}
+
+export function AgentTrace({ trace = [], reasoning, isStreaming }: AgentTraceProps) {
+  const { t, formatTime } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (trace.length === 0 && !reasoning) return null;
+
+  const first = trace[0];
+  const last = trace[trace.length - 1];
+  const totalMs =
+    first && last?.endedAt ? last.endedAt.getTime() - first.startedAt.getTime() : null;
+  const current = isStreaming && last && !last.endedAt ? last.status : null;
+
+  return (
+    <div className="mt-2 text-left">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center gap-1.5 text-[11px] text-stone-400 hover:text-stone-600 transition-colors"
+      >
+        {current ? (
+          <Loader2 className="w-3 h-3 animate-spin text-indigo-500" />
+        ) : (
+          <ListTree className="w-3 h-3" />
+        )}
+        <span>{current ?? t("trace.summary")}</span>
+        {totalMs !== null && !current && (
+          <span className="text-stone-300">· {formatDuration(totalMs)}</span>
+        )}
+        <ChevronDown className={cn("w-3 h-3 transition-transform", isOpen && "rotate-180")} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 p-3 rounded-xl bg-stone-50 border border-stone-200 space-y-3 animate-fade-in">
+          {trace.length > 0 && (
+            <ol className="space-y-1.5">
+              {trace.map((step, index) => (
+                <li key={index} className="flex items-center gap-2 text-xs">
+                  {step.endedAt ? (
+                    <CheckCircle className="w-3.5 h-3.5 text-emerald-500 flex-shrink-0" />
+                  ) : (
+                    <Loader2 className="w-3.5 h-3.5 text-indigo-500 animate-spin flex-shrink-0" />
+                  )}
+                  <span className="font-mono text-[10px] text-stone-400">
+                    {formatTime(step.startedAt)}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate text-stone-600">{step.status}</span>
+                  {step.endedAt && (
+                    <span className="text-[10px] text-stone-400">
+                      {formatDuration(step.endedAt.getTime() - step.startedAt.getTime())}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {reasoning && (
+            <div className={cn(trace.length > 0 && "pt-3 border-t border-stone-200")}>
+              <div className="flex items-center gap-1.5 mb-1.5 text-[10px] font-medium text-stone-400 uppercase tracking-wider">
+                <Brain className="w-3 h-3" />
+                {t("trace.reasoning")}
+              </div>
+              <p className="whitespace-pre-wrap text-xs text-stone-600 leading-relaxed">
+                {reasoning}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,53 +1,76 @@
 "use client";
 
-import { useState, useCallback, useRef, type KeyboardEvent } from "react";
-import { Send, Loader2, Paperclip, X, FileText, CheckCircle, AlertCircle } from "lucide-react";
-import { cn, formatFileSize } from "@/lib/utils";
-import { getUploadStreamUrl } from "@/lib/api";
-import { useAgentStream } from "@/lib/useAgentStream";
-import type { DocumentInfo } from "@/lib/types";
+import { useState, useCallback, useRef, useEffect, type KeyboardEvent } from "react";
+import { Send, Loader2, Paperclip, X, FileText, Square } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useUploadQueue } from "@/lib/useUploadQueue";
+import { useUploadPreflight } from "@/lib/useUploadPreflight";
+import type { DocumentInfo, PromptTemplate } from "@/lib/types";
+import { templatePlaceholders } from "@/lib/promptTemplates";
+import { UploadQueue } from "@/components/upload/UploadQueue";
+import { PreflightStatus } from "@/components/upload/PreflightStatus";
+import { useI18n } from "@/components/layout/I18nProvider";
+import { PromptTemplateMenu } from "./PromptTemplateMenu";
+import { TemplateFillDialog } from "./TemplateFillDialog";
 
 interface ChatInputProps {
   onSubmit: (message: string) => void;
+  /** Stop the answer currently streaming */
+  onStop?: () => void;
   onDocumentUploaded: (doc: DocumentInfo) => void;
+  /** Indexed documents, to warn about attaching one again */
+  documents?: DocumentInfo[];
   isLoading?: boolean;
+  /** Whether a question can be sent right now; typing stays enabled */
+  canSubmit?: boolean;
+  /** Whether files can be attached and indexed right now */
+  canUpload?: boolean;
   placeholder?: string;
+  /** Templates offered from the input toolbar; inserted for editing before sending */
+  templates?: PromptTemplate[];
+  onManageTemplates?: () => void;
 }
 
 export function ChatInput({
   onSubmit,
+  onStop,
   onDocumentUploaded,
+  documents,
   isLoading = false,
-  placeholder = "Ask about your legal documents...",
+  canSubmit = true,
+  canUpload = true,
+  placeholder,
+  templates,
+  onManageTemplates,
 }: ChatInputProps) {
+  const { t, tn } = useI18n();
   const [input, setInput] = useState("");
-  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  const { items, summary, enqueue, cancel, retry, remove, clearFinished } =
+    useUploadQueue({ t, onDocumentUploaded });
   const {
-    isLoading: isUploading,
-    status: uploadStatus,
-    error: uploadError,
-    isComplete: uploadComplete,
-    startStream,
-    reset: resetUpload,
-  } = useAgentStream({
-    onComplete: (data) => {
-      if (data) {
-        onDocumentUploaded(data);
-        setPendingFile(null);
-        // Auto-clear success after 2 seconds
-        setTimeout(() => {
-          resetUpload();
-        }, 2000);
-      }
-    },
-  });
+    files: pendingFiles,
+    addFiles,
+    removeFile,
+    clear: clearPending,
+    isChecking,
+    readyFiles,
+    skippedCount,
+  } = useUploadPreflight(documents);
+
+  // Auto-clear the queue 2 seconds after everything indexed successfully
+  useEffect(() => {
+    if (summary.total === 0 || summary.active > 0 || summary.failed > 0) return;
+    const timer = setTimeout(clearFinished, 2000);
+    return () => clearTimeout(timer);
+  }, [summary, clearFinished]);
 
   const handleSubmit = useCallback(() => {
     const trimmed = input.trim();
-    if (!trimmed || isLoading) return;
+    if (!trimmed || isLoading || !canSubmit) return;
 
     onSubmit(trimmed);
     setInput("");
@@ -56,7 +79,7 @@ export function ChatInput({
     if (textareaRef.current) {
       textareaRef.current.style.height = "auto";
     }
-  }, [input, isLoading, onSubmit]);
+  }, [input, isLoading, canSubmit, onSubmit]);
 
   const handleKeyDown = useCallback(
     (e: KeyboardEvent<HTMLTextAreaElement>) => {
@@ -68,32 +91,44 @@ export function ChatInput({
     [handleSubmit]
   );
 
-  const handleFileSelect = useCallback(
-    (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file && file.type === "application/pdf") {
-        setPendingFile(file);
-        resetUpload();
+  // Replace the draft with template text and leave it ready to edit
+  const insertText = useCallback((text: string) => {
+    setInput(text);
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.style.height = "auto";
+      textarea.style.height = Math.min(textarea.scrollHeight, 200) + "px";
+      textarea.focus();
+      textarea.setSelectionRange(text.length, text.length);
+    });
+  }, []);
+
+  const handleSelectTemplate = useCallback(
+    (template: PromptTemplate) => {
+      if (templatePlaceholders(template.text).length > 0) {
+        setFillingTemplate(template);
+      } else {
+        insertText(template.text);
       }
     },
-    [resetUpload]
+    [insertText]
   );
 
-  const handleUpload = useCallback(async () => {
-    if (!pendingFile) return;
-
-    const formData = new FormData();
-    formData.append("file", pendingFile);
-    await startStream(getUploadStreamUrl(), formData);
-  }, [pendingFile, startStream]);
+  const handleFileSelect = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      addFiles(Array.from(e.target.files ?? []));
+      // Allow picking the same file again later
+      e.target.value = "";
+    },
+    [addFiles]
+  );
 
-  const handleRemoveFile = useCallback(() => {
-    setPendingFile(null);
-    resetUpload();
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
-  }, [resetUpload]);
+  const handleUpload = useCallback(() => {
+    if (!canUpload || isChecking) return;
+    enqueue(readyFiles);
+    clearPending();
+  }, [readyFiles, isChecking, canUpload, enqueue, clearPending]);
 
   const handleAttachClick = useCallback(() => {
     fileInputRef.current?.click();
@@ -101,82 +136,65 @@ export function ChatInput({
 
   return (
     <div className="w-full space-y-3">
-      {/* Pending File Preview */}
-      {pendingFile && (
-        <div className="animate-fade-in">
-          <div className={cn(
-            "flex items-center gap-3 p-3 rounded-xl border",
-            uploadError 
-              ? "bg-red-50 border-red-200" 
-              : uploadComplete 
-                ? "bg-emerald-50 border-emerald-200"
-                : "bg-stone-50 border-stone-200"
-          )}>
-            {/* File Icon */}
-            <div className={cn(
-              "w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0",
-              uploadError 
-                ? "bg-red-100" 
-                : uploadComplete 
-                  ? "bg-emerald-100"
-                  : "bg-indigo-100"
-            )}>
-              {uploadComplete ? (
-                <CheckCircle className="w-5 h-5 text-emerald-600" />
-              ) : uploadError ? (
-                <AlertCircle className="w-5 h-5 text-red-600" />
-              ) : (
+      {/* Pending Files Preview */}
+      {pendingFiles.length > 0 && (
+        <div className="animate-fade-in space-y-2">
+          {pendingFiles.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex items-center gap-3 p-3 rounded-xl border bg-stone-50 border-stone-200"
+            >
+              {/* File Icon */}
+              <div className="w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0 bg-indigo-100">
                 <FileText className="w-5 h-5 text-indigo-600" />
-              )}
-            </div>
-
-            {/* File Info */}
-            <div className="flex-1 min-w-0">
-              <p className="text-sm font-medium text-stone-800 truncate">
-                {pendingFile.name}
-              </p>
-              <p className="text-xs text-stone-500">
-                {isUploading ? uploadStatus || "Processing..." : 
-                 uploadComplete ? "Indexed successfully!" :
-                 uploadError ? uploadError :
-                 formatFileSize(pendingFile.size)}
-              </p>
-            </div>
-
-            {/* Actions */}
-            {!isUploading && !uploadComplete && (
-              <div className="flex items-center gap-2">
-                <button
-                  onClick={handleUpload}
-                  className="px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors shadow-sm"
-                >
-                  Index
-                </button>
-                <button
-                  onClick={handleRemoveFile}
-                  className="p-1.5 text-stone-400 hover:text-stone-600 hover:bg-stone-100 rounded-lg transition-colors"
-                >
-                  <X className="w-4 h-4" />
-                </button>
               </div>
-            )}
 
-            {isUploading && (
-              <Loader2 className="w-5 h-5 text-indigo-600 animate-spin" />
-            )}
+              {/* File Info */}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-stone-800 truncate">
+                  {entry.file.name}
+                </p>
+                <div className="text-xs text-stone-500">
+                  <PreflightStatus entry={entry} />
+                </div>
+              </div>
 
-            {uploadComplete && (
               <button
-                onClick={handleRemoveFile}
+                onClick={() => removeFile(entry.id)}
                 className="p-1.5 text-stone-400 hover:text-stone-600 hover:bg-stone-100 rounded-lg transition-colors"
               >
                 <X className="w-4 h-4" />
               </button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-end gap-3">
+            {skippedCount > 0 && (
+              <span className="text-xs text-stone-500">
+                {tn("preflight.skipped", skippedCount)}
+              </span>
             )}
+            <button
+              onClick={handleUpload}
+              disabled={!canUpload || isChecking || readyFiles.length === 0}
+              className="px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {tn("input.indexFiles", readyFiles.length)}
+            </button>
           </div>
         </div>
       )}
 
+      {/* Upload Queue */}
+      <UploadQueue
+        items={items}
+        summary={summary}
+        onCancel={cancel}
+        onRetry={retry}
+        onRemove={remove}
+        onClearFinished={clearFinished}
+      />
+
       {/* Input Container */}
       <div className="relative group">
         <div className={cn(
@@ -190,29 +208,40 @@ export function ChatInput({
             ref={fileInputRef}
             type="file"
             accept=".pdf"
+            multiple
             onChange={handleFileSelect}
             className="hidden"
           />
           <button
             onClick={handleAttachClick}
-            disabled={isLoading || isUploading}
+            disabled={isLoading || !canUpload}
             className={cn(
               "p-2.5 rounded-xl transition-all duration-200",
               "text-stone-400 hover:text-indigo-600 hover:bg-indigo-50",
               "disabled:opacity-50 disabled:cursor-not-allowed"
             )}
-            title="Attach PDF document"
+            title={t("input.attach")}
           >
             <Paperclip className="w-5 h-5" />
           </button>
 
+          {/* Prompt Templates */}
+          {templates && templates.length > 0 && (
+            <PromptTemplateMenu
+              templates={templates}
+              onSelect={handleSelectTemplate}
+              onManage={onManageTemplates}
+              disabled={isLoading}
+            />
+          )}
+
           {/* Text Input */}
           <textarea
             ref={textareaRef}
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder={placeholder}
+            placeholder={placeholder ?? t("input.placeholder")}
             disabled={isLoading}
             rows={1}
             className={cn(
@@ -230,30 +259,52 @@ export function ChatInput({
             }}
           />
 
-          {/* Send Button */}
-          <button
-            onClick={handleSubmit}
-            disabled={!input.trim() || isLoading}
-            className={cn(
-              "p-2.5 rounded-xl transition-all duration-200",
-              input.trim() && !isLoading
-                ? "bg-gradient-to-r from-indigo-600 to-violet-600 text-white shadow-lg shadow-indigo-500/25 hover:shadow-indigo-500/40"
-                : "bg-stone-100 text-stone-300 cursor-not-allowed"
-            )}
-          >
-            {isLoading ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : (
-              <Send className="w-5 h-5" />
-            )}
-          </button>
+          {/* Send / Stop Button */}
+          {isLoading && onStop ? (
+            <button
+              onClick={onStop}
+              className="p-2.5 rounded-xl transition-all duration-200 bg-stone-800 text-white hover:bg-stone-900 shadow-sm"
+              title={t("input.stop")}
+            >
+              <Square className="w-5 h-5 fill-current" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSubmit}
+              disabled={!input.trim() || isLoading || !canSubmit}
+              className={cn(
+                "p-2.5 rounded-xl transition-all duration-200",
+                input.trim() && !isLoading && canSubmit
+                  ? "bg-gradient-to-r from-indigo-600 to-violet-600 text-white shadow-lg shadow-indigo-500/25 hover:shadow-indigo-500/40"
+                  : "bg-stone-100 text-stone-300 cursor-not-allowed"
+              )}
+            >
+              {isLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Send className="w-5 h-5" />
+              )}
+            </button>
+          )}
         </div>
 
         {/* Hint */}
         <p className="absolute -bottom-6 left-0 text-[11px] text-stone-400">
-          Press Enter to send · Shift+Enter for new line
+          {t("input.hint")}
         </p>
       </div>
+
+      {fillingTemplate && (
+        <TemplateFillDialog
+          template={fillingTemplate}
+          submitLabel={t("templates.insert")}
+          onSubmit={(text) => {
+            setFillingTemplate(null);
+            insertText(text);
+          }}
+          onCancel={() => setFillingTemplate(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,50 +1,138 @@
 "use client";
 
 import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import Link from "next/link";
 import { 
   FileText, 
-  ChevronDown, 
   Sparkles, 
-  Zap, 
-  BookOpen,
   Trash2,
   Clock,
-  Target,
-  HelpCircle
+  MessageSquare,
+  MessageSquareText,
+  GitCompare,
+  Braces,
+  Settings2,
+  Download,
 } from "lucide-react";
-import type { DocumentInfo, Message } from "@/lib/types";
+import type { DocumentInfo, Message, PromptTemplate, QueryRequest } from "@/lib/types";
 import { generateId, cn } from "@/lib/utils";
 import { getQueryStreamUrl, deleteDocument } from "@/lib/api";
 import { useAgentStream } from "@/lib/useAgentStream";
+import { buildConversationHistory, type HistoryOptions } from "@/lib/conversation";
+import { useChatSessions } from "@/lib/useChatSessions";
+import { useComparison } from "@/lib/useComparison";
+import { useDocumentSets } from "@/lib/useDocumentSets";
+import { usePromptTemplates } from "@/lib/usePromptTemplates";
+import { useFeedback } from "@/lib/useFeedback";
+import { builtInTemplates, templatePlaceholders } from "@/lib/promptTemplates";
+import { appendTraceStep, mergeReasoning } from "@/lib/trace";
+import {
+  displayedQuery,
+  selectVersion,
+  settleAnswer,
+  startNewVersion,
+} from "@/lib/answerVersions";
+import { buildMemo } from "@/lib/memo";
+import { exportMemo, type MemoFormat } from "@/lib/memoExport";
 import { ChatInput } from "./ChatInput";
 import { ChatMessage } from "./ChatMessage";
+import { SessionSidebar } from "./SessionSidebar";
+import { ExportMenu } from "./ExportMenu";
+import { ComparisonView } from "./ComparisonView";
+import { QueryScopeSelector } from "./QueryScopeSelector";
+import { PromptTemplateLibrary } from "./PromptTemplateLibrary";
+import { TemplateFillDialog } from "./TemplateFillDialog";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { HealthBanner } from "@/components/layout/HealthBanner";
+import { useBackendHealthContext } from "@/components/layout/BackendHealthProvider";
+import { useI18n } from "@/components/layout/I18nProvider";
 
 interface ChatInterfaceProps {
   documents: DocumentInfo[];
-  activeDocumentId: string | null;
-  onDocumentSelect: (id: string | null) => void;
+  /** Documents queries are scoped to; empty means all documents */
+  activeDocumentIds: string[];
+  onScopeChange: (ids: string[]) => void;
   onDocumentUploaded: (doc: DocumentInfo) => void;
   onDocumentDeleted: (docId: string) => void;
+  /** Window and token budget for the history sent with each query */
+  historyOptions?: Partial<HistoryOptions>;
 }
 
-const QUICK_PROMPTS = [
-  { icon: Target, label: "Key clauses", prompt: "What are the key clauses in this document?" },
-  { icon: Zap, label: "Risks", prompt: "Identify potential legal risks or concerning provisions" },
-  { icon: BookOpen, label: "Summary", prompt: "Provide a comprehensive summary of this document" },
-  { icon: HelpCircle, label: "Obligations", prompt: "What are the main obligations and responsibilities?" },
-];
-
 export function ChatInterface({
   documents,
-  activeDocumentId,
-  onDocumentSelect,
+  activeDocumentIds,
+  onScopeChange,
   onDocumentUploaded,
   onDocumentDeleted,
+  historyOptions,
 }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<Message[]>([]);
-  const [showDocList, setShowDocList] = useState(false);
+  const [mode, setMode] = useState<"ask" | "compare">("ask");
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [isDeletingDocument, setIsDeletingDocument] = useState(false);
+  const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState(false);
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
+  // Empty-state category filter; null shows every template
+  const [templateCategory, setTemplateCategory] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<{ left: string; right: string }>({
+    left: "",
+    right: "",
+  });
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const currentMessageIdRef = useRef<string | null>(null);
+  // Question the streaming answer responds to, recorded with its version
+  const currentQueryRef = useRef("");
+  // Messages as last loaded from or written to storage, to skip redundant saves
+  const savedMessagesRef = useRef<Message[]>(messages);
+
+  const { t, tn, formatDate, formatDay, answerLanguage } = useI18n();
+
+  const {
+    sessions,
+    activeSessionId,
+    newSession,
+    openSession,
+    persistSession,
+    renameSession,
+    deleteSession,
+  } = useChatSessions();
+
+  const {
+    comparisons,
+    isComparing,
+    compare,
+    stop: stopComparison,
+    clear: clearComparisons,
+  } = useComparison(t);
+
+  const { documentSets, createDocumentSet, deleteDocumentSet } = useDocumentSets();
+
+  const {
+    templates: userTemplates,
+    saveTemplate,
+    deleteTemplate,
+    importTemplates,
+  } = usePromptTemplates();
+  const feedback = useFeedback();
+
+  // Queries and uploads pause while the backend is down or loading
+  const { isReady: isBackendReady } = useBackendHealthContext();
+
+  const templates = useMemo(
+    () => [...builtInTemplates(t), ...userTemplates],
+    [t, userTemplates]
+  );
+  const templateCategories = useMemo(
+    () => Array.from(new Set(templates.map((template) => template.category))).sort(),
+    [templates]
+  );
+  // The chosen category disappears when its last template is deleted
+  const activeCategory =
+    templateCategory !== null && templateCategories.includes(templateCategory) ? templateCategory : null;
+  const visibleTemplates =
+    activeCategory === null
+      ? templates
+      : templates.filter((template) => template.category === activeCategory);
 
   // Build document name lookup
   const documentNames = useMemo(() => {
@@ -54,9 +142,24 @@ export function ChatInterface({
     );
   }, [documents]);
 
-  const activeDocument = useMemo(() => {
-    return documents.find(d => d.id === activeDocumentId);
-  }, [documents, activeDocumentId]);
+  const pageCounts = useMemo(() => {
+    return documents.reduce(
+      (acc, doc) => ({ ...acc, [doc.id]: doc.page_count }),
+      {} as Record<string, number>
+    );
+  }, [documents]);
+
+  const activeDocuments = useMemo(() => {
+    return documents.filter(d => activeDocumentIds.includes(d.id));
+  }, [documents, activeDocumentIds]);
+
+  // Both comparison documents must still be indexed and distinct
+  const canCompare =
+    compareIds.left !== "" &&
+    compareIds.right !== "" &&
+    compareIds.left !== compareIds.right &&
+    documents.some((d) => d.id === compareIds.left) &&
+    documents.some((d) => d.id === compareIds.right);
 
   // Scroll to bottom when messages update
   const scrollToBottom = useCallback(() => {
@@ -65,34 +168,53 @@ export function ChatInterface({
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages, scrollToBottom]);
+  }, [messages, comparisons, scrollToBottom]);
 
   // Update the current assistant message
   const updateCurrentMessage = useCallback(
-    (updates: Partial<Message>) => {
+    (updates: Partial<Message> | ((msg: Message) => Partial<Message>)) => {
       if (!currentMessageIdRef.current) return;
       const messageId = currentMessageIdRef.current;
 
       setMessages((prev) =>
         prev.map((msg) =>
-          msg.id === messageId ? { ...msg, ...updates } : msg
+          msg.id === messageId
+            ? { ...msg, ...(typeof updates === "function" ? updates(msg) : updates) }
+            : msg
         )
       );
     },
     []
   );
 
-  const { isLoading, startStream } = useAgentStream({
-    onStatus: (status) => updateCurrentMessage({ status }),
-    onReasoning: (reasoning) => updateCurrentMessage({ reasoning }),
+  // Settle the current answer and record it as a version
+  const finishCurrentMessage = useCallback(
+    (updates: (msg: Message) => Partial<Message>) => {
+      const query = currentQueryRef.current;
+      updateCurrentMessage((msg) => settleAnswer(msg, query, updates(msg)));
+    },
+    [updateCurrentMessage]
+  );
+
+  const { isLoading, startStream, stopStream } = useAgentStream({
+    reconnectingStatus: t("message.reconnecting"),
+    onStatus: (status) =>
+      updateCurrentMessage((msg) => ({
+        status,
+        trace: appendTraceStep(msg.trace, status),
+      })),
+    onReasoning: (reasoning) =>
+      updateCurrentMessage((msg) => ({
+        reasoning: mergeReasoning(msg.reasoning, reasoning),
+      })),
     onCitation: (citation) =>
-      updateCurrentMessage({
-        citations: [
-          ...(messages.find((m) => m.id === currentMessageIdRef.current)
-            ?.citations || []),
-          citation,
-        ],
-      }),
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === currentMessageIdRef.current
+            ? { ...msg, citations: [...(msg.citations || []), citation] }
+            : msg
+        )
+      ),
     onToken: (token) =>
       setMessages((prev) =>
         prev.map((msg) =>
@@ -101,73 +223,287 @@ export function ChatInterface({
             : msg
         )
       ),
-    onComplete: () =>
-      updateCurrentMessage({ isStreaming: false, status: undefined }),
+    onComplete: () => finishCurrentMessage(() => ({})),
     onError: (error) =>
-      updateCurrentMessage({
-        content: `Error: ${error}`,
-        isStreaming: false,
-        status: undefined,
-      }),
+      finishCurrentMessage(() => ({
+        content: t("chat.errorPrefix", { error }),
+        isError: true,
+      })),
+    // The stream dropped for good without finishing the answer
+    onEnd: () => finishCurrentMessage(() => ({ isInterrupted: true })),
   });
 
+  /**
+   * Ask `userMessage` after the `prior` messages. The answer streams into
+   * `existingAnswer` as a new version when given, else into a new message.
+   */
+  const runQuery = useCallback(
+    async (
+      prior: Message[],
+      userMessage: Message,
+      existingAnswer?: { message: Message; previousQuery: string }
+    ) => {
+      // Carry prior turns so follow-up questions keep their context
+      const { history, droppedCount } = buildConversationHistory(
+        prior,
+        historyOptions
+      );
+
+      const assistantMessage: Message = existingAnswer
+        ? startNewVersion(
+            existingAnswer.message,
+            existingAnswer.previousQuery,
+            droppedCount,
+            activeDocumentIds
+          )
+        : {
+            id: generateId(),
+            role: "assistant",
+            content: "",
+            citations: [],
+            isStreaming: true,
+            droppedTurns: droppedCount,
+            documentIds: activeDocumentIds,
+            timestamp: new Date(),
+          };
+
+      currentMessageIdRef.current = assistantMessage.id;
+      currentQueryRef.current = userMessage.content;
+
+      setMessages([...prior, userMessage, assistantMessage]);
+
+      // Start the stream
+      const request: QueryRequest = {
+        query: userMessage.content,
+        document_ids: activeDocumentIds.length > 0 ? activeDocumentIds : undefined,
+        history,
+        answer_language: answerLanguage,
+      };
+
+      await startStream(getQueryStreamUrl(), JSON.stringify(request));
+    },
+    [historyOptions, activeDocumentIds, answerLanguage, startStream]
+  );
+
   const handleSendMessage = useCallback(
     async (content: string) => {
-      // Add user message
       const userMessage: Message = {
         id: generateId(),
         role: "user",
         content,
         timestamp: new Date(),
       };
+      await runQuery(messages, userMessage);
+    },
+    [messages, runQuery]
+  );
 
-      // Create assistant message placeholder
-      const assistantMessage: Message = {
-        id: generateId(),
-        role: "assistant",
-        content: "",
-        citations: [],
-        isStreaming: true,
-        timestamp: new Date(),
-      };
+  /** Re-run the conversation from the user message at `index` */
+  const rerunFrom = useCallback(
+    async (index: number, content: string) => {
+      const original = messages[index];
+      if (!original || original.role !== "user" || isLoading) return;
 
-      currentMessageIdRef.current = assistantMessage.id;
+      const answer = messages[index + 1];
+
+      await runQuery(
+        messages.slice(0, index),
+        { ...original, content, timestamp: new Date() },
+        answer?.role === "assistant"
+          ? { message: answer, previousQuery: original.content }
+          : undefined
+      );
+    },
+    [messages, isLoading, runQuery]
+  );
 
-      setMessages((prev) => [...prev, userMessage, assistantMessage]);
+  const handleStop = useCallback(() => {
+    stopStream();
+    finishCurrentMessage(() => ({ isInterrupted: true }));
+  }, [stopStream, finishCurrentMessage]);
 
-      // Start the stream
-      const body = JSON.stringify({
-        query: content,
-        document_id: activeDocumentId,
-      });
+  const handleCompare = useCallback(
+    async (content: string) => {
+      if (!canCompare) return;
+      await compare(
+        {
+          query: content,
+          left_document_id: compareIds.left,
+          right_document_id: compareIds.right,
+          answer_language: answerLanguage,
+        },
+        documentNames
+      );
+    },
+    [canCompare, compare, compareIds, answerLanguage, documentNames]
+  );
 
-      await startStream(getQueryStreamUrl(), body);
+  const handleSelectVersion = useCallback((messageId: string, index: number) => {
+    setMessages((prev) =>
+      prev.map((msg) => (msg.id === messageId ? selectVersion(msg, index) : msg))
+    );
+  }, []);
+
+  // Persist the conversation once a turn settles (not on every streamed token)
+  useEffect(() => {
+    if (isLoading || messages === savedMessagesRef.current) return;
+    savedMessagesRef.current = messages;
+    persistSession(messages, activeDocumentIds);
+  }, [isLoading, messages, activeDocumentIds, persistSession]);
+
+  /** Stop a streaming answer and save it as interrupted in the session being left */
+  const settleBeforeLeaving = useCallback(async () => {
+    if (!isLoading) return;
+    stopStream();
+    const messageId = currentMessageIdRef.current;
+    const settled = messages.map((msg) =>
+      msg.id === messageId ? settleAnswer(msg, currentQueryRef.current, { isInterrupted: true }) : msg
+    );
+    currentMessageIdRef.current = null;
+    // Saved here, while the leaving session is still active, rather than by the persist effect
+    savedMessagesRef.current = settled;
+    setMessages(settled);
+    await persistSession(settled, activeDocumentIds);
+  }, [isLoading, stopStream, messages, persistSession, activeDocumentIds]);
+
+  const handleNewSession = useCallback(async () => {
+    await settleBeforeLeaving();
+    currentMessageIdRef.current = null;
+    savedMessagesRef.current = [];
+    setMessages([]);
+    newSession();
+  }, [settleBeforeLeaving, newSession]);
+
+  const handleOpenSession = useCallback(
+    async (id: string) => {
+      if (id === activeSessionId) return;
+      await settleBeforeLeaving();
+      const session = await openSession(id);
+      if (!session) return;
+
+      currentMessageIdRef.current = null;
+      savedMessagesRef.current = session.messages;
+      setMessages(session.messages);
+
+      // Restore scope to the documents that are still indexed
+      onScopeChange(
+        session.documentIds.filter((id) => documents.some((d) => d.id === id))
+      );
+    },
+    [activeSessionId, settleBeforeLeaving, openSession, documents, onScopeChange]
+  );
+
+  const handleDeleteSession = useCallback(
+    async (id: string) => {
+      if (id === activeSessionId) {
+        // Let any save of the leaving session finish so the delete is final
+        await handleNewSession();
+      }
+      await deleteSession(id);
     },
-    [activeDocumentId, startStream]
+    [activeSessionId, handleNewSession, deleteSession]
   );
 
   const handleDeleteDocument = useCallback(async (docId: string) => {
+    setIsDeletingDocument(true);
     try {
       await deleteDocument(docId);
       onDocumentDeleted(docId);
     } catch (error) {
       console.error("Failed to delete document:", error);
+    } finally {
+      setIsDeletingDocument(false);
+      setPendingDeleteId(null);
     }
   }, [onDocumentDeleted]);
 
-  const handleQuickPrompt = useCallback((prompt: string) => {
-    if (!isLoading && documents.length > 0) {
+  const handleExport = useCallback(
+    (format: MemoFormat, exported: Message[] = messages) => {
+      const session = sessions.find((s) => s.id === activeSessionId);
+      const memo = buildMemo(exported, {
+        title: exported === messages ? session?.title : exported[0]?.content.slice(0, 60),
+        documentNames,
+        translator: { t, formatDate },
+      });
+      return exportMemo(memo, format);
+    },
+    [messages, sessions, activeSessionId, documentNames, t, formatDate]
+  );
+
+  const handleTemplatePrompt = useCallback((prompt: string) => {
+    if (!isLoading && isBackendReady && documents.length > 0) {
       handleSendMessage(prompt);
     }
-  }, [isLoading, documents.length, handleSendMessage]);
+  }, [isLoading, isBackendReady, documents.length, handleSendMessage]);
+
+  // Templates with placeholders are filled in before sending
+  const handleSelectTemplate = useCallback(
+    (template: PromptTemplate) => {
+      if (templatePlaceholders(template.text).length > 0) {
+        setFillingTemplate(template);
+      } else {
+        handleTemplatePrompt(template.text);
+      }
+    },
+    [handleTemplatePrompt]
+  );
 
   return (
     <div className="h-full flex">
+      {/* Left Sidebar */}
+      <SessionSidebar
+        sessions={sessions}
+        activeSessionId={activeSessionId}
+        onNew={handleNewSession}
+        onOpen={handleOpenSession}
+        onRename={renameSession}
+        onDelete={handleDeleteSession}
+      />
+
       {/* Main Chat Area */}
       <div className="flex-1 flex flex-col min-w-0">
         {/* Messages */}
         <div className="flex-1 overflow-y-auto">
-          {messages.length === 0 ? (
+          {mode === "compare" ? (
+            comparisons.length === 0 ? (
+              /* Comparison Empty State */
+              <div className="h-full flex items-center justify-center p-8">
+                <div className="text-center max-w-lg">
+                  <div className="w-20 h-20 mx-auto mb-6 rounded-2xl bg-gradient-to-br from-indigo-100 to-violet-100 flex items-center justify-center border border-indigo-200/50 shadow-lg shadow-indigo-500/10">
+                    <GitCompare className="w-10 h-10 text-indigo-600" />
+                  </div>
+                  <h2 className="text-2xl font-semibold text-stone-800 mb-3">
+                    {t("chat.compareTitle")}
+                  </h2>
+                  <p className="text-stone-500 leading-relaxed">
+                    {documents.length < 2 ? t("chat.compareNeedTwo") : t("chat.compareHint")}
+                  </p>
+                </div>
+              </div>
+            ) : (
+              /* Comparisons List */
+              <div className="max-w-7xl mx-auto py-8 px-6 space-y-8">
+                <div className="flex justify-end -mb-4">
+                  <button
+                    onClick={clearComparisons}
+                    disabled={isComparing}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium text-stone-500 hover:bg-stone-100 transition-colors disabled:opacity-50"
+                  >
+                    {t("chat.clearComparisons")}
+                  </button>
+                </div>
+                {comparisons.map((comparison) => (
+                  <ComparisonView
+                    key={comparison.id}
+                    comparison={comparison}
+                    documentNames={documentNames}
+                    pageCounts={pageCounts}
+                  />
+                ))}
+                <div ref={messagesEndRef} />
+              </div>
+            )
+          ) : messages.length === 0 ? (
             /* Empty State */
             <div className="h-full flex items-center justify-center p-8">
               <div className="text-center max-w-lg">
@@ -175,48 +511,146 @@ export function ChatInterface({
                   <Sparkles className="w-10 h-10 text-indigo-600" />
                 </div>
                 <h2 className="text-2xl font-semibold text-stone-800 mb-3">
-                  Visual Document Intelligence
+                  {t("chat.emptyTitle")}
                 </h2>
                 <p className="text-stone-500 mb-8 leading-relaxed">
-                  {documents.length === 0 
-                    ? "Attach a PDF document using the button below, then ask questions about its contents. I'll show you the exact pages and sections."
-                    : "Ask questions about your indexed documents. I'll find relevant sections and show you the visual evidence."
-                  }
+                  {documents.length === 0 ? t("chat.emptyNoDocuments") : t("chat.emptyWithDocuments")}
                 </p>
 
-                {/* Quick Prompts */}
+                {/* Prompt Templates */}
                 {documents.length > 0 && (
-                  <div className="grid grid-cols-2 gap-3">
-                    {QUICK_PROMPTS.map((item) => (
-                      <button
-                        key={item.label}
-                        onClick={() => handleQuickPrompt(item.prompt)}
-                        disabled={isLoading}
-                        className={cn(
-                          "flex items-center gap-3 p-4 rounded-xl text-left transition-all duration-200",
-                          "bg-white border border-stone-200/80 shadow-sm",
-                          "hover:bg-indigo-50/50 hover:border-indigo-200 hover:shadow-md",
-                          "disabled:opacity-50 disabled:cursor-not-allowed"
-                        )}
-                      >
-                        <item.icon className="w-5 h-5 text-indigo-600 flex-shrink-0" />
-                        <span className="text-sm text-stone-600">{item.label}</span>
-                      </button>
-                    ))}
-                  </div>
+                  <>
+                    {templateCategories.length > 1 && (
+                      <div className="flex flex-wrap justify-center gap-1.5 mb-3">
+                        {[null, ...templateCategories].map((category) => (
+                          <button
+                            key={category ?? "all"}
+                            onClick={() => setTemplateCategory(category)}
+                            className={cn(
+                              "px-2.5 py-1 rounded-lg text-xs transition-colors",
+                              activeCategory === category
+                                ? "bg-indigo-50 text-indigo-700 font-medium"
+                                : "text-stone-500 hover:bg-stone-100"
+                            )}
+                          >
+                            {category === null
+                              ? t("templates.all")
+                              : category || t("templates.uncategorized")}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-3 max-h-72 overflow-y-auto p-0.5">
+                      {visibleTemplates.map((template) => (
+                        <button
+                          key={template.id}
+                          onClick={() => handleSelectTemplate(template)}
+                          disabled={isLoading || !isBackendReady}
+                          title={template.text}
+                          className={cn(
+                            "flex items-center gap-3 p-4 rounded-xl text-left transition-all duration-200",
+                            "bg-white border border-stone-200/80 shadow-sm",
+                            "hover:bg-indigo-50/50 hover:border-indigo-200 hover:shadow-md",
+                            "disabled:opacity-50 disabled:cursor-not-allowed"
+                          )}
+                        >
+                          <MessageSquareText className="w-5 h-5 text-indigo-600 flex-shrink-0" />
+                          <span className="flex-1 min-w-0 text-sm text-stone-600 truncate">
+                            {template.title}
+                          </span>
+                          {templatePlaceholders(template.text).length > 0 && (
+                            <Braces className="w-3.5 h-3.5 text-stone-300 flex-shrink-0" />
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => setIsTemplateLibraryOpen(true)}
+                      className="mt-4 inline-flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                    >
+                      <Settings2 className="w-3.5 h-3.5" />
+                      {t("templates.manage")}
+                    </button>
+                  </>
                 )}
               </div>
             </div>
           ) : (
             /* Messages List */
             <div className="max-w-4xl mx-auto py-8 px-6 space-y-6">
-              {messages.map((message) => (
-                <ChatMessage
-                  key={message.id}
-                  message={message}
-                  documentNames={documentNames}
+              <div className="flex justify-end gap-3 -mb-2">
+                {feedback.records.length > 0 && (
+                  <button
+                    onClick={feedback.exportDataset}
+                    className="flex items-center gap-1.5 text-xs font-medium text-stone-500 hover:text-indigo-600 transition-colors"
+                    title={t("feedback.exportTitle")}
+                  >
+                    <Download className="w-3.5 h-3.5" />
+                    {t("feedback.export")}
+                  </button>
+                )}
+                <ExportMenu
+                  onExport={(format) => handleExport(format)}
+                  disabled={isLoading}
                 />
-              ))}
+              </div>
+              {messages.map((message, index) => {
+                const question =
+                  message.role === "assistant" && messages[index - 1]?.role === "user"
+                    ? messages[index - 1].content
+                    : undefined;
+                // Feedback pairs the displayed version with the question and scope it
+                // answered; answers saved before the scope was recorded use the current one
+                const version = message.versions?.[message.versionIndex ?? 0];
+                const feedbackTarget =
+                  question !== undefined
+                    ? {
+                        message,
+                        query: displayedQuery(message) ?? question,
+                        scope: version?.documentIds ?? message.documentIds ?? activeDocumentIds,
+                      }
+                    : null;
+                return (
+                  <ChatMessage
+                    key={message.id}
+                    message={message}
+                    documentNames={documentNames}
+                    pageCounts={pageCounts}
+                    onEdit={
+                      message.role === "user" && !isLoading
+                        ? (content) => rerunFrom(index, content)
+                        : undefined
+                    }
+                    onRegenerate={
+                      message.role === "assistant" &&
+                      index === messages.length - 1 &&
+                      !isLoading
+                        ? () => rerunFrom(index - 1, messages[index - 1].content)
+                        : undefined
+                    }
+                    onSelectVersion={(versionIndex) =>
+                      handleSelectVersion(message.id, versionIndex)
+                    }
+                    onExport={
+                      message.role === "assistant" && messages[index - 1]?.role === "user"
+                        ? (format) => handleExport(format, [messages[index - 1], message])
+                        : undefined
+                    }
+                    question={question}
+                    feedback={feedback.getFeedback(message)}
+                    onRate={
+                      feedbackTarget
+                        ? (rating, reason, comment) => feedback.rateAnswer(feedbackTarget, rating, reason, comment)
+                        : undefined
+                    }
+                    onLabelCitation={
+                      feedbackTarget
+                        ? (citation, label) => feedback.labelCitation(feedbackTarget, citation, label)
+                        : undefined
+                    }
+                  />
+                );
+              })}
               <div ref={messagesEndRef} />
             </div>
           )}
@@ -225,100 +659,153 @@ export function ChatInterface({
         {/* Input Area */}
         <div className="flex-shrink-0 border-t border-stone-200/80 bg-white/80 backdrop-blur-xl p-4 pb-8">
           <div className="max-w-4xl mx-auto">
-            <ChatInput 
-              onSubmit={handleSendMessage} 
-              onDocumentUploaded={onDocumentUploaded}
-              isLoading={isLoading} 
-            />
+            <HealthBanner className="mb-3" />
+            {mode === "compare" ? (
+              <ChatInput
+                onSubmit={handleCompare}
+                onStop={stopComparison}
+                onDocumentUploaded={onDocumentUploaded}
+                documents={documents}
+                isLoading={isComparing}
+                canSubmit={canCompare && isBackendReady}
+                canUpload={isBackendReady}
+                placeholder={
+                  canCompare ? t("chat.comparePlaceholder") : t("chat.compareSelectPlaceholder")
+                }
+                templates={templates}
+                onManageTemplates={() => setIsTemplateLibraryOpen(true)}
+              />
+            ) : (
+              <ChatInput 
+                onSubmit={handleSendMessage} 
+                onStop={handleStop}
+                onDocumentUploaded={onDocumentUploaded}
+                documents={documents}
+                isLoading={isLoading} 
+                canSubmit={isBackendReady}
+                canUpload={isBackendReady}
+                templates={templates}
+                onManageTemplates={() => setIsTemplateLibraryOpen(true)}
+              />
+            )}
           </div>
         </div>
       </div>
 
       {/* Right Sidebar */}
       <aside className="w-72 border-l border-stone-200/80 bg-stone-50/50 flex flex-col flex-shrink-0">
-        {/* Document Scope */}
-        <div className="p-4 border-b border-stone-200/80">
-          <label className="block text-[10px] font-medium text-stone-400 uppercase tracking-wider mb-2">
-            Query Scope
-          </label>
-          <div className="relative">
-            <button
-              onClick={() => setShowDocList(!showDocList)}
-              className={cn(
-                "w-full flex items-center justify-between gap-2 px-3 py-2.5 rounded-xl text-left transition-all",
-                "bg-white border border-stone-200 hover:border-stone-300 shadow-sm",
-                showDocList && "border-indigo-400 ring-2 ring-indigo-100"
-              )}
-            >
-              <span className="text-sm text-stone-600 truncate">
-                {activeDocumentId 
-                  ? documents.find(d => d.id === activeDocumentId)?.filename || "Unknown"
-                  : "All Documents"
-                }
-              </span>
-              <ChevronDown className={cn(
-                "w-4 h-4 text-stone-400 transition-transform",
-                showDocList && "rotate-180"
-              )} />
-            </button>
-
-            {showDocList && (
-              <div className="absolute top-full left-0 right-0 mt-2 p-2 rounded-xl bg-white border border-stone-200 shadow-xl z-10">
-                <button
-                  onClick={() => { onDocumentSelect(null); setShowDocList(false); }}
-                  className={cn(
-                    "w-full px-3 py-2 rounded-lg text-left text-sm transition-colors",
-                    !activeDocumentId ? "bg-indigo-50 text-indigo-700 font-medium" : "text-stone-600 hover:bg-stone-50"
-                  )}
+        {/* Mode */}
+        <div className="p-4 pb-0">
+          <div className="grid grid-cols-2 gap-1 p-1 rounded-xl bg-stone-100">
+            {([
+              { value: "ask", label: t("chat.modeAsk"), icon: MessageSquare },
+              { value: "compare", label: t("chat.modeCompare"), icon: GitCompare },
+            ] as const).map((item) => (
+              <button
+                key={item.value}
+                onClick={() => setMode(item.value)}
+                disabled={isLoading || isComparing}
+                className={cn(
+                  "flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all disabled:cursor-not-allowed",
+                  mode === item.value
+                    ? "bg-white text-indigo-700 shadow-sm"
+                    : "text-stone-500 hover:text-stone-700"
+                )}
+              >
+                <item.icon className="w-3.5 h-3.5" />
+                {item.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Comparison Documents */}
+        {mode === "compare" && (
+          <div className="p-4 border-b border-stone-200/80 space-y-3">
+            {(["left", "right"] as const).map((side) => (
+              <div key={side}>
+                <label className="block text-[10px] font-medium text-stone-400 uppercase tracking-wider mb-2">
+                  {t("chat.compareDocument", { side: side === "left" ? "A" : "B" })}
+                </label>
+                <select
+                  value={compareIds[side]}
+                  onChange={(e) => setCompareIds((prev) => ({ ...prev, [side]: e.target.value }))}
+                  disabled={isComparing}
+                  className="w-full px-3 py-2.5 rounded-xl text-sm text-stone-600 bg-white border border-stone-200 hover:border-stone-300 shadow-sm focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100 focus:outline-none"
                 >
-                  All Documents
-                </button>
-                {documents.map((doc) => (
-                  <button
-                    key={doc.id}
-                    onClick={() => { onDocumentSelect(doc.id); setShowDocList(false); }}
-                    className={cn(
-                      "w-full px-3 py-2 rounded-lg text-left text-sm transition-colors truncate",
-                      activeDocumentId === doc.id ? "bg-indigo-50 text-indigo-700 font-medium" : "text-stone-600 hover:bg-stone-50"
-                    )}
-                  >
-                    {doc.filename}
-                  </button>
-                ))}
+                  <option value="">{t("chat.selectDocument")}</option>
+                  {documents.map((doc) => (
+                    <option
+                      key={doc.id}
+                      value={doc.id}
+                      disabled={doc.id === compareIds[side === "left" ? "right" : "left"]}
+                    >
+                      {doc.filename}
+                    </option>
+                  ))}
+                </select>
               </div>
-            )}
+            ))}
           </div>
-        </div>
+        )}
+
+        {/* Document Scope */}
+        {mode === "ask" && (
+          <div className="p-4 border-b border-stone-200/80">
+            <label className="block text-[10px] font-medium text-stone-400 uppercase tracking-wider mb-2">
+              {t("chat.queryScope")}
+            </label>
+            <QueryScopeSelector
+              documents={documents}
+              selectedIds={activeDocumentIds}
+              onChange={onScopeChange}
+              documentSets={documentSets}
+              onCreateSet={createDocumentSet}
+              onDeleteSet={deleteDocumentSet}
+            />
+          </div>
+        )}
 
-        {/* Active Document Info */}
-        {activeDocument && (
+        {/* Active Documents Info */}
+        {mode === "ask" && activeDocuments.length > 0 && (
           <div className="p-4 border-b border-stone-200/80">
             <label className="block text-[10px] font-medium text-stone-400 uppercase tracking-wider mb-3">
-              Active Document
+              {activeDocuments.length === 1
+                ? t("chat.activeDocument")
+                : t("chat.activeDocuments", { count: activeDocuments.length })}
             </label>
-            <div className="p-3 rounded-xl bg-white border border-stone-200 shadow-sm">
-              <div className="flex items-start gap-3">
-                <div className="w-9 h-9 rounded-lg bg-indigo-100 flex items-center justify-center flex-shrink-0">
-                  <FileText className="w-4 h-4 text-indigo-600" />
-                </div>
-                <div className="min-w-0 flex-1">
-                  <p className="text-sm font-medium text-stone-700 truncate">
-                    {activeDocument.filename}
-                  </p>
-                  <p className="text-xs text-stone-400 mt-0.5">
-                    {activeDocument.page_count} pages
-                  </p>
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {activeDocuments.map((doc) => (
+                <div key={doc.id} className="p-3 rounded-xl bg-white border border-stone-200 shadow-sm">
+                  <div className="flex items-start gap-3">
+                    <div className="w-9 h-9 rounded-lg bg-indigo-100 flex items-center justify-center flex-shrink-0">
+                      <FileText className="w-4 h-4 text-indigo-600" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium text-stone-700 truncate">
+                        {doc.filename}
+                      </p>
+                      <p className="text-xs text-stone-400 mt-0.5">
+                        {tn("common.pages", doc.page_count)}
+                      </p>
+                    </div>
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
           </div>
         )}
 
         {/* Documents List */}
         <div className="flex-1 overflow-y-auto p-4">
-          <label className="block text-[10px] font-medium text-stone-400 uppercase tracking-wider mb-3">
-            Indexed Documents ({documents.length})
-          </label>
+          <div className="flex items-center justify-between mb-3">
+            <label className="block text-[10px] font-medium text-stone-400 uppercase tracking-wider">
+              {t("chat.indexedDocuments", { count: documents.length })}
+            </label>
+            <Link href="/documents" className="text-[11px] text-indigo-600 hover:text-indigo-700">
+              {t("chat.manage")}
+            </Link>
+          </div>
           
           {documents.length === 0 ? (
             <div className="text-center py-8">
@@ -326,10 +813,10 @@ export function ChatInterface({
                 <FileText className="w-6 h-6 text-stone-300" />
               </div>
               <p className="text-xs text-stone-400">
-                No documents yet
+                {t("chat.noDocuments")}
               </p>
               <p className="text-xs text-stone-300 mt-1">
-                Use the attachment button below
+                {t("chat.noDocumentsHint")}
               </p>
             </div>
           ) : (
@@ -351,19 +838,19 @@ export function ChatInterface({
                       </p>
                       <div className="flex items-center gap-2 mt-1">
                         <span className="text-[10px] text-stone-400">
-                          {doc.page_count} pages
+                          {tn("common.pages", doc.page_count)}
                         </span>
                         <span className="text-stone-200">•</span>
                         <Clock className="w-3 h-3 text-stone-400" />
                         <span className="text-[10px] text-stone-400">
-                          {new Date(doc.uploaded_at).toLocaleDateString()}
+                          {formatDay(doc.uploaded_at)}
                         </span>
                       </div>
                     </div>
                     <button
-                      onClick={() => handleDeleteDocument(doc.id)}
+                      onClick={() => setPendingDeleteId(doc.id)}
                       className="p-1.5 rounded-lg text-stone-300 hover:text-red-500 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-all"
-                      title="Delete document"
+                      title={t("chat.deleteDocument")}
                     >
                       <Trash2 className="w-3.5 h-3.5" />
                     </button>
@@ -380,15 +867,55 @@ export function ChatInterface({
             <div className="flex items-start gap-2">
               <Sparkles className="w-4 h-4 text-indigo-600 mt-0.5" />
               <div>
-                <p className="text-xs font-medium text-indigo-700">Pro Tip</p>
+                <p className="text-xs font-medium text-indigo-700">{t("chat.tipTitle")}</p>
                 <p className="text-[11px] text-stone-500 mt-1 leading-relaxed">
-                  Ask specific questions for better results. Try &quot;What are the termination clauses?&quot;
+                  {t("chat.tipBody")}
                 </p>
               </div>
             </div>
           </div>
         </div>
       </aside>
+
+      {pendingDeleteId && (
+        <ConfirmDialog
+          title={t("chat.deleteDocumentTitle")}
+          description={
+            <>
+              <span className="font-medium text-stone-700">
+                {documentNames[pendingDeleteId] ?? pendingDeleteId}
+              </span>{" "}
+              {t("chat.deleteDocumentBody")}
+            </>
+          }
+          confirmLabel={t("common.delete")}
+          isLoading={isDeletingDocument}
+          onConfirm={() => handleDeleteDocument(pendingDeleteId)}
+          onCancel={() => setPendingDeleteId(null)}
+        />
+      )}
+
+      {fillingTemplate && (
+        <TemplateFillDialog
+          template={fillingTemplate}
+          submitLabel={t("templates.ask")}
+          onSubmit={(text) => {
+            setFillingTemplate(null);
+            handleTemplatePrompt(text);
+          }}
+          onCancel={() => setFillingTemplate(null)}
+        />
+      )}
+
+      {isTemplateLibraryOpen && (
+        <PromptTemplateLibrary
+          templates={templates}
+          onSave={saveTemplate}
+          onDelete={deleteTemplate}
+          onImport={importTemplates}
+          onClose={() => setIsTemplateLibraryOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -1,17 +1,117 @@
 "use client";
 
-import { User, Bot } from "lucide-react";
-import type { Message } from "@/lib/types";
-import { cn, formatDate } from "@/lib/utils";
+import { useState, useRef, useCallback } from "react";
+import {
+  User,
+  Bot,
+  History,
+  Pencil,
+  RefreshCw,
+  ChevronLeft,
+  ChevronRight,
+  CircleStop,
+  Highlighter,
+} from "lucide-react";
+import type {
+  AnswerRating,
+  Citation,
+  CitationLabel,
+  FeedbackReason,
+  FeedbackRecord,
+  Message,
+} from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { displayedQuery } from "@/lib/answerVersions";
+import { citationLabel } from "@/lib/feedback";
+import { resolveCitationMarker, type CitationMarker } from "@/lib/markdown";
+import type { MemoFormat } from "@/lib/memoExport";
 import { CitationGrid } from "./VisualCitation";
+import { MarkdownContent } from "./MarkdownContent";
+import { AgentTrace } from "./AgentTrace";
+import { ExportMenu } from "./ExportMenu";
+import { FeedbackButtons } from "./FeedbackButtons";
+import { useI18n } from "@/components/layout/I18nProvider";
 
 interface ChatMessageProps {
   message: Message;
   documentNames?: Record<string, string>;
+  pageCounts?: Record<string, number>;
+  /** Re-run the conversation from this user message with new text */
+  onEdit?: (content: string) => void;
+  /** Generate a new version of this answer */
+  onRegenerate?: () => void;
+  onSelectVersion?: (index: number) => void;
+  /** Export this question and answer as a memo */
+  onExport?: (format: MemoFormat) => Promise<void>;
+  /**
+   * User message this answer follows. Evidence board pins save it, or the
+   * question the displayed version answered when that differs.
+   */
+  question?: string;
+  /** Feedback recorded for the displayed answer version */
+  feedback?: FeedbackRecord;
+  onRate?: (rating: AnswerRating | null, reason?: FeedbackReason | null, comment?: string) => void;
+  onLabelCitation?: (citation: Citation, label: CitationLabel | null) => void;
 }
 
-export function ChatMessage({ message, documentNames }: ChatMessageProps) {
+export function ChatMessage({
+  message,
+  documentNames,
+  pageCounts,
+  onEdit,
+  onRegenerate,
+  onSelectVersion,
+  onExport,
+  question,
+  feedback,
+  onRate,
+  onLabelCitation,
+}: ChatMessageProps) {
+  const { t, tn, formatDate } = useI18n();
   const isUser = message.role === "user";
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [expandedCitation, setExpandedCitation] = useState<number | null>(null);
+  const [showHighlights, setShowHighlights] = useState(true);
+  const citationsRef = useRef<HTMLDivElement>(null);
+  const citations = message.citations ?? [];
+  const hasHighlights = citations.some((c) => c.highlights?.length);
+
+  const isCitationAvailable = useCallback(
+    (marker: CitationMarker) =>
+      resolveCitationMarker(marker, citations, documentNames) !== -1,
+    [citations, documentNames]
+  );
+
+  // Versions include the one streaming now, which is not stored until it finishes
+  const storedVersions = message.versions?.length ?? 0;
+  const versionCount =
+    storedVersions + (message.isStreaming && message.versionIndex === storedVersions ? 1 : 0);
+  const versionIndex = message.versionIndex ?? versionCount - 1;
+  // Older versions may answer the question as it was before an edit
+  const versionQuery = displayedQuery(message);
+
+  const handleSaveEdit = () => {
+    const trimmed = draft.trim();
+    setIsEditing(false);
+    if (trimmed && trimmed !== message.content) {
+      onEdit?.(trimmed);
+    }
+  };
+
+  // Scroll the matching thumbnail into view and open its expanded view
+  const handleCitationClick = useCallback(
+    (marker: CitationMarker) => {
+      const index = resolveCitationMarker(marker, citations, documentNames);
+      if (index === -1) return;
+
+      citationsRef.current
+        ?.querySelector(`[data-citation-index="${index}"]`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+      setExpandedCitation(index);
+    },
+    [citations, documentNames]
+  );
 
   return (
     <div
@@ -39,39 +139,194 @@ export function ChatMessage({ message, documentNames }: ChatMessageProps) {
       {/* Content */}
       <div className={cn("flex-1 min-w-0", isUser ? "text-right" : "text-left")}>
         {/* Message bubble */}
+        {isEditing ? (
+          <div className="inline-block w-full max-w-xl text-left">
+            <textarea
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSaveEdit();
+                } else if (e.key === "Escape") {
+                  setIsEditing(false);
+                }
+              }}
+              rows={3}
+              className="w-full resize-none rounded-2xl px-4 py-3 border border-indigo-300 ring-2 ring-indigo-100 bg-white text-[15px] leading-relaxed text-stone-800 focus:outline-none"
+            />
+            <div className="mt-2 flex justify-end gap-2">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1.5 text-xs font-medium text-stone-500 hover:bg-stone-100 rounded-lg transition-colors"
+              >
+                {t("common.cancel")}
+              </button>
+              <button
+                onClick={handleSaveEdit}
+                disabled={!draft.trim()}
+                className="px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors shadow-sm disabled:opacity-50"
+              >
+                {t("message.saveAndResend")}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div
+            className={cn(
+              "inline-block rounded-2xl px-4 py-3 max-w-full",
+              isUser
+                ? "bg-gradient-to-r from-indigo-600 to-violet-600 text-white rounded-tr-md shadow-lg shadow-indigo-500/20"
+                : "bg-white border border-stone-200 text-stone-700 rounded-tl-md shadow-sm"
+            )}
+          >
+            {message.content && isUser ? (
+              <p className="whitespace-pre-wrap break-words text-[15px] leading-relaxed">{message.content}</p>
+            ) : message.content ? (
+              <MarkdownContent
+                content={message.content}
+                isCitationAvailable={isCitationAvailable}
+                onCitationClick={handleCitationClick}
+              />
+            ) : message.isStreaming ? (
+              <div className="flex items-center gap-2">
+                <div className="flex gap-1">
+                  <span className="w-2 h-2 rounded-full bg-indigo-500 animate-bounce" style={{ animationDelay: "0ms" }} />
+                  <span className="w-2 h-2 rounded-full bg-indigo-500 animate-bounce" style={{ animationDelay: "150ms" }} />
+                  <span className="w-2 h-2 rounded-full bg-indigo-500 animate-bounce" style={{ animationDelay: "300ms" }} />
+                </div>
+              </div>
+            ) : null}
+          </div>
+        )}
+
+        {/* Timestamp & actions */}
         <div
           className={cn(
-            "inline-block rounded-2xl px-4 py-3 max-w-full",
-            isUser
-              ? "bg-gradient-to-r from-indigo-600 to-violet-600 text-white rounded-tr-md shadow-lg shadow-indigo-500/20"
-              : "bg-white border border-stone-200 text-stone-700 rounded-tl-md shadow-sm"
+            "mt-1.5 flex items-center gap-2 text-[11px] text-stone-300",
+            isUser && "justify-end"
           )}
         >
-          {message.content ? (
-            <p className="whitespace-pre-wrap break-words text-[15px] leading-relaxed">{message.content}</p>
-          ) : message.isStreaming ? (
-            <div className="flex items-center gap-2">
-              <div className="flex gap-1">
-                <span className="w-2 h-2 rounded-full bg-indigo-500 animate-bounce" style={{ animationDelay: "0ms" }} />
-                <span className="w-2 h-2 rounded-full bg-indigo-500 animate-bounce" style={{ animationDelay: "150ms" }} />
-                <span className="w-2 h-2 rounded-full bg-indigo-500 animate-bounce" style={{ animationDelay: "300ms" }} />
-              </div>
-            </div>
-          ) : null}
-        </div>
+          <span>{formatDate(message.timestamp)}</span>
 
-        {/* Timestamp */}
-        <div className="mt-1.5 text-[11px] text-stone-300">
-          {formatDate(message.timestamp)}
+          {message.isInterrupted && (
+            <span className="inline-flex items-center gap-1 text-amber-600">
+              <CircleStop className="w-3 h-3" />
+              {t("message.stopped")}
+            </span>
+          )}
+
+          {versionCount > 1 && (
+            <span className="inline-flex items-center gap-0.5 text-stone-400">
+              <button
+                onClick={() => onSelectVersion?.(versionIndex - 1)}
+                disabled={versionIndex === 0 || message.isStreaming}
+                className="p-0.5 rounded hover:bg-stone-100 disabled:opacity-40"
+                title={t("message.previousVersion")}
+              >
+                <ChevronLeft className="w-3 h-3" />
+              </button>
+              {versionIndex + 1}/{versionCount}
+              <button
+                onClick={() => onSelectVersion?.(versionIndex + 1)}
+                disabled={versionIndex >= storedVersions - 1 || message.isStreaming}
+                className="p-0.5 rounded hover:bg-stone-100 disabled:opacity-40"
+                title={t("message.nextVersion")}
+              >
+                <ChevronRight className="w-3 h-3" />
+              </button>
+            </span>
+          )}
+
+          {versionQuery !== undefined && question !== undefined && versionQuery !== question && (
+            <span className="truncate max-w-xs text-amber-600" title={versionQuery}>
+              {t("message.answeredQuery", { query: versionQuery })}
+            </span>
+          )}
+
+          {onRegenerate && !message.isStreaming && (
+            <button
+              onClick={onRegenerate}
+              className="inline-flex items-center gap-1 text-stone-400 hover:text-indigo-600 transition-colors"
+              title={t("message.regenerateTitle")}
+            >
+              <RefreshCw className="w-3 h-3" />
+              {t("message.regenerate")}
+            </button>
+          )}
+
+          {onRate && !message.isStreaming && !message.isError && (
+            <FeedbackButtons labels={feedback?.labels} onRate={onRate} />
+          )}
+
+          {onExport && !message.isStreaming && !message.isError && (
+            <ExportMenu onExport={onExport} label={t("message.export")} compact />
+          )}
+
+          {onEdit && !isEditing && (
+            <button
+              onClick={() => {
+                setDraft(message.content);
+                setIsEditing(true);
+              }}
+              className="inline-flex items-center gap-1 text-stone-400 hover:text-indigo-600 transition-colors"
+              title={t("message.editTitle")}
+            >
+              <Pencil className="w-3 h-3" />
+              {t("common.edit")}
+            </button>
+          )}
         </div>
 
+        {/* Agent trace */}
+        {!isUser && (
+          <AgentTrace
+            trace={message.trace}
+            reasoning={message.reasoning}
+            isStreaming={message.isStreaming}
+          />
+        )}
+
+        {/* Context trimming notice */}
+        {!isUser && !!message.droppedTurns && (
+          <div className="mt-1 flex items-center gap-1.5 text-[11px] text-amber-600">
+            <History className="w-3 h-3" />
+            <span>{tn("message.droppedTurns", message.droppedTurns)}</span>
+          </div>
+        )}
+
         {/* Citations */}
-        {!isUser && message.citations && message.citations.length > 0 && (
-          <div className="mt-4">
-            <p className="text-xs text-stone-400 mb-3 uppercase tracking-wider">Visual Evidence</p>
+        {!isUser && citations.length > 0 && (
+          <div ref={citationsRef} className="mt-4">
+            <div className="flex items-center justify-between mb-3">
+              <p className="text-xs text-stone-400 uppercase tracking-wider">{t("message.visualEvidence")}</p>
+              {hasHighlights && (
+                <button
+                  onClick={() => setShowHighlights(!showHighlights)}
+                  className={cn(
+                    "inline-flex items-center gap-1 px-2 py-1 rounded-lg text-[11px] transition-colors",
+                    showHighlights
+                      ? "bg-amber-50 text-amber-700 hover:bg-amber-100"
+                      : "text-stone-400 hover:bg-stone-100"
+                  )}
+                >
+                  <Highlighter className="w-3 h-3" />
+                  {showHighlights ? t("message.highlightsOn") : t("message.highlightsOff")}
+                </button>
+              )}
+            </div>
             <CitationGrid
-              citations={message.citations}
+              citations={citations}
               documentNames={documentNames}
+              pageCounts={pageCounts}
+              showHighlights={showHighlights}
+              onShowHighlightsChange={setShowHighlights}
+              expandedIndex={expandedCitation}
+              onExpandedIndexChange={setExpandedCitation}
+              question={versionQuery ?? question}
+              citationLabel={onLabelCitation ? (citation) => citationLabel(feedback, citation) : undefined}
+              onLabelCitation={message.isStreaming ? undefined : onLabelCitation}
             />
           </div>
         )}
@@ -0,0 +1,180 @@
+"use client";
+
+import { useState, useRef, useCallback } from "react";
+import { FileText, GitCompare, CircleStop, Loader2 } from "lucide-react";
+import type { Comparison, ComparisonAnswer, ComparisonPart } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { resolveCitationMarker, type CitationMarker } from "@/lib/markdown";
+import { CitationGrid } from "./VisualCitation";
+import { MarkdownContent } from "./MarkdownContent";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface ComparisonViewProps {
+  comparison: Comparison;
+  documentNames?: Record<string, string>;
+  pageCounts?: Record<string, number>;
+}
+
+/** Streamed text with a status line while it is in progress */
+function PartBody({
+  part,
+  isCitationAvailable,
+  onCitationClick,
+}: {
+  part: ComparisonPart;
+  isCitationAvailable?: (marker: CitationMarker) => boolean;
+  onCitationClick?: (marker: CitationMarker) => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <>
+      {part.content ? (
+        <div className={cn(part.isError && "text-red-600")}>
+          <MarkdownContent
+            content={part.content}
+            isCitationAvailable={isCitationAvailable}
+            onCitationClick={onCitationClick}
+          />
+        </div>
+      ) : null}
+      {part.isStreaming && (
+        <p className="mt-2 flex items-center gap-1.5 text-xs text-stone-400">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          {part.status || t("message.thinking")}
+        </p>
+      )}
+      {part.isInterrupted && (
+        <p className="mt-2 inline-flex items-center gap-1 text-[11px] text-amber-600">
+          <CircleStop className="w-3 h-3" />
+          {t("message.stopped")}
+        </p>
+      )}
+    </>
+  );
+}
+
+function AnswerPanel({
+  answer,
+  label,
+  documentNames,
+  pageCounts,
+  question,
+}: {
+  answer: ComparisonAnswer;
+  label: string;
+  documentNames?: Record<string, string>;
+  pageCounts?: Record<string, number>;
+  question: string;
+}) {
+  const { t } = useI18n();
+  const [expandedCitation, setExpandedCitation] = useState<number | null>(null);
+  const [showHighlights, setShowHighlights] = useState(true);
+  const citationsRef = useRef<HTMLDivElement>(null);
+  const { citations } = answer;
+
+  const isCitationAvailable = useCallback(
+    (marker: CitationMarker) =>
+      resolveCitationMarker(marker, citations, documentNames) !== -1,
+    [citations, documentNames]
+  );
+
+  const handleCitationClick = useCallback(
+    (marker: CitationMarker) => {
+      const index = resolveCitationMarker(marker, citations, documentNames);
+      if (index === -1) return;
+
+      citationsRef.current
+        ?.querySelector(`[data-citation-index="${index}"]`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+      setExpandedCitation(index);
+    },
+    [citations, documentNames]
+  );
+
+  return (
+    <div className="min-w-0 flex flex-col rounded-2xl bg-white border border-stone-200 shadow-sm">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-stone-100">
+        <span className="w-5 h-5 rounded-md bg-indigo-100 text-indigo-700 text-[11px] font-semibold flex items-center justify-center">
+          {label}
+        </span>
+        <FileText className="w-4 h-4 text-stone-400 flex-shrink-0" />
+        <span className="text-sm font-medium text-stone-700 truncate">
+          {documentNames?.[answer.documentId] ?? answer.documentId}
+        </span>
+      </div>
+
+      <div className="px-4 py-3 text-stone-700">
+        <PartBody
+          part={answer}
+          isCitationAvailable={isCitationAvailable}
+          onCitationClick={handleCitationClick}
+        />
+      </div>
+
+      {citations.length > 0 && (
+        <div ref={citationsRef} className="px-4 pb-4">
+          <p className="text-xs text-stone-400 uppercase tracking-wider mb-3">
+            {t("message.visualEvidence")}
+          </p>
+          <CitationGrid
+            citations={citations}
+            documentNames={documentNames}
+            pageCounts={pageCounts}
+            showHighlights={showHighlights}
+            onShowHighlightsChange={setShowHighlights}
+            expandedIndex={expandedCitation}
+            onExpandedIndexChange={setExpandedCitation}
+            question={question}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** One question answered by two documents, with their differences between */
+export function ComparisonView({ comparison, documentNames, pageCounts }: ComparisonViewProps) {
+  const { t, formatDate } = useI18n();
+  return (
+    <div className="space-y-3 animate-slide-up">
+      {/* Question */}
+      <div className="flex flex-col items-end">
+        <div className="inline-block max-w-xl rounded-2xl rounded-tr-md px-4 py-3 bg-gradient-to-r from-indigo-600 to-violet-600 text-white shadow-lg shadow-indigo-500/20">
+          <p className="whitespace-pre-wrap break-words text-[15px] leading-relaxed">
+            {comparison.query}
+          </p>
+        </div>
+        <span className="mt-1.5 text-[11px] text-stone-300">
+          {formatDate(comparison.timestamp)}
+        </span>
+      </div>
+
+      {/* Answers with the summary between them */}
+      <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,1fr)_16rem_minmax(0,1fr)] gap-4 items-start">
+        <AnswerPanel
+          answer={comparison.left}
+          label="A"
+          documentNames={documentNames}
+          pageCounts={pageCounts}
+          question={comparison.query}
+        />
+
+        <div className="min-w-0 rounded-2xl bg-gradient-to-br from-indigo-50 to-violet-50 border border-indigo-100 px-4 py-3 text-sm text-stone-700 xl:sticky xl:top-4">
+          <p className="flex items-center gap-1.5 mb-2 text-xs font-medium text-indigo-700">
+            <GitCompare className="w-3.5 h-3.5" />
+            {t("message.keyDifferences")}
+          </p>
+          <PartBody part={comparison.summary} />
+        </div>
+
+        <AnswerPanel
+          answer={comparison.right}
+          label="B"
+          documentNames={documentNames}
+          pageCounts={pageCounts}
+          question={comparison.query}
+        />
+      </div>
+    </div>
+  );
+}
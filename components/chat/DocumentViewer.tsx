@@ -0,0 +1,337 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef, type PointerEvent } from "react";
+import {
+  X,
+  ChevronLeft,
+  ChevronRight,
+  ZoomIn,
+  ZoomOut,
+  Maximize,
+  Highlighter,
+} from "lucide-react";
+import type { Citation } from "@/lib/types";
+import { getPageImageUrl } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { HighlightedPageImage } from "./HighlightedPageImage";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface DocumentViewerProps {
+  documentId: string;
+  documentName?: string;
+  /** Page count from the document list; unknown pages stop at the last cited one */
+  pageCount?: number;
+  initialPage: number;
+  /** Citations into this document, used for marking and inline page images */
+  citations: Citation[];
+  /** Highlight overlay visibility; kept locally when no change handler is given */
+  showHighlights?: boolean;
+  onShowHighlightsChange?: (show: boolean) => void;
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.25;
+
+export function DocumentViewer({
+  documentId,
+  documentName,
+  pageCount,
+  initialPage,
+  citations,
+  showHighlights: controlledShowHighlights,
+  onShowHighlightsChange,
+  onClose,
+}: DocumentViewerProps) {
+  const { t, formatNumber } = useI18n();
+  const [localShowHighlights, setLocalShowHighlights] = useState(
+    controlledShowHighlights ?? true
+  );
+  const showHighlights = onShowHighlightsChange
+    ? controlledShowHighlights ?? true
+    : localShowHighlights;
+  const toggleHighlights = () => {
+    setLocalShowHighlights(!showHighlights);
+    onShowHighlightsChange?.(!showHighlights);
+  };
+
+  const [page, setPage] = useState(initialPage);
+  const [pageInput, setPageInput] = useState(String(initialPage));
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const thumbnailStripRef = useRef<HTMLDivElement>(null);
+
+  const lastPage = Math.max(pageCount ?? 0, ...citations.map((c) => c.page), initialPage);
+  const citationByPage = new Map(citations.map((c) => [c.page, c]));
+  const current = citationByPage.get(page);
+  const hasHighlights = citations.some((c) => c.highlights?.length);
+  const spans = (current?.highlights ?? []).filter((h) => h.text);
+
+  // Cited pages are already in memory; others come from the page endpoint
+  const pageSrc = (n: number) => {
+    const cited = citationByPage.get(n);
+    return cited?.image_base64
+      ? `data:image/png;base64,${cited.image_base64}`
+      : getPageImageUrl(documentId, n);
+  };
+
+  const goToPage = useCallback(
+    (n: number) => {
+      const clamped = Math.min(Math.max(1, n), lastPage);
+      setPage(clamped);
+      setPageInput(String(clamped));
+      setOffset({ x: 0, y: 0 });
+    },
+    [lastPage]
+  );
+
+  const changeZoom = useCallback((delta: number) => {
+    setZoom((z) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, z + delta)));
+  }, []);
+
+  const resetView = useCallback(() => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+  }, []);
+
+  // Keyboard navigation
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowLeft") goToPage(page - 1);
+      else if (e.key === "ArrowRight") goToPage(page + 1);
+      else if (e.key === "+" || e.key === "=") changeZoom(ZOOM_STEP);
+      else if (e.key === "-") changeZoom(-ZOOM_STEP);
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [page, goToPage, changeZoom, onClose]);
+
+  // Keep the active thumbnail visible
+  useEffect(() => {
+    thumbnailStripRef.current
+      ?.querySelector(`[data-page="${page}"]`)
+      ?.scrollIntoView({ behavior: "smooth", inline: "center", block: "nearest" });
+  }, [page]);
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (zoom <= 1) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX - offset.x, y: e.clientY - offset.y };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+    setOffset({ x: e.clientX - dragRef.current.x, y: e.clientY - dragRef.current.y });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-stone-900/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="relative w-full max-w-5xl h-[90vh] bg-white rounded-2xl overflow-hidden shadow-2xl border border-stone-200 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 p-4 border-b border-stone-200">
+          <div className="min-w-0">
+            <h3 className="font-medium text-stone-800 truncate">
+              {documentName || documentId}
+            </h3>
+            <p className="text-sm text-stone-500">
+              {pageCount ? t("viewer.pageOf", { page, total: pageCount }) : t("common.page", { page })}
+              {current &&
+                ` · ${t("viewer.relevance", {
+                  score: formatNumber(current.score, { style: "percent", minimumFractionDigits: 1, maximumFractionDigits: 1 }),
+                })}`}
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {/* Page navigation */}
+            <button
+              onClick={() => goToPage(page - 1)}
+              disabled={page <= 1}
+              className="p-2 rounded-xl hover:bg-stone-100 text-stone-500 disabled:opacity-40"
+              title={t("viewer.previousPage")}
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                const n = parseInt(pageInput, 10);
+                if (!Number.isNaN(n)) goToPage(n);
+              }}
+            >
+              <input
+                value={pageInput}
+                onChange={(e) => setPageInput(e.target.value)}
+                onBlur={() => setPageInput(String(page))}
+                inputMode="numeric"
+                aria-label={t("viewer.goToPage")}
+                className="w-12 px-2 py-1.5 text-sm text-center rounded-lg border border-stone-200 focus:border-indigo-400 focus:outline-none"
+              />
+            </form>
+            <button
+              onClick={() => goToPage(page + 1)}
+              disabled={page >= lastPage}
+              className="p-2 rounded-xl hover:bg-stone-100 text-stone-500 disabled:opacity-40"
+              title={t("viewer.nextPage")}
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+
+            <div className="w-px h-6 bg-stone-200 mx-1" />
+
+            {/* Zoom */}
+            <button
+              onClick={() => changeZoom(-ZOOM_STEP)}
+              disabled={zoom <= MIN_ZOOM}
+              className="p-2 rounded-xl hover:bg-stone-100 text-stone-500 disabled:opacity-40"
+              title={t("viewer.zoomOut")}
+            >
+              <ZoomOut className="w-5 h-5" />
+            </button>
+            <span className="w-12 text-center text-xs text-stone-500">
+              {Math.round(zoom * 100)}%
+            </span>
+            <button
+              onClick={() => changeZoom(ZOOM_STEP)}
+              disabled={zoom >= MAX_ZOOM}
+              className="p-2 rounded-xl hover:bg-stone-100 text-stone-500 disabled:opacity-40"
+              title={t("viewer.zoomIn")}
+            >
+              <ZoomIn className="w-5 h-5" />
+            </button>
+            <button
+              onClick={resetView}
+              className="p-2 rounded-xl hover:bg-stone-100 text-stone-500"
+              title={t("viewer.resetView")}
+            >
+              <Maximize className="w-5 h-5" />
+            </button>
+
+            {hasHighlights && (
+              <button
+                onClick={toggleHighlights}
+                className={cn(
+                  "p-2 rounded-xl transition-colors",
+                  showHighlights
+                    ? "bg-amber-50 text-amber-600 hover:bg-amber-100"
+                    : "text-stone-500 hover:bg-stone-100"
+                )}
+                title={showHighlights ? t("viewer.hideHighlights") : t("viewer.showHighlights")}
+              >
+                <Highlighter className="w-5 h-5" />
+              </button>
+            )}
+
+            <div className="w-px h-6 bg-stone-200 mx-1" />
+
+            <button
+              onClick={onClose}
+              className="p-2 rounded-xl hover:bg-stone-100 text-stone-400 hover:text-stone-600 transition-colors"
+              title={t("viewer.close")}
+              aria-label={t("viewer.close")}
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Page */}
+        <div
+          className={cn(
+            "flex-1 overflow-hidden bg-stone-50 flex items-center justify-center select-none",
+            zoom > 1 ? "cursor-grab active:cursor-grabbing" : "cursor-default"
+          )}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onWheel={(e) => {
+            if (e.ctrlKey || e.metaKey) changeZoom(e.deltaY < 0 ? ZOOM_STEP : -ZOOM_STEP);
+          }}
+        >
+          <HighlightedPageImage
+            key={page}
+            src={pageSrc(page)}
+            alt={t("common.page", { page })}
+            highlights={current?.highlights}
+            showHighlights={showHighlights}
+            className="w-full h-full transition-transform duration-75"
+            style={{
+              transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`,
+            }}
+          />
+        </div>
+
+        {/* Supporting text */}
+        {showHighlights && spans.length > 0 && (
+          <div className="px-4 py-2 border-t border-stone-200 bg-amber-50/50 max-h-24 overflow-y-auto space-y-1">
+            {spans.map((span, index) => (
+              <p key={index} className="text-xs text-stone-600 leading-relaxed">
+                <span className="text-amber-600">“</span>
+                {span.text}
+                <span className="text-amber-600">”</span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        {/* Thumbnail strip; fixed-size, lazily loaded so long documents only fetch visible pages */}
+        <div
+          ref={thumbnailStripRef}
+          className="flex gap-2 p-3 border-t border-stone-200 overflow-x-auto bg-white"
+        >
+          {Array.from({ length: lastPage }, (_, i) => i + 1).map((n) => {
+            const isCited = citationByPage.has(n);
+            return (
+              <button
+                key={n}
+                data-page={n}
+                onClick={() => goToPage(n)}
+                className={cn(
+                  "relative flex-shrink-0 w-14 rounded-lg overflow-hidden border-2 transition-all",
+                  n === page
+                    ? "border-indigo-500 shadow-md"
+                    : isCited
+                      ? "border-indigo-200 hover:border-indigo-400"
+                      : "border-stone-200 hover:border-stone-300"
+                )}
+                title={isCited ? t("viewer.citedPage", { page: n }) : t("common.page", { page: n })}
+              >
+                <HighlightedPageImage
+                  src={pageSrc(n)}
+                  alt={t("common.page", { page: n })}
+                  highlights={citationByPage.get(n)?.highlights}
+                  showHighlights={showHighlights}
+                  loading="lazy"
+                  className="w-full aspect-[3/4] bg-stone-100"
+                />
+                <span
+                  className={cn(
+                    "absolute bottom-0 inset-x-0 text-[10px] font-medium text-center",
+                    isCited ? "bg-indigo-600 text-white" : "bg-white/90 text-stone-500"
+                  )}
+                >
+                  {n}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Download, Loader2 } from "lucide-react";
+import type { MemoFormat } from "@/lib/memoExport";
+import type { MessageKey } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface ExportMenuProps {
+  onExport: (format: MemoFormat) => Promise<void>;
+  label?: string;
+  disabled?: boolean;
+  /** Small inline variant for message action rows */
+  compact?: boolean;
+  className?: string;
+}
+
+const FORMATS: { format: MemoFormat; label: MessageKey; hint: string }[] = [
+  { format: "docx", label: "export.docx", hint: ".docx" },
+  { format: "pdf", label: "export.pdf", hint: ".pdf" },
+  { format: "markdown", label: "export.markdown", hint: ".md" },
+];
+
+export function ExportMenu({
+  onExport,
+  label,
+  disabled,
+  compact,
+  className,
+}: ExportMenuProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyFormat, setBusyFormat] = useState<MemoFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: MemoFormat) => {
+    setBusyFormat(format);
+    setError(null);
+    try {
+      await onExport(format);
+      setIsOpen(false);
+    } catch (err) {
+      console.error("Memo export failed:", err);
+      setError(t("export.failed"));
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={cn("relative inline-block", className)}>
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled || busyFormat !== null}
+        className={cn(
+          "inline-flex items-center gap-1 transition-colors disabled:opacity-50",
+          compact
+            ? "text-stone-400 hover:text-indigo-600"
+            : "px-3 py-1.5 rounded-lg text-xs font-medium text-stone-600 bg-white border border-stone-200 hover:border-indigo-200 hover:text-indigo-600"
+        )}
+        title={t("export.title")}
+      >
+        {busyFormat ? (
+          <Loader2 className={cn("animate-spin", compact ? "w-3 h-3" : "w-3.5 h-3.5")} />
+        ) : (
+          <Download className={compact ? "w-3 h-3" : "w-3.5 h-3.5"} />
+        )}
+        {label ?? t("export.memo")}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-1 w-48 py-1 rounded-xl bg-white border border-stone-200 shadow-lg animate-fade-in">
+          {FORMATS.map((item) => (
+            <button
+              key={item.format}
+              onClick={() => handleExport(item.format)}
+              disabled={busyFormat !== null}
+              className="w-full flex items-center justify-between px-3 py-2 text-xs text-stone-600 hover:bg-indigo-50/50 hover:text-indigo-700 disabled:opacity-50"
+            >
+              {t(item.label)}
+              <span className="text-stone-400">
+                {busyFormat === item.format ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : (
+                  item.hint
+                )}
+              </span>
+            </button>
+          ))}
+          {error && <p className="px-3 py-1.5 text-[11px] text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
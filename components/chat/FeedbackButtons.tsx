@@ -0,0 +1,118 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { ThumbsUp, ThumbsDown } from "lucide-react";
+import type { AnswerRating, FeedbackReason, FeedbackRecord } from "@/lib/types";
+import { FEEDBACK_REASONS } from "@/lib/feedback";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface FeedbackButtonsProps {
+  labels?: FeedbackRecord["labels"];
+  /** Null clears the rating */
+  onRate: (rating: AnswerRating | null, reason?: FeedbackReason | null, comment?: string) => void;
+}
+
+/** Thumbs up/down for an answer; thumbs down asks for a reason */
+export function FeedbackButtons({ labels, onRate }: FeedbackButtonsProps) {
+  const { t } = useI18n();
+  const rating = labels?.rating ?? null;
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState<FeedbackReason | null>(null);
+  const [comment, setComment] = useState("");
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleThumbsDown = () => {
+    if (rating === "down") {
+      onRate(null);
+      return;
+    }
+    setReason(labels?.reason ?? null);
+    setComment(labels?.comment ?? "");
+    setIsOpen(true);
+  };
+
+  const buttonClassName = "p-0.5 rounded transition-colors";
+
+  return (
+    <div ref={containerRef} className="relative inline-flex items-center gap-0.5">
+      <button
+        onClick={() => onRate(rating === "up" ? null : "up")}
+        className={cn(
+          buttonClassName,
+          rating === "up" ? "text-emerald-600" : "text-stone-400 hover:text-emerald-600"
+        )}
+        title={rating === "up" ? t("feedback.clear") : t("feedback.helpful")}
+      >
+        <ThumbsUp className={cn("w-3 h-3", rating === "up" && "fill-current")} />
+      </button>
+      <button
+        onClick={handleThumbsDown}
+        className={cn(
+          buttonClassName,
+          rating === "down" ? "text-red-500" : "text-stone-400 hover:text-red-500"
+        )}
+        title={rating === "down" ? t("feedback.clear") : t("feedback.notHelpful")}
+      >
+        <ThumbsDown className={cn("w-3 h-3", rating === "down" && "fill-current")} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-72 p-3 rounded-xl bg-white border border-stone-200 shadow-xl z-30 text-left animate-fade-in">
+          <p className="text-xs font-medium text-stone-700 mb-2">{t("feedback.reasonTitle")}</p>
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {FEEDBACK_REASONS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setReason(option)}
+                className={cn(
+                  "px-2 py-1 rounded-lg border text-[11px] transition-colors",
+                  reason === option
+                    ? "border-red-200 bg-red-50 text-red-700"
+                    : "border-stone-200 text-stone-600 hover:bg-stone-50"
+                )}
+              >
+                {t(`feedback.reason.${option}`)}
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={t("feedback.commentPlaceholder")}
+            rows={2}
+            className="w-full px-2 py-1.5 rounded-lg border border-stone-200 text-xs text-stone-700 placeholder:text-stone-400 resize-none focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-300"
+          />
+          <div className="mt-2 flex justify-end gap-2">
+            <button
+              onClick={() => setIsOpen(false)}
+              className="px-3 py-1.5 text-xs font-medium text-stone-500 hover:bg-stone-100 rounded-lg transition-colors"
+            >
+              {t("common.cancel")}
+            </button>
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                onRate("down", reason, comment);
+              }}
+              disabled={!reason}
+              className="px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors shadow-sm disabled:opacity-50"
+            >
+              {t("feedback.send")}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
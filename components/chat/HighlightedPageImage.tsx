@@ -0,0 +1,74 @@
+"use client";
+
+import { useState, type CSSProperties } from "react";
+import type { CitationHighlight } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface HighlightedPageImageProps {
+  src: string;
+  alt: string;
+  highlights?: CitationHighlight[];
+  showHighlights?: boolean;
+  /** "lazy" defers loading until the image nears the viewport; give the container a fixed size */
+  loading?: "lazy" | "eager";
+  className?: string;
+  style?: CSSProperties;
+}
+
+/**
+ * Page image with highlight boxes drawn over it.
+ * The image and overlay both fit the container with "contain" scaling,
+ * so boxes in page-relative coordinates line up at any size.
+ */
+export function HighlightedPageImage({
+  src,
+  alt,
+  highlights = [],
+  showHighlights = true,
+  loading,
+  className,
+  style,
+}: HighlightedPageImageProps) {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const boxes = highlights.filter((h) => h.bbox);
+
+  return (
+    <div className={cn("relative", className)} style={style}>
+      <img
+        src={src}
+        alt={alt}
+        loading={loading}
+        draggable={false}
+        onLoad={(e) =>
+          setSize({
+            width: e.currentTarget.naturalWidth,
+            height: e.currentTarget.naturalHeight,
+          })
+        }
+        className="w-full h-full object-contain"
+      />
+      {showHighlights && size && boxes.length > 0 && (
+        <svg
+          viewBox={`0 0 ${size.width} ${size.height}`}
+          preserveAspectRatio="xMidYMid meet"
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        >
+          {boxes.map(({ bbox, text }, index) => (
+            <rect
+              key={index}
+              x={bbox!.x * size.width}
+              y={bbox!.y * size.height}
+              width={bbox!.width * size.width}
+              height={bbox!.height * size.height}
+              rx={4}
+              className="fill-amber-300/30 stroke-amber-500"
+              strokeWidth={Math.max(2, size.width / 400)}
+            >
+              {text && <title>{text}</title>}
+            </rect>
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useMemo, type ReactNode } from "react";
+import { FileText } from "lucide-react";
+import { parseBlocks, type BlockNode, type CitationMarker, type InlineNode } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface MarkdownContentProps {
+  content: string;
+  /** Returns whether a marker matches one of the message's citations */
+  isCitationAvailable?: (marker: CitationMarker) => boolean;
+  onCitationClick?: (marker: CitationMarker) => void;
+}
+
+const HEADING_STYLES: Record<number, string> = {
+  1: "text-lg font-semibold",
+  2: "text-base font-semibold",
+  3: "text-[15px] font-semibold",
+};
+
+export function MarkdownContent({
+  content,
+  isCitationAvailable,
+  onCitationClick,
+}: MarkdownContentProps) {
+  const { t } = useI18n();
+  const blocks = useMemo(() => parseBlocks(content), [content]);
+
+  const renderInline = (nodes: InlineNode[]): ReactNode[] =>
+    nodes.map((node, index) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "strong":
+          return (
+            <strong key={index} className="font-semibold text-stone-800">
+              {renderInline(node.children)}
+            </strong>
+          );
+        case "emphasis":
+          return <em key={index}>{renderInline(node.children)}</em>;
+        case "code":
+          return (
+            <code key={index} className="px-1 py-0.5 rounded bg-stone-100 font-mono text-[13px]">
+              {node.value}
+            </code>
+          );
+        case "link":
+          return (
+            <a
+              key={index}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-indigo-600 underline underline-offset-2 hover:text-indigo-700"
+            >
+              {renderInline(node.children)}
+            </a>
+          );
+        case "break":
+          return <br key={index} />;
+        case "citation": {
+          const available = isCitationAvailable?.(node.marker) ?? false;
+          return (
+            <button
+              key={index}
+              type="button"
+              disabled={!available}
+              onClick={() => onCitationClick?.(node.marker)}
+              title={available ? t("message.showCitedPage") : t("message.citedPageMissing")}
+              className={cn(
+                "inline-flex items-center gap-1 mx-0.5 px-1.5 py-px rounded-md align-baseline",
+                "text-[11px] font-medium border transition-colors",
+                available
+                  ? "bg-indigo-50 border-indigo-200 text-indigo-700 hover:bg-indigo-100"
+                  : "bg-stone-50 border-stone-200 text-stone-400 cursor-default"
+              )}
+            >
+              <FileText className="w-3 h-3" />
+              p.{node.marker.page}
+            </button>
+          );
+        }
+      }
+    });
+
+  const renderBlocks = (nodes: BlockNode[]): ReactNode[] =>
+    nodes.map((node, index) => {
+      switch (node.type) {
+        case "heading":
+          return (
+            <p key={index} className={cn("text-stone-800", HEADING_STYLES[node.level] ?? "font-semibold")}>
+              {renderInline(node.children)}
+            </p>
+          );
+        case "paragraph":
+          return <p key={index}>{renderInline(node.children)}</p>;
+        case "list": {
+          const items = node.items.map((item, itemIndex) => (
+            <li key={itemIndex} className="space-y-2">
+              {renderBlocks(item)}
+            </li>
+          ));
+          return node.ordered ? (
+            <ol key={index} start={node.start} className="list-decimal pl-5 space-y-1">
+              {items}
+            </ol>
+          ) : (
+            <ul key={index} className="list-disc pl-5 space-y-1">
+              {items}
+            </ul>
+          );
+        }
+        case "blockquote":
+          return (
+            <blockquote key={index} className="pl-3 border-l-2 border-indigo-200 text-stone-500 space-y-2">
+              {renderBlocks(node.children)}
+            </blockquote>
+          );
+        case "code":
+          return (
+            <pre key={index} className="p-3 rounded-lg bg-stone-50 border border-stone-200 overflow-x-auto text-[13px]">
+              <code className="font-mono">{node.value}</code>
+            </pre>
+          );
+        case "rule":
+          return <hr key={index} className="border-stone-200" />;
+      }
+    });
+
+  return (
+    <div className="break-words text-[15px] leading-relaxed space-y-3">
+      {renderBlocks(blocks)}
+    </div>
+  );
+}
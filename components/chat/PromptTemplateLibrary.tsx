@@ -0,0 +1,319 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { X, Plus, Upload, Download, Copy, Trash2, Braces } from "lucide-react";
+import type { PromptTemplate, PromptTemplateData } from "@/lib/types";
+import { groupTemplates, serializeTemplates, templatePlaceholders } from "@/lib/promptTemplates";
+import { downloadBlob } from "@/lib/memoExport";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/Button";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface PromptTemplateLibraryProps {
+  /** Built-in and user templates */
+  templates: PromptTemplate[];
+  onSave: (data: PromptTemplateData, id?: string) => Promise<PromptTemplate | null>;
+  onDelete: (id: string) => Promise<void>;
+  onImport: (json: string) => Promise<number>;
+  onClose: () => void;
+}
+
+const EMPTY_DRAFT: PromptTemplateData = { title: "", category: "", text: "" };
+
+/** Modal for creating, editing, importing and exporting prompt templates */
+export function PromptTemplateLibrary({
+  templates,
+  onSave,
+  onDelete,
+  onImport,
+  onClose,
+}: PromptTemplateLibraryProps) {
+  const { t, tn } = useI18n();
+  // null: nothing selected; "" : a new, unsaved template
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PromptTemplateData>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const userTemplates = templates.filter((template) => !template.builtIn);
+  const categories = Array.from(new Set(userTemplates.map((template) => template.category))).filter(Boolean);
+  const editing = templates.find((template) => template.id === editingId);
+  const placeholders = templatePlaceholders(draft.text);
+  const isDirty =
+    editingId === "" ||
+    (editing !== undefined &&
+      (editing.title !== draft.title || editing.category !== draft.category || editing.text !== draft.text));
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onClose]);
+
+  const startEditing = (template: PromptTemplate | null) => {
+    setEditingId(template?.id ?? "");
+    setDraft(template ? { title: template.title, category: template.category, text: template.text } : EMPTY_DRAFT);
+    setNotice(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await onSave(draft, editingId || undefined);
+    setIsSaving(false);
+    if (saved) startEditing(saved);
+  };
+
+  const handleDuplicate = async (template: PromptTemplate) => {
+    const copy = await onSave({
+      title: t("templates.copyTitle", { title: template.title }),
+      category: template.category,
+      text: template.text,
+    });
+    if (copy) startEditing(copy);
+  };
+
+  const handleDelete = async (id: string) => {
+    await onDelete(id);
+    if (editingId === id) {
+      setEditingId(null);
+      setDraft(EMPTY_DRAFT);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const added = await onImport(await file.text());
+      setNotice({
+        text: added > 0 ? tn("templates.imported", added) : t("templates.importNone"),
+        isError: false,
+      });
+    } catch (err) {
+      console.error("Template import failed:", err);
+      setNotice({
+        text: t("templates.importFailed", { error: err instanceof Error ? err.message : t("common.unknown") }),
+        isError: true,
+      });
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(
+      new Blob([serializeTemplates(templates)], { type: "application/json" }),
+      "prompt-templates.json"
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-stone-900/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="template-library-title"
+        className="w-full max-w-4xl h-[80vh] flex flex-col bg-white rounded-2xl shadow-2xl border border-stone-200 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-stone-200">
+          <h3 id="template-library-title" className="font-semibold text-stone-800">
+            {t("templates.libraryTitle")}
+          </h3>
+          <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-stone-600 bg-white border border-stone-200 hover:border-indigo-200 hover:text-indigo-600 transition-colors"
+            >
+              <Upload className="w-3.5 h-3.5" />
+              {t("templates.import")}
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={userTemplates.length === 0}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-stone-600 bg-white border border-stone-200 hover:border-indigo-200 hover:text-indigo-600 transition-colors disabled:opacity-50"
+            >
+              <Download className="w-3.5 h-3.5" />
+              {t("templates.export")}
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-xl hover:bg-stone-100 text-stone-400 hover:text-stone-600 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {notice && (
+          <p
+            className={cn(
+              "px-6 py-2 text-xs border-b",
+              notice.isError
+                ? "bg-red-50 border-red-100 text-red-700"
+                : "bg-emerald-50 border-emerald-100 text-emerald-700"
+            )}
+          >
+            {notice.text}
+          </p>
+        )}
+
+        <div className="flex-1 flex min-h-0">
+          {/* Template list */}
+          <div className="w-72 flex-shrink-0 border-r border-stone-200 flex flex-col">
+            <div className="p-3">
+              <button
+                onClick={() => startEditing(null)}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-xl text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                {t("templates.new")}
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto px-3 pb-3 space-y-3">
+              {userTemplates.length === 0 && (
+                <p className="px-1 text-xs text-stone-400">{t("templates.empty")}</p>
+              )}
+              {groupTemplates(templates).map(([category, group]) => (
+                <div key={category}>
+                  <p className="px-1 pb-1 text-[10px] font-medium text-stone-400 uppercase tracking-wider">
+                    {category || t("templates.uncategorized")}
+                  </p>
+                  {group.map((template) => (
+                    <div key={template.id} className="group flex items-center gap-1">
+                      <button
+                        onClick={() => startEditing(template)}
+                        className={cn(
+                          "flex-1 min-w-0 px-2.5 py-2 rounded-lg text-left text-sm transition-colors",
+                          editingId === template.id
+                            ? "bg-indigo-50 text-indigo-700 font-medium"
+                            : "text-stone-600 hover:bg-stone-50"
+                        )}
+                      >
+                        <span className="block truncate">{template.title}</span>
+                        {template.builtIn && (
+                          <span className="text-[10px] text-stone-400 font-normal">{t("templates.builtIn")}</span>
+                        )}
+                      </button>
+                      <button
+                        onClick={() => handleDuplicate(template)}
+                        className="p-1.5 rounded-lg text-stone-300 hover:text-indigo-600 hover:bg-indigo-50 opacity-0 group-hover:opacity-100 transition-all"
+                        title={t("templates.duplicate")}
+                      >
+                        <Copy className="w-3.5 h-3.5" />
+                      </button>
+                      {!template.builtIn && (
+                        <button
+                          onClick={() => handleDelete(template.id)}
+                          className="p-1.5 rounded-lg text-stone-300 hover:text-red-500 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-all"
+                          title={t("common.delete")}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 min-w-0 overflow-y-auto p-6">
+            {editingId === null ? (
+              <p className="text-sm text-stone-400">{t("templates.selectHint")}</p>
+            ) : (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleSave();
+                }}
+                className="space-y-4"
+              >
+                <fieldset disabled={editing?.builtIn} className="space-y-4">
+                  <label className="block">
+                    <span className="text-xs font-medium text-stone-600">{t("templates.titleLabel")}</span>
+                    <input
+                      autoFocus
+                      value={draft.title}
+                      onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                      placeholder={t("templates.titlePlaceholder")}
+                      className="mt-1 w-full px-3 py-2 text-sm rounded-xl border border-stone-200 focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100 focus:outline-none disabled:bg-stone-50"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-xs font-medium text-stone-600">{t("templates.categoryLabel")}</span>
+                    <input
+                      value={draft.category}
+                      onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                      placeholder={t("templates.categoryPlaceholder")}
+                      list="template-categories"
+                      className="mt-1 w-full px-3 py-2 text-sm rounded-xl border border-stone-200 focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100 focus:outline-none disabled:bg-stone-50"
+                    />
+                    <datalist id="template-categories">
+                      {categories.map((category) => (
+                        <option key={category} value={category} />
+                      ))}
+                    </datalist>
+                  </label>
+                  <label className="block">
+                    <span className="text-xs font-medium text-stone-600">{t("templates.textLabel")}</span>
+                    <textarea
+                      value={draft.text}
+                      onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                      placeholder={t("templates.textPlaceholder")}
+                      rows={5}
+                      className="mt-1 w-full resize-none px-3 py-2 text-sm rounded-xl border border-stone-200 focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100 focus:outline-none disabled:bg-stone-50"
+                    />
+                  </label>
+                </fieldset>
+
+                <div className="flex flex-wrap items-center gap-1.5 text-[11px] text-stone-400">
+                  <Braces className="w-3.5 h-3.5" />
+                  {placeholders.length > 0 ? (
+                    <>
+                      {tn("templates.fields", placeholders.length)}:
+                      {placeholders.map((name) => (
+                        <span key={name} className="px-1.5 py-0.5 rounded-md bg-indigo-50 text-indigo-700">
+                          {name}
+                        </span>
+                      ))}
+                    </>
+                  ) : (
+                    t("templates.placeholderHint")
+                  )}
+                </div>
+
+                {!editing?.builtIn && (
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      type="submit"
+                      disabled={!isDirty || !draft.title.trim() || !draft.text.trim()}
+                      isLoading={isSaving}
+                    >
+                      {t("common.save")}
+                    </Button>
+                  </div>
+                )}
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { BookMarked, Braces, Settings2 } from "lucide-react";
+import type { PromptTemplate } from "@/lib/types";
+import { groupTemplates, templatePlaceholders } from "@/lib/promptTemplates";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface PromptTemplateMenuProps {
+  templates: PromptTemplate[];
+  onSelect: (template: PromptTemplate) => void;
+  onManage?: () => void;
+  disabled?: boolean;
+}
+
+/** Input toolbar button listing templates by category */
+export function PromptTemplateMenu({ templates, onSelect, onManage, disabled }: PromptTemplateMenuProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={cn(
+          "p-2.5 rounded-xl transition-all duration-200",
+          "text-stone-400 hover:text-indigo-600 hover:bg-indigo-50",
+          "disabled:opacity-50 disabled:cursor-not-allowed",
+          isOpen && "text-indigo-600 bg-indigo-50"
+        )}
+        title={t("templates.menu")}
+      >
+        <BookMarked className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 bottom-full mb-2 w-80 max-h-96 flex flex-col rounded-xl bg-white border border-stone-200 shadow-xl z-30 animate-fade-in">
+          <div className="flex-1 overflow-y-auto py-2">
+            {groupTemplates(templates).map(([category, group]) => (
+              <div key={category}>
+                <p className="px-3 pt-2 pb-1 text-[10px] font-medium text-stone-400 uppercase tracking-wider">
+                  {category || t("templates.uncategorized")}
+                </p>
+                {group.map((template) => (
+                  <button
+                    key={template.id}
+                    onClick={() => {
+                      setIsOpen(false);
+                      onSelect(template);
+                    }}
+                    className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm text-stone-600 hover:bg-indigo-50/50 hover:text-indigo-700 transition-colors"
+                    title={template.text}
+                  >
+                    <span className="flex-1 min-w-0 truncate">{template.title}</span>
+                    {templatePlaceholders(template.text).length > 0 && (
+                      <Braces className="w-3.5 h-3.5 text-stone-300 flex-shrink-0" />
+                    )}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+          {onManage && (
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                onManage();
+              }}
+              className="flex items-center gap-2 px-3 py-2 border-t border-stone-100 text-xs font-medium text-indigo-600 hover:bg-indigo-50 transition-colors rounded-b-xl"
+            >
+              <Settings2 className="w-3.5 h-3.5" />
+              {t("templates.manage")}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
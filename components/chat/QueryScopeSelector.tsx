@@ -0,0 +1,226 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { ChevronDown, Check, Layers, X, Save } from "lucide-react";
+import type { DocumentInfo, DocumentSet } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface QueryScopeSelectorProps {
+  documents: DocumentInfo[];
+  /** Selected document ids; empty means all documents */
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  documentSets: DocumentSet[];
+  onCreateSet: (name: string, documentIds: string[]) => void;
+  onDeleteSet: (id: string) => void;
+}
+
+function sameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+export function QueryScopeSelector({
+  documents,
+  selectedIds,
+  onChange,
+  documentSets,
+  onCreateSet,
+  onDeleteSet,
+}: QueryScopeSelectorProps) {
+  const { t, tn } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [setName, setSetName] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Sets can reference documents that have since been deleted
+  const indexedIds = (ids: string[]) => ids.filter((id) => documents.some((d) => d.id === id));
+  const activeSet = documentSets.find(
+    (set) => selectedIds.length > 0 && sameIds(indexedIds(set.documentIds), selectedIds)
+  );
+
+  const label =
+    selectedIds.length === 0
+      ? t("scope.all")
+      : activeSet
+        ? activeSet.name
+        : selectedIds.length === 1
+          ? documents.find((d) => d.id === selectedIds[0])?.filename || t("common.unknown")
+          : tn("common.documents", selectedIds.length);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+        setSetName(null);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const choose = (ids: string[]) => {
+    onChange(ids);
+    setIsOpen(false);
+    setSetName(null);
+  };
+
+  const toggleDocument = (id: string) => {
+    onChange(
+      selectedIds.includes(id) ? selectedIds.filter((d) => d !== id) : [...selectedIds, id]
+    );
+  };
+
+  const handleSaveSet = () => {
+    if (!setName?.trim()) return;
+    onCreateSet(setName, selectedIds);
+    setSetName(null);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn(
+          "w-full flex items-center justify-between gap-2 px-3 py-2.5 rounded-xl text-left transition-all",
+          "bg-white border border-stone-200 hover:border-stone-300 shadow-sm",
+          isOpen && "border-indigo-400 ring-2 ring-indigo-100"
+        )}
+      >
+        <span className="flex items-center gap-1.5 min-w-0 text-sm text-stone-600">
+          {activeSet && <Layers className="w-3.5 h-3.5 text-indigo-500 flex-shrink-0" />}
+          <span className="truncate">{label}</span>
+        </span>
+        <ChevronDown className={cn(
+          "w-4 h-4 text-stone-400 transition-transform flex-shrink-0",
+          isOpen && "rotate-180"
+        )} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 right-0 mt-2 p-2 rounded-xl bg-white border border-stone-200 shadow-xl z-10 max-h-96 overflow-y-auto">
+          <button
+            onClick={() => choose([])}
+            className={cn(
+              "w-full px-3 py-2 rounded-lg text-left text-sm transition-colors",
+              selectedIds.length === 0 ? "bg-indigo-50 text-indigo-700 font-medium" : "text-stone-600 hover:bg-stone-50"
+            )}
+          >
+            {t("scope.all")}
+          </button>
+
+          {/* Saved sets */}
+          {documentSets.length > 0 && (
+            <>
+              <p className="px-3 pt-3 pb-1 text-[10px] font-medium text-stone-400 uppercase tracking-wider">
+                {t("scope.savedSets")}
+              </p>
+              {documentSets.map((set) => {
+                const available = indexedIds(set.documentIds);
+                return (
+                  <div key={set.id} className="group flex items-center gap-1">
+                    <button
+                      onClick={() => choose(available)}
+                      disabled={available.length === 0}
+                      className={cn(
+                        "flex-1 min-w-0 flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-colors disabled:opacity-50",
+                        activeSet?.id === set.id ? "bg-indigo-50 text-indigo-700 font-medium" : "text-stone-600 hover:bg-stone-50"
+                      )}
+                      title={
+                        available.length < set.documentIds.length
+                          ? t("scope.missingDocuments", { count: set.documentIds.length - available.length })
+                          : undefined
+                      }
+                    >
+                      <Layers className="w-3.5 h-3.5 flex-shrink-0" />
+                      <span className="truncate">{set.name}</span>
+                      <span className="ml-auto text-[10px] text-stone-400">{available.length}</span>
+                    </button>
+                    <button
+                      onClick={() => onDeleteSet(set.id)}
+                      className="p-1.5 rounded-lg text-stone-300 hover:text-red-500 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-all"
+                      title={t("scope.deleteSet")}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                );
+              })}
+            </>
+          )}
+
+          {/* Individual documents */}
+          {documents.length > 0 && (
+            <p className="px-3 pt-3 pb-1 text-[10px] font-medium text-stone-400 uppercase tracking-wider">
+              {t("scope.documents")}
+            </p>
+          )}
+          {documents.map((doc) => {
+            const isSelected = selectedIds.includes(doc.id);
+            return (
+              <button
+                key={doc.id}
+                onClick={() => toggleDocument(doc.id)}
+                className={cn(
+                  "w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-colors",
+                  isSelected ? "text-indigo-700" : "text-stone-600 hover:bg-stone-50"
+                )}
+              >
+                <span
+                  className={cn(
+                    "w-4 h-4 rounded border flex items-center justify-center flex-shrink-0",
+                    isSelected ? "bg-indigo-600 border-indigo-600 text-white" : "border-stone-300"
+                  )}
+                >
+                  {isSelected && <Check className="w-3 h-3" />}
+                </span>
+                <span className="truncate">{doc.filename}</span>
+              </button>
+            );
+          })}
+
+          {/* Save selection */}
+          {selectedIds.length > 1 && !activeSet && (
+            <div className="mt-2 pt-2 border-t border-stone-100">
+              {setName === null ? (
+                <button
+                  onClick={() => setSetName("")}
+                  className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-xs font-medium text-indigo-600 hover:bg-indigo-50 transition-colors"
+                >
+                  <Save className="w-3.5 h-3.5" />
+                  {t("scope.saveSelection")}
+                </button>
+              ) : (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleSaveSet();
+                  }}
+                  className="flex items-center gap-1.5 px-1"
+                >
+                  <input
+                    autoFocus
+                    value={setName}
+                    onChange={(e) => setSetName(e.target.value)}
+                    onKeyDown={(e) => e.key === "Escape" && setSetName(null)}
+                    placeholder={t("scope.setPlaceholder")}
+                    className="flex-1 min-w-0 px-2 py-1.5 text-xs rounded-lg border border-stone-200 focus:border-indigo-400 focus:outline-none"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!setName.trim()}
+                    className="px-2.5 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {t("common.save")}
+                  </button>
+                </form>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
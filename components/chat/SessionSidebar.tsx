@@ -0,0 +1,149 @@
+"use client";
+
+import { useState, type KeyboardEvent } from "react";
+import { MessageSquare, Plus, Pencil, Trash2 } from "lucide-react";
+import type { ChatSessionSummary } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface SessionSidebarProps {
+  sessions: ChatSessionSummary[];
+  activeSessionId: string | null;
+  onNew: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function SessionSidebar({
+  sessions,
+  activeSessionId,
+  onNew,
+  onOpen,
+  onRename,
+  onDelete,
+}: SessionSidebarProps) {
+  const { t, tn, formatDate } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const startEditing = (session: ChatSessionSummary) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId) {
+      onRename(editingId, draftTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      commitEditing();
+    } else if (e.key === "Escape") {
+      setEditingId(null);
+    }
+  };
+
+  return (
+    <aside className="w-64 border-r border-stone-200/80 bg-stone-50/50 flex flex-col flex-shrink-0">
+      <div className="p-4 border-b border-stone-200/80">
+        <button
+          onClick={onNew}
+          className={cn(
+            "w-full flex items-center justify-center gap-2 px-3 py-2.5 rounded-xl text-sm font-medium transition-all",
+            "bg-white border border-stone-200 text-stone-600 shadow-sm",
+            "hover:border-indigo-200 hover:bg-indigo-50/50 hover:text-indigo-700"
+          )}
+        >
+          <Plus className="w-4 h-4" />
+          {t("sessions.new")}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        <label className="block text-[10px] font-medium text-stone-400 uppercase tracking-wider mb-3">
+          {t("sessions.title", { count: sessions.length })}
+        </label>
+
+        {sessions.length === 0 ? (
+          <div className="text-center py-8">
+            <div className="w-12 h-12 mx-auto mb-3 rounded-xl bg-stone-100 flex items-center justify-center">
+              <MessageSquare className="w-6 h-6 text-stone-300" />
+            </div>
+            <p className="text-xs text-stone-400">{t("sessions.empty")}</p>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {sessions.map((session) => (
+              <div
+                key={session.id}
+                onClick={() => editingId !== session.id && onOpen(session.id)}
+                className={cn(
+                  "group px-3 py-2.5 rounded-xl cursor-pointer transition-all",
+                  session.id === activeSessionId
+                    ? "bg-indigo-50 border border-indigo-200"
+                    : "border border-transparent hover:bg-white hover:border-stone-200"
+                )}
+              >
+                {editingId === session.id ? (
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onBlur={commitEditing}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-full px-2 py-1 text-sm rounded-lg border border-indigo-300 bg-white text-stone-700 focus:outline-none"
+                  />
+                ) : (
+                  <div className="flex items-start gap-2">
+                    <div className="min-w-0 flex-1">
+                      <p
+                        className={cn(
+                          "text-sm truncate",
+                          session.id === activeSessionId
+                            ? "text-indigo-700 font-medium"
+                            : "text-stone-700"
+                        )}
+                      >
+                        {session.title}
+                      </p>
+                      <p className="text-[10px] text-stone-400 mt-0.5">
+                        {formatDate(session.updatedAt)} · {tn("sessions.messages", session.messageCount)}
+                      </p>
+                    </div>
+                    <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          startEditing(session);
+                        }}
+                        className="p-1 rounded-lg text-stone-300 hover:text-stone-600 hover:bg-stone-100"
+                        title={t("sessions.rename")}
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDelete(session.id);
+                        }}
+                        className="p-1 rounded-lg text-stone-300 hover:text-red-500 hover:bg-red-50"
+                        title={t("sessions.delete")}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+}
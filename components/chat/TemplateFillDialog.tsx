@@ -0,0 +1,105 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { X } from "lucide-react";
+import type { PromptTemplate } from "@/lib/types";
+import { fillTemplate, templatePlaceholders } from "@/lib/promptTemplates";
+import { Button } from "@/components/ui/Button";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface TemplateFillDialogProps {
+  template: PromptTemplate;
+  submitLabel: string;
+  onSubmit: (text: string) => void;
+  onCancel: () => void;
+}
+
+/** Small form for a template's placeholders with a live preview */
+export function TemplateFillDialog({
+  template,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: TemplateFillDialogProps) {
+  const { t } = useI18n();
+  const placeholders = templatePlaceholders(template.text);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const isComplete = placeholders.every((name) => values[name]?.trim());
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCancel();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onCancel]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-stone-900/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in"
+      onClick={onCancel}
+    >
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="template-fill-title"
+        className="w-full max-w-md bg-white rounded-2xl shadow-2xl border border-stone-200 p-6 text-left"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (isComplete) onSubmit(fillTemplate(template.text, values));
+        }}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-[10px] font-medium text-stone-400 uppercase tracking-wider">
+              {t("templates.fillTitle")}
+            </p>
+            <h3 id="template-fill-title" className="font-semibold text-stone-800 truncate">
+              {template.title}
+            </h3>
+          </div>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="p-1.5 rounded-lg text-stone-400 hover:text-stone-600 hover:bg-stone-100 transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="mt-4 space-y-3">
+          {placeholders.map((name, index) => (
+            <label key={name} className="block">
+              <span className="text-xs font-medium text-stone-600">{name}</span>
+              <input
+                autoFocus={index === 0}
+                value={values[name] ?? ""}
+                onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                className="mt-1 w-full px-3 py-2 text-sm rounded-xl border border-stone-200 focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100 focus:outline-none"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="mt-4 p-3 rounded-xl bg-stone-50 border border-stone-200">
+          <p className="text-[10px] font-medium text-stone-400 uppercase tracking-wider mb-1">
+            {t("templates.preview")}
+          </p>
+          <p className="text-sm text-stone-700 whitespace-pre-wrap break-words">
+            {fillTemplate(template.text, values)}
+          </p>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            {t("common.cancel")}
+          </Button>
+          <Button type="submit" disabled={!isComplete}>
+            {submitLabel}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,16 +1,78 @@
 "use client";
 
-import { useState } from "react";
-import { X, ZoomIn, FileText } from "lucide-react";
-import type { Citation } from "@/lib/types";
+import { useMemo, useState } from "react";
+import {
+  ZoomIn,
+  FileText,
+  SlidersHorizontal,
+  Layers,
+  EyeOff,
+  Pin,
+  PinOff,
+  CircleCheck,
+  CircleX,
+} from "lucide-react";
+import type { Citation, CitationLabel } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import {
+  buildCitationView,
+  DEFAULT_CITATION_VIEW,
+  type CitationEntry,
+  type CitationSort,
+  type CitationViewOptions,
+} from "@/lib/citationView";
+import { DocumentViewer } from "./DocumentViewer";
+import { HighlightedPageImage } from "./HighlightedPageImage";
+import { useI18n } from "@/components/layout/I18nProvider";
+import { useEvidenceBoardContext } from "@/components/layout/EvidenceBoardProvider";
 
 interface VisualCitationProps {
   citation: Citation;
   documentName?: string;
+  pageCount?: number;
+  /** All citations into the same document, marked in the viewer */
+  documentCitations?: Citation[];
+  showHighlights?: boolean;
+  onShowHighlightsChange?: (show: boolean) => void;
+  /** Controlled expanded state; uncontrolled when omitted */
+  isExpanded?: boolean;
+  onExpandedChange?: (expanded: boolean) => void;
+  /** Question the citation answers; enables pinning to the evidence board */
+  question?: string;
+  /** Relevance feedback; marking is offered when `onLabelChange` is set */
+  label?: CitationLabel | null;
+  onLabelChange?: (label: CitationLabel | null) => void;
 }
 
-export function VisualCitation({ citation, documentName }: VisualCitationProps) {
-  const [isExpanded, setIsExpanded] = useState(false);
+export function VisualCitation({
+  citation,
+  documentName,
+  pageCount,
+  documentCitations,
+  showHighlights,
+  onShowHighlightsChange,
+  isExpanded: controlledExpanded,
+  onExpandedChange,
+  question,
+  label,
+  onLabelChange,
+}: VisualCitationProps) {
+  const { t } = useI18n();
+  const board = useEvidenceBoardContext();
+  const pin = question !== undefined ? board.findPin(citation, question) : undefined;
+  const [uncontrolledExpanded, setUncontrolledExpanded] = useState(false);
+  const isExpanded = controlledExpanded ?? uncontrolledExpanded;
+
+  const setIsExpanded = (expanded: boolean) => {
+    setUncontrolledExpanded(expanded);
+    onExpandedChange?.(expanded);
+  };
+
+  const togglePin = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (pin) board.unpin(pin.id);
+    else if (question !== undefined) board.pinCitation(citation, { question, documentName, pageCount });
+  };
 
   return (
     <>
@@ -20,14 +82,30 @@ export function VisualCitation({ citation, documentName }: VisualCitationProps)
         className="group border border-stone-200 rounded-xl overflow-hidden bg-white hover:border-indigo-300 hover:shadow-lg transition-all cursor-pointer animate-slide-up"
       >
         <div className="relative aspect-[3/4] bg-stone-50">
-          <img
+          <HighlightedPageImage
             src={`data:image/png;base64,${citation.image_base64}`}
-            alt={`Page ${citation.page}`}
-            className="w-full h-full object-contain"
+            alt={t("common.page", { page: citation.page })}
+            highlights={citation.highlights}
+            showHighlights={showHighlights}
+            className="w-full h-full"
           />
           <div className="absolute inset-0 bg-indigo-900/0 group-hover:bg-indigo-900/20 transition-colors flex items-center justify-center">
             <ZoomIn className="w-8 h-8 text-white opacity-0 group-hover:opacity-100 transition-opacity drop-shadow-lg" />
           </div>
+          {question !== undefined && (
+            <button
+              onClick={togglePin}
+              className={cn(
+                "absolute top-2 right-2 p-1.5 rounded-lg shadow-sm transition-all",
+                pin
+                  ? "bg-indigo-600 text-white hover:bg-indigo-700"
+                  : "bg-white/90 text-stone-500 hover:text-indigo-600 opacity-0 group-hover:opacity-100"
+              )}
+              title={pin ? t("evidence.unpin") : t("evidence.pin")}
+            >
+              {pin ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+            </button>
+          )}
         </div>
         <div className="p-3 border-t border-stone-100">
           <div className="flex items-center gap-2 text-[11px] text-stone-400 mb-1.5">
@@ -36,73 +114,250 @@ export function VisualCitation({ citation, documentName }: VisualCitationProps)
           </div>
           <div className="flex items-center justify-between">
             <span className="text-sm font-medium text-stone-700">
-              Page {citation.page}
+              {t("common.page", { page: citation.page })}
             </span>
-            <span className="text-xs text-indigo-600 font-medium">
-              {(citation.score * 100).toFixed(0)}%
+            <span className="flex items-center gap-1.5">
+              {onLabelChange &&
+                (["relevant", "irrelevant"] as const).map((option) => {
+                  const Icon = option === "relevant" ? CircleCheck : CircleX;
+                  const isActive = label === option;
+                  return (
+                    <button
+                      key={option}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onLabelChange(isActive ? null : option);
+                      }}
+                      className={cn(
+                        "transition-all",
+                        isActive
+                          ? option === "relevant"
+                            ? "text-emerald-600"
+                            : "text-red-500"
+                          : "text-stone-300 hover:text-stone-500 opacity-0 group-hover:opacity-100"
+                      )}
+                      title={t(option === "relevant" ? "feedback.relevant" : "feedback.irrelevant")}
+                    >
+                      <Icon className="w-3.5 h-3.5" />
+                    </button>
+                  );
+                })}
+              <span className="text-xs text-indigo-600 font-medium">
+                {(citation.score * 100).toFixed(0)}%
+              </span>
             </span>
           </div>
         </div>
       </div>
 
-      {/* Expanded Modal */}
+      {/* Document Viewer */}
       {isExpanded && (
-        <div
-          className="fixed inset-0 z-50 bg-stone-900/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in"
-          onClick={() => setIsExpanded(false)}
-        >
-          <div
-            className="relative max-w-4xl max-h-[90vh] bg-white rounded-2xl overflow-hidden shadow-2xl border border-stone-200"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <div className="flex items-center justify-between p-4 border-b border-stone-200">
-              <div>
-                <h3 className="font-medium text-stone-800">
-                  Page {citation.page}
-                </h3>
-                <p className="text-sm text-stone-500">
-                  Relevance: {(citation.score * 100).toFixed(1)}%
-                </p>
-              </div>
-              <button
-                onClick={() => setIsExpanded(false)}
-                className="p-2 rounded-xl hover:bg-stone-100 text-stone-400 hover:text-stone-600 transition-colors"
-              >
-                <X className="w-5 h-5" />
-              </button>
-            </div>
-            <div className="overflow-auto max-h-[calc(90vh-80px)] p-4 bg-stone-50">
-              <img
-                src={`data:image/png;base64,${citation.image_base64}`}
-                alt={`Page ${citation.page}`}
-                className="w-full h-auto rounded-xl shadow-lg"
-              />
-            </div>
-          </div>
-        </div>
+        <DocumentViewer
+          documentId={citation.document_id}
+          documentName={documentName}
+          pageCount={pageCount}
+          initialPage={citation.page}
+          citations={documentCitations ?? [citation]}
+          showHighlights={showHighlights}
+          onShowHighlightsChange={onShowHighlightsChange}
+          onClose={() => setIsExpanded(false)}
+        />
       )}
     </>
   );
 }
 
+const SCORE_THRESHOLDS = [0, 0.3, 0.5, 0.7, 0.8, 0.9];
+
 /** Grid of citations */
 interface CitationGridProps {
   citations: Citation[];
   documentNames?: Record<string, string>;
+  pageCounts?: Record<string, number>;
+  showHighlights?: boolean;
+  onShowHighlightsChange?: (show: boolean) => void;
+  /** Index of the citation whose viewer is open (controlled) */
+  expandedIndex?: number | null;
+  onExpandedIndexChange?: (index: number | null) => void;
+  /** Question the citations answer, saved with evidence board pins */
+  question?: string;
+  citationLabel?: (citation: Citation) => CitationLabel | null;
+  onLabelCitation?: (citation: Citation, label: CitationLabel | null) => void;
 }
 
-export function CitationGrid({ citations, documentNames = {} }: CitationGridProps) {
+export function CitationGrid({
+  citations,
+  documentNames = {},
+  pageCounts = {},
+  showHighlights,
+  onShowHighlightsChange,
+  expandedIndex,
+  onExpandedIndexChange,
+  question,
+  citationLabel,
+  onLabelCitation,
+}: CitationGridProps) {
+  const { t, tn } = useI18n();
+  const [options, setOptions] = useState<CitationViewOptions>(DEFAULT_CITATION_VIEW);
+  const view = useMemo(
+    () => buildCitationView(citations, options, documentNames),
+    [citations, options, documentNames]
+  );
+
   if (citations.length === 0) return null;
 
+  const isControlled = expandedIndex !== undefined;
+  // Markers may point at a merged duplicate; open the entry it was merged into
+  const expanded =
+    expandedIndex !== undefined && expandedIndex !== null
+      ? view.canonicalIndex[expandedIndex]
+      : null;
+  const expandedHidden =
+    expanded !== null &&
+    expanded !== undefined &&
+    !view.groups.some((group) => group.entries.some((entry) => entry.index === expanded));
+
+  const documentCount = new Set(view.unique.map((entry) => entry.citation.document_id)).size;
+  const hiddenCount = view.hiddenBelowThreshold + view.hiddenDuplicates;
+  const hiddenReasons = [
+    view.hiddenBelowThreshold > 0 &&
+      t("citations.belowThreshold", {
+        count: view.hiddenBelowThreshold,
+        threshold: `${Math.round(options.minScore * 100)}%`,
+      }),
+    view.hiddenDuplicates > 0 && tn("citations.duplicates", view.hiddenDuplicates),
+  ].filter(Boolean);
+  const documentCitations = (documentId: string) =>
+    view.unique.filter((entry) => entry.citation.document_id === documentId).map((entry) => entry.citation);
+
+  const updateOptions = (updates: Partial<CitationViewOptions>) =>
+    setOptions((prev) => ({ ...prev, ...updates }));
+
+  const renderEntry = ({ citation, index }: CitationEntry) => (
+    <div key={`${citation.document_id}-${citation.page}`} data-citation-index={index}>
+      <VisualCitation
+        citation={citation}
+        documentName={documentNames[citation.document_id]}
+        pageCount={pageCounts[citation.document_id]}
+        showHighlights={showHighlights}
+        onShowHighlightsChange={onShowHighlightsChange}
+        documentCitations={documentCitations(citation.document_id)}
+        isExpanded={isControlled ? expanded === index : undefined}
+        onExpandedChange={(isOpen) => onExpandedIndexChange?.(isOpen ? index : null)}
+        question={question}
+        label={citationLabel?.(citation)}
+        onLabelChange={onLabelCitation && ((label) => onLabelCitation(citation, label))}
+      />
+    </div>
+  );
+
+  const expandedCitation = expandedHidden ? view.unique.find((entry) => entry.index === expanded) : undefined;
+
   return (
-    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-      {citations.map((citation, index) => (
-        <VisualCitation
-          key={`${citation.document_id}-${citation.page}-${index}`}
-          citation={citation}
-          documentName={documentNames[citation.document_id]}
+    <div className="space-y-3">
+      {citations.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2 text-[11px] text-stone-500">
+          <label className="inline-flex items-center gap-1">
+            <SlidersHorizontal className="w-3 h-3" />
+            {t("citations.minScore")}
+            <select
+              value={options.minScore}
+              onChange={(e) => updateOptions({ minScore: Number(e.target.value) })}
+              className="ml-1 px-1.5 py-0.5 rounded-md border border-stone-200 bg-white text-stone-700 focus:outline-none focus:border-indigo-400"
+            >
+              {SCORE_THRESHOLDS.map((threshold) => (
+                <option key={threshold} value={threshold}>
+                  {threshold === 0 ? t("citations.any") : `${Math.round(threshold * 100)}%`}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="inline-flex items-center rounded-md border border-stone-200 bg-white overflow-hidden">
+            {(["score", "page"] as CitationSort[]).map((sort) => (
+              <button
+                key={sort}
+                onClick={() => updateOptions({ sort })}
+                className={cn(
+                  "px-2 py-0.5 transition-colors",
+                  options.sort === sort
+                    ? "bg-indigo-50 text-indigo-700 font-medium"
+                    : "hover:bg-stone-50"
+                )}
+              >
+                {sort === "score" ? t("citations.byScore") : t("citations.byPage")}
+              </button>
+            ))}
+          </div>
+
+          {documentCount > 1 && (
+            <button
+              onClick={() => updateOptions({ groupByDocument: !options.groupByDocument })}
+              className={cn(
+                "inline-flex items-center gap-1 px-2 py-0.5 rounded-md border transition-colors",
+                options.groupByDocument
+                  ? "border-indigo-200 bg-indigo-50 text-indigo-700"
+                  : "border-stone-200 bg-white hover:bg-stone-50"
+              )}
+            >
+              <Layers className="w-3 h-3" />
+              {t("citations.groupByDocument")}
+            </button>
+          )}
+
+          {hiddenCount > 0 && (
+            <span className="ml-auto inline-flex items-center gap-1 text-stone-400">
+              <EyeOff className="w-3 h-3" />
+              {t("citations.hidden", { count: hiddenCount, reasons: hiddenReasons.join(", ") })}
+              {view.hiddenBelowThreshold > 0 && (
+                <button
+                  onClick={() => updateOptions({ minScore: 0 })}
+                  className="ml-1 text-indigo-600 hover:text-indigo-700 font-medium"
+                >
+                  {t("citations.showAll")}
+                </button>
+              )}
+            </span>
+          )}
+        </div>
+      )}
+
+      {view.groups.map((group) =>
+        group.documentId === null ? (
+          <div key="all" className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {group.entries.map(renderEntry)}
+          </div>
+        ) : (
+          <div key={group.documentId}>
+            <p className="flex items-center gap-1.5 text-xs font-medium text-stone-600 mb-2">
+              <FileText className="w-3.5 h-3.5 text-stone-400" />
+              <span className="truncate">{documentNames[group.documentId] || group.documentId}</span>
+              <span className="text-stone-400 font-normal">({group.entries.length})</span>
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {group.entries.map(renderEntry)}
+            </div>
+          </div>
+        )
+      )}
+
+      {view.groups.length === 0 && (
+        <p className="text-xs text-stone-400">{t("citations.noneAboveThreshold")}</p>
+      )}
+
+      {/* A marker can open a citation the threshold hides */}
+      {expandedCitation && (
+        <DocumentViewer
+          documentId={expandedCitation.citation.document_id}
+          documentName={documentNames[expandedCitation.citation.document_id]}
+          pageCount={pageCounts[expandedCitation.citation.document_id]}
+          initialPage={expandedCitation.citation.page}
+          citations={documentCitations(expandedCitation.citation.document_id)}
+          showHighlights={showHighlights}
+          onShowHighlightsChange={onShowHighlightsChange}
+          onClose={() => onExpandedIndexChange?.(null)}
         />
-      ))}
+      )}
     </div>
   );
 }
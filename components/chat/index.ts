@@ -1,5 +1,17 @@
+export { AgentTrace } from "./AgentTrace";
 export { ChatInterface } from "./ChatInterface";
 export { ChatInput } from "./ChatInput";
 export { ChatMessage } from "./ChatMessage";
+export { ComparisonView } from "./ComparisonView";
+export { DocumentViewer } from "./DocumentViewer";
+export { ExportMenu } from "./ExportMenu";
+export { FeedbackButtons } from "./FeedbackButtons";
+export { HighlightedPageImage } from "./HighlightedPageImage";
+export { MarkdownContent } from "./MarkdownContent";
+export { PromptTemplateLibrary } from "./PromptTemplateLibrary";
+export { PromptTemplateMenu } from "./PromptTemplateMenu";
+export { QueryScopeSelector } from "./QueryScopeSelector";
+export { SessionSidebar } from "./SessionSidebar";
+export { TemplateFillDialog } from "./TemplateFillDialog";
 export { VisualCitation, CitationGrid } from "./VisualCitation";
 
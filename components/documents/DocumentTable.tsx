@@ -0,0 +1,364 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import {
+  Search,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  Check,
+  FileText,
+  Pencil,
+  Trash2,
+  MessageSquare,
+  ClipboardList,
+  X,
+  CheckCircle2,
+  Loader2,
+} from "lucide-react";
+import type { DocumentInfo } from "@/lib/types";
+import { LOCALES, type MessageKey } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+type SortKey = "filename" | "page_count" | "uploaded_at" | "indexed";
+
+interface DocumentTableProps {
+  documents: DocumentInfo[];
+  isLoading?: boolean;
+  onRename: (id: string, filename: string) => Promise<void>;
+  onDelete: (ids: string[]) => Promise<void>;
+  /** Open chat scoped to these documents */
+  onAsk: (ids: string[]) => void;
+  /** Open the review playbook for one document */
+  onRunPlaybook?: (id: string) => void;
+}
+
+const COLUMNS: { key: SortKey; label: MessageKey; className?: string }[] = [
+  { key: "filename", label: "library.columnFilename" },
+  { key: "page_count", label: "library.columnPages", className: "w-24 text-right" },
+  { key: "uploaded_at", label: "library.columnUploaded", className: "w-44" },
+  { key: "indexed", label: "library.columnStatus", className: "w-32" },
+];
+
+function compareDocuments(a: DocumentInfo, b: DocumentInfo, key: SortKey): number {
+  switch (key) {
+    case "filename":
+      return a.filename.localeCompare(b.filename, undefined, { numeric: true });
+    case "page_count":
+      return a.page_count - b.page_count;
+    case "uploaded_at":
+      return new Date(a.uploaded_at).getTime() - new Date(b.uploaded_at).getTime();
+    case "indexed":
+      return Number(a.indexed) - Number(b.indexed);
+  }
+}
+
+export function DocumentTable({
+  documents,
+  isLoading = false,
+  onRename,
+  onDelete,
+  onAsk,
+  onRunPlaybook,
+}: DocumentTableProps) {
+  const { t, tn, locale, formatNumber } = useI18n();
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<{ key: SortKey; direction: "asc" | "desc" }>({
+    key: "uploaded_at",
+    direction: "desc",
+  });
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<{ id: string; value: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<string[] | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const rows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const filtered = term
+      ? documents.filter((doc) => doc.filename.toLowerCase().includes(term))
+      : documents;
+    const sign = sort.direction === "asc" ? 1 : -1;
+    return [...filtered].sort((a, b) => sign * compareDocuments(a, b, sort.key));
+  }, [documents, search, sort]);
+
+  // Ignore selections of documents that were deleted elsewhere
+  const selected = documents.filter((doc) => selectedIds.has(doc.id)).map((doc) => doc.id);
+  const allVisibleSelected = rows.length > 0 && rows.every((doc) => selectedIds.has(doc.id));
+
+  const toggleSort = (key: SortKey) => {
+    setSort((prev) =>
+      prev.key === key
+        ? { key, direction: prev.direction === "asc" ? "desc" : "asc" }
+        : { key, direction: key === "filename" ? "asc" : "desc" }
+    );
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      rows.forEach((doc) => (allVisibleSelected ? next.delete(doc.id) : next.add(doc.id)));
+      return next;
+    });
+  };
+
+  const handleSaveRename = async () => {
+    if (!editing) return;
+    const trimmed = editing.value.trim();
+    const original = documents.find((doc) => doc.id === editing.id)?.filename;
+    setEditing(null);
+    if (trimmed && trimmed !== original) {
+      await onRename(editing.id, trimmed);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+    setIsDeleting(true);
+    try {
+      await onDelete(pendingDelete);
+      setSelectedIds((prev) => {
+        const next = new Set(prev);
+        pendingDelete.forEach((id) => next.delete(id));
+        return next;
+      });
+    } finally {
+      setIsDeleting(false);
+      setPendingDelete(null);
+    }
+  };
+
+  const pendingNames = (pendingDelete ?? [])
+    .map((id) => documents.find((doc) => doc.id === id)?.filename)
+    .filter(Boolean);
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-stone-400" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t("library.search")}
+            className="w-full pl-9 pr-3 py-2 rounded-xl text-sm bg-white border border-stone-200 shadow-sm focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100 focus:outline-none"
+          />
+        </div>
+
+        {selected.length > 0 && (
+          <div className="flex items-center gap-2 animate-fade-in">
+            <span className="text-sm text-stone-500">{t("library.selected", { count: selected.length })}</span>
+            <button
+              onClick={() => onAsk(selected)}
+              className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 shadow-sm transition-colors"
+            >
+              <MessageSquare className="w-4 h-4" />
+              {t("library.askSelected")}
+            </button>
+            <button
+              onClick={() => setPendingDelete(selected)}
+              className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-medium text-red-600 bg-white border border-stone-200 hover:bg-red-50 hover:border-red-200 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              {t("common.delete")}
+            </button>
+            <button
+              onClick={() => setSelectedIds(new Set())}
+              className="p-2 rounded-xl text-stone-400 hover:text-stone-600 hover:bg-stone-100 transition-colors"
+              title={t("library.clearSelection")}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Table */}
+      <div className="rounded-2xl bg-white border border-stone-200 shadow-sm overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-stone-50 border-b border-stone-200">
+            <tr>
+              <th className="w-12 px-4 py-3">
+                <input
+                  type="checkbox"
+                  checked={allVisibleSelected}
+                  onChange={toggleAllVisible}
+                  disabled={rows.length === 0}
+                  aria-label={t("library.selectAll")}
+                  className="w-4 h-4 rounded border-stone-300 accent-indigo-600"
+                />
+              </th>
+              {COLUMNS.map((column) => {
+                const isSorted = sort.key === column.key;
+                const SortIcon = !isSorted ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown;
+                return (
+                  <th
+                    key={column.key}
+                    className={cn("px-4 py-3 font-medium text-stone-500 text-left", column.className)}
+                    aria-sort={isSorted ? (sort.direction === "asc" ? "ascending" : "descending") : "none"}
+                  >
+                    <button
+                      onClick={() => toggleSort(column.key)}
+                      className={cn(
+                        "inline-flex items-center gap-1 hover:text-stone-800 transition-colors",
+                        isSorted && "text-stone-800"
+                      )}
+                    >
+                      {t(column.label)}
+                      <SortIcon className={cn("w-3.5 h-3.5", !isSorted && "text-stone-300")} />
+                    </button>
+                  </th>
+                );
+              })}
+              <th className="w-24 px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-stone-100">
+            {isLoading ? (
+              <tr>
+                <td colSpan={COLUMNS.length + 2} className="px-4 py-12 text-center text-stone-400">
+                  <Loader2 className="w-5 h-5 mx-auto animate-spin" />
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={COLUMNS.length + 2} className="px-4 py-12 text-center text-stone-400">
+                  {documents.length === 0 ? t("library.emptyLibrary") : t("library.noMatches")}
+                </td>
+              </tr>
+            ) : (
+              rows.map((doc) => {
+                const isSelected = selectedIds.has(doc.id);
+                return (
+                  <tr
+                    key={doc.id}
+                    className={cn("group transition-colors", isSelected ? "bg-indigo-50/50" : "hover:bg-stone-50")}
+                  >
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={() => toggleSelected(doc.id)}
+                        aria-label={t("library.selectDocument", { name: doc.filename })}
+                        className="w-4 h-4 rounded border-stone-300 accent-indigo-600"
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      {editing?.id === doc.id ? (
+                        <form
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            handleSaveRename();
+                          }}
+                          className="flex items-center gap-2"
+                        >
+                          <input
+                            autoFocus
+                            value={editing.value}
+                            onChange={(e) => setEditing({ id: doc.id, value: e.target.value })}
+                            onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+                            className="flex-1 px-2 py-1 rounded-lg border border-indigo-300 ring-2 ring-indigo-100 focus:outline-none"
+                          />
+                          <button type="submit" className="p-1 text-indigo-600" title={t("common.save")}>
+                            <Check className="w-4 h-4" />
+                          </button>
+                        </form>
+                      ) : (
+                        <div className="flex items-center gap-2 min-w-0">
+                          <FileText className="w-4 h-4 text-stone-400 flex-shrink-0" />
+                          <span className="text-stone-700 truncate">{doc.filename}</span>
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right text-stone-500 tabular-nums">{formatNumber(doc.page_count)}</td>
+                    <td className="px-4 py-3 text-stone-500">
+                      {new Date(doc.uploaded_at).toLocaleString(LOCALES[locale].intl, {
+                        dateStyle: "medium",
+                        timeStyle: "short",
+                      })}
+                    </td>
+                    <td className="px-4 py-3">
+                      {doc.indexed ? (
+                        <span className="inline-flex items-center gap-1 text-xs text-emerald-600">
+                          <CheckCircle2 className="w-3.5 h-3.5" />
+                          {t("library.indexed")}
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center gap-1 text-xs text-amber-600">
+                          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                          {t("library.indexing")}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {onRunPlaybook && doc.indexed && (
+                          <button
+                            onClick={() => onRunPlaybook(doc.id)}
+                            className="p-1.5 rounded-lg text-stone-400 hover:text-indigo-600 hover:bg-indigo-50"
+                            title={t("library.runPlaybook")}
+                          >
+                            <ClipboardList className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setEditing({ id: doc.id, value: doc.filename })}
+                          className="p-1.5 rounded-lg text-stone-400 hover:text-indigo-600 hover:bg-indigo-50"
+                          title={t("common.rename")}
+                        >
+                          <Pencil className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => setPendingDelete([doc.id])}
+                          className="p-1.5 rounded-lg text-stone-400 hover:text-red-500 hover:bg-red-50"
+                          title={t("common.delete")}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {pendingDelete && (
+        <ConfirmDialog
+          title={tn("library.deleteTitle", pendingDelete.length)}
+          description={
+            <>
+              {pendingNames.length === 1 ? (
+                <span className="font-medium text-stone-700">{pendingNames[0]}</span>
+              ) : (
+                <ul className="max-h-32 overflow-y-auto list-disc pl-5">
+                  {pendingNames.map((name, index) => (
+                    <li key={index} className="truncate">{name}</li>
+                  ))}
+                </ul>
+              )}
+              <p className="mt-2">{tn("library.deleteBody", pendingDelete.length)}</p>
+            </>
+          }
+          confirmLabel={tn("library.deleteConfirm", pendingDelete.length)}
+          isLoading={isDeleting}
+          onConfirm={handleConfirmDelete}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+    </div>
+  );
+}
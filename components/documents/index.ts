@@ -0,0 +1 @@
+export { DocumentTable } from "./DocumentTable";
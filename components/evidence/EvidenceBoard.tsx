@@ -0,0 +1,269 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { FileText, GripVertical, Pin, Trash2, X } from "lucide-react";
+import type { EvidencePin } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { DocumentViewer } from "@/components/chat/DocumentViewer";
+import { HighlightedPageImage } from "@/components/chat/HighlightedPageImage";
+import { useI18n } from "@/components/layout/I18nProvider";
+import { useEvidenceBoardContext } from "@/components/layout/EvidenceBoardProvider";
+
+interface EvidenceBoardProps {
+  onClose: () => void;
+}
+
+/** One pinned page with its note and tags */
+function EvidenceCard({
+  pin,
+  isDragging,
+  isDropTarget,
+  onOpen,
+  onDragStart,
+  onDragEnd,
+  onDragOver,
+  onDrop,
+}: {
+  pin: EvidencePin;
+  isDragging: boolean;
+  isDropTarget: boolean;
+  onOpen: () => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+}) {
+  const { t } = useI18n();
+  const { updatePin, unpin } = useEvidenceBoardContext();
+  const [note, setNote] = useState(pin.note);
+  const [tagDraft, setTagDraft] = useState("");
+  // Dragging starts from the handle only, so text in the note stays selectable
+  const [isHandleHeld, setIsHandleHeld] = useState(false);
+
+  const addTag = () => {
+    const tag = tagDraft.trim().replace(/,$/, "");
+    setTagDraft("");
+    if (tag && !pin.tags.includes(tag)) updatePin(pin.id, { tags: [...pin.tags, tag] });
+  };
+
+  return (
+    <div
+      draggable={isHandleHeld}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        onDragStart();
+      }}
+      onDragEnd={() => {
+        setIsHandleHeld(false);
+        onDragEnd();
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        onDragOver();
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      className={cn(
+        "group flex gap-3 p-3 rounded-xl border bg-white transition-all",
+        isDropTarget ? "border-indigo-400 shadow-md" : "border-stone-200",
+        isDragging && "opacity-40"
+      )}
+    >
+      <span
+        onMouseDown={() => setIsHandleHeld(true)}
+        onMouseUp={() => setIsHandleHeld(false)}
+        className="text-stone-300 hover:text-stone-500 cursor-grab active:cursor-grabbing"
+        title={t("evidence.reorder")}
+      >
+        <GripVertical className="w-4 h-4" />
+      </span>
+
+      <button
+        onClick={onOpen}
+        className="w-20 flex-shrink-0 aspect-[3/4] rounded-lg overflow-hidden border border-stone-200 bg-stone-50 hover:border-indigo-300 transition-colors"
+        title={t("evidence.openPage")}
+      >
+        <HighlightedPageImage
+          src={`data:image/png;base64,${pin.citation.image_base64}`}
+          alt={t("common.page", { page: pin.citation.page })}
+          highlights={pin.citation.highlights}
+          className="w-full h-full"
+        />
+      </button>
+
+      <div className="flex-1 min-w-0 space-y-2">
+        <div className="flex items-start gap-2">
+          <div className="flex-1 min-w-0">
+            <p className="flex items-center gap-1.5 text-[11px] text-stone-400">
+              <FileText className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{pin.documentName || pin.citation.document_id}</span>
+            </p>
+            <p className="text-sm font-medium text-stone-700">
+              {t("common.page", { page: pin.citation.page })}
+            </p>
+          </div>
+          <button
+            onClick={() => unpin(pin.id)}
+            className="p-1 rounded-lg text-stone-300 hover:text-red-500 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-all"
+            title={t("evidence.unpin")}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <p className="text-xs text-stone-500 italic line-clamp-2" title={pin.question}>
+          {pin.question}
+        </p>
+
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={() => note !== pin.note && updatePin(pin.id, { note })}
+          placeholder={t("evidence.notePlaceholder")}
+          rows={2}
+          className="w-full px-2 py-1.5 rounded-lg border border-stone-200 text-xs text-stone-700 placeholder:text-stone-400 resize-y focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-300"
+        />
+
+        <div className="flex flex-wrap items-center gap-1">
+          {pin.tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-0.5 pl-2 pr-1 py-0.5 rounded-md bg-indigo-50 text-indigo-700 text-[11px]"
+            >
+              {tag}
+              <button
+                onClick={() => updatePin(pin.id, { tags: pin.tags.filter((other) => other !== tag) })}
+                className="p-0.5 rounded hover:bg-indigo-100"
+                title={t("evidence.removeTag", { tag })}
+              >
+                <X className="w-2.5 h-2.5" />
+              </button>
+            </span>
+          ))}
+          <input
+            value={tagDraft}
+            onChange={(e) => setTagDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === ",") {
+                e.preventDefault();
+                addTag();
+              }
+            }}
+            onBlur={addTag}
+            placeholder={t("evidence.addTag")}
+            className="w-24 px-1.5 py-0.5 rounded-md text-[11px] text-stone-600 placeholder:text-stone-300 bg-transparent focus:outline-none focus:bg-stone-50"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Side panel listing pinned citations */
+export function EvidenceBoard({ onClose }: EvidenceBoardProps) {
+  const { t, tn } = useI18n();
+  const { pins, movePin } = useEvidenceBoardContext();
+  const [documentFilter, setDocumentFilter] = useState("");
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [openPin, setOpenPin] = useState<EvidencePin | null>(null);
+
+  const documents = useMemo(() => {
+    const names = new Map<string, string>();
+    pins.forEach((pin) => names.set(pin.citation.document_id, pin.documentName || pin.citation.document_id));
+    return Array.from(names, ([id, name]) => ({ id, name }));
+  }, [pins]);
+
+  // A document filter can outlive its last pin
+  const activeFilter = documents.some((doc) => doc.id === documentFilter) ? documentFilter : "";
+  const visible = activeFilter ? pins.filter((pin) => pin.citation.document_id === activeFilter) : pins;
+
+  const endDrag = () => {
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-40 w-[26rem] max-w-full flex flex-col bg-[#fafaf9] border-l border-stone-200 shadow-2xl animate-fade-in">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-stone-200 bg-white">
+        <Pin className="w-4 h-4 text-indigo-600" />
+        <div className="flex-1">
+          <h2 className="text-sm font-semibold text-stone-800">{t("evidence.title")}</h2>
+          <p className="text-[11px] text-stone-400">{tn("evidence.pinned", pins.length)}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg text-stone-400 hover:text-stone-600 hover:bg-stone-100 transition-colors"
+          title={t("evidence.close")}
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {documents.length > 1 && (
+        <div className="px-4 py-2 border-b border-stone-200 bg-white">
+          <select
+            value={activeFilter}
+            onChange={(e) => setDocumentFilter(e.target.value)}
+            className="w-full px-2 py-1.5 rounded-lg text-xs text-stone-600 bg-white border border-stone-200 focus:border-indigo-400 focus:outline-none"
+          >
+            <option value="">{t("evidence.allDocuments")}</option>
+            {documents.map((doc) => (
+              <option key={doc.id} value={doc.id}>
+                {doc.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {visible.map((pin) => (
+          <EvidenceCard
+            key={pin.id}
+            pin={pin}
+            isDragging={draggedId === pin.id}
+            isDropTarget={dropTargetId === pin.id && draggedId !== pin.id}
+            onOpen={() => setOpenPin(pin)}
+            onDragStart={() => setDraggedId(pin.id)}
+            onDragEnd={endDrag}
+            onDragOver={() => setDropTargetId(pin.id)}
+            onDrop={() => {
+              if (draggedId) movePin(draggedId, pin.id);
+              endDrag();
+            }}
+          />
+        ))}
+        {visible.length === 0 && (
+          <p className="py-12 text-center text-sm text-stone-400">
+            {pins.length === 0 ? t("evidence.empty") : t("evidence.noMatches")}
+          </p>
+        )}
+      </div>
+
+      {openPin && (
+        <DocumentViewer
+          documentId={openPin.citation.document_id}
+          documentName={openPin.documentName}
+          pageCount={openPin.pageCount}
+          initialPage={openPin.citation.page}
+          citations={pins
+            .filter(
+              (pin, index) =>
+                pin.citation.document_id === openPin.citation.document_id &&
+                // The same page can be pinned for several questions
+                pins.findIndex(
+                  (other) =>
+                    other.citation.document_id === pin.citation.document_id &&
+                    other.citation.page === pin.citation.page
+                ) === index
+            )
+            .map((pin) => pin.citation)}
+          onClose={() => setOpenPin(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { EvidenceBoard } from "./EvidenceBoard";
@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { Scale, MessageSquare, FolderOpen, ClipboardList, Pin, LogOut } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { logout } from "@/lib/auth";
+import type { MessageKey } from "@/lib/i18n";
+import { HealthBadge } from "./HealthBadge";
+import { LanguageSwitcher } from "./LanguageSwitcher";
+import { useI18n } from "./I18nProvider";
+import { useEvidenceBoardContext } from "./EvidenceBoardProvider";
+import { EvidenceBoard } from "@/components/evidence/EvidenceBoard";
+
+const NAV_ITEMS: { href: string; label: MessageKey; icon: typeof MessageSquare }[] = [
+  { href: "/", label: "nav.chat", icon: MessageSquare },
+  { href: "/documents", label: "nav.documents", icon: FolderOpen },
+  { href: "/playbook", label: "nav.playbook", icon: ClipboardList },
+];
+
+export function AppHeader() {
+  const pathname = usePathname();
+  const { t } = useI18n();
+  const { pins } = useEvidenceBoardContext();
+  const [isBoardOpen, setIsBoardOpen] = useState(false);
+
+  return (
+    <>
+      <header className="flex-shrink-0 border-b border-stone-200/80 bg-white/80 backdrop-blur-xl shadow-sm">
+        <div className="px-6 py-3 flex items-center gap-3">
+          <div className="w-9 h-9 rounded-xl bg-gradient-to-br from-indigo-600 to-violet-600 flex items-center justify-center shadow-lg shadow-indigo-500/20">
+            <Scale className="w-4 h-4 text-white" />
+          </div>
+          <div>
+            <h1 className="text-base font-semibold text-stone-900 tracking-tight">LexVisual</h1>
+            <p className="text-[10px] text-stone-400 uppercase tracking-widest">Visual RAG</p>
+          </div>
+
+          <nav className="ml-8 flex items-center gap-1">
+            {NAV_ITEMS.map((item) => (
+              <Link
+                key={item.href}
+                href={item.href}
+                className={cn(
+                  "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm transition-colors",
+                  pathname === item.href
+                    ? "bg-indigo-50 text-indigo-700 font-medium"
+                    : "text-stone-500 hover:text-stone-700 hover:bg-stone-100"
+                )}
+              >
+                <item.icon className="w-4 h-4" />
+                {t(item.label)}
+              </Link>
+            ))}
+          </nav>
+
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={() => setIsBoardOpen(!isBoardOpen)}
+              className={cn(
+                "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm transition-colors",
+                isBoardOpen
+                  ? "bg-indigo-50 text-indigo-700"
+                  : "text-stone-500 hover:text-stone-700 hover:bg-stone-100"
+              )}
+              title={t("evidence.title")}
+            >
+              <Pin className="w-4 h-4" />
+              {t("evidence.board")}
+              {pins.length > 0 && (
+                <span className="min-w-[1.25rem] px-1 rounded-full bg-indigo-600 text-white text-[10px] font-medium text-center">
+                  {pins.length}
+                </span>
+              )}
+            </button>
+            <HealthBadge />
+            <LanguageSwitcher />
+            <button
+              onClick={() => logout()}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-stone-500 hover:text-stone-700 hover:bg-stone-100 transition-colors"
+              title={t("nav.signOut")}
+            >
+              <LogOut className="w-4 h-4" />
+              {t("nav.signOut")}
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {/* Outside the header: its backdrop blur would contain the fixed panel */}
+      {isBoardOpen && <EvidenceBoard onClose={() => setIsBoardOpen(false)} />}
+    </>
+  );
+}
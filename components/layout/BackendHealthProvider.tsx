@@ -0,0 +1,24 @@
+"use client";
+
+import { createContext, useContext, type ReactNode } from "react";
+import { useBackendHealth } from "@/lib/useBackendHealth";
+
+type BackendHealthValue = ReturnType<typeof useBackendHealth>;
+
+const BackendHealthContext = createContext<BackendHealthValue | null>(null);
+
+/** Polls backend health once for the whole app */
+export function BackendHealthProvider({ children }: { children: ReactNode }) {
+  const health = useBackendHealth();
+  return (
+    <BackendHealthContext.Provider value={health}>{children}</BackendHealthContext.Provider>
+  );
+}
+
+export function useBackendHealthContext(): BackendHealthValue {
+  const value = useContext(BackendHealthContext);
+  if (!value) {
+    throw new Error("useBackendHealthContext must be used within BackendHealthProvider");
+  }
+  return value;
+}
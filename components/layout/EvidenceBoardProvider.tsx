@@ -0,0 +1,24 @@
+"use client";
+
+import { createContext, useContext, type ReactNode } from "react";
+import { useEvidenceBoard } from "@/lib/useEvidenceBoard";
+
+type EvidenceBoardValue = ReturnType<typeof useEvidenceBoard>;
+
+const EvidenceBoardContext = createContext<EvidenceBoardValue | null>(null);
+
+/** Evidence board shared by citation cards and the board panel */
+export function EvidenceBoardProvider({ children }: { children: ReactNode }) {
+  const board = useEvidenceBoard();
+  return (
+    <EvidenceBoardContext.Provider value={board}>{children}</EvidenceBoardContext.Provider>
+  );
+}
+
+export function useEvidenceBoardContext(): EvidenceBoardValue {
+  const value = useContext(EvidenceBoardContext);
+  if (!value) {
+    throw new Error("useEvidenceBoardContext must be used within EvidenceBoardProvider");
+  }
+  return value;
+}
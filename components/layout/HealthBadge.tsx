@@ -0,0 +1,136 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Cpu, RefreshCw } from "lucide-react";
+import type { BackendStatus } from "@/lib/useBackendHealth";
+import type { MessageKey } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import { useBackendHealthContext } from "./BackendHealthProvider";
+import { useI18n } from "./I18nProvider";
+
+const STATUS_STYLES: Record<BackendStatus, { label: MessageKey; dot: string; badge: string }> = {
+  checking: {
+    label: "health.status.checking",
+    dot: "bg-stone-400 animate-pulse",
+    badge: "bg-stone-50 text-stone-500 border-stone-200",
+  },
+  online: {
+    label: "health.status.online",
+    dot: "bg-emerald-500",
+    badge: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  },
+  loading: {
+    label: "health.status.loading",
+    dot: "bg-amber-500 animate-pulse",
+    badge: "bg-amber-50 text-amber-700 border-amber-200",
+  },
+  offline: {
+    label: "health.status.offline",
+    dot: "bg-red-500",
+    badge: "bg-red-50 text-red-700 border-red-200",
+  },
+};
+
+/** Header badge showing backend connectivity, with GPU and model details */
+export function HealthBadge() {
+  const { status, health, error, lastChecked, refresh } = useBackendHealthContext();
+  const { t, formatDate } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const style = STATUS_STYLES[status];
+  const label = t(style.label);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await refresh();
+    setIsRefreshing(false);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn(
+          "flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-medium transition-colors",
+          style.badge
+        )}
+        aria-label={t("health.ariaLabel", { status: label })}
+      >
+        <span className={cn("w-2 h-2 rounded-full", style.dot)} />
+        {label}
+        {health?.gpu_name && status === "online" && (
+          <span className="hidden md:inline text-emerald-600/70 font-normal">
+            · {health.gpu_name}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 p-4 rounded-xl bg-white border border-stone-200 shadow-xl z-30 animate-fade-in text-xs">
+          <dl className="space-y-2">
+            <div className="flex justify-between gap-2">
+              <dt className="text-stone-400">{t("health.connection")}</dt>
+              <dd className="text-stone-700 font-medium">
+                {status === "offline"
+                  ? t("health.unreachable")
+                  : status === "checking"
+                    ? t("health.checking")
+                    : t("health.connected")}
+              </dd>
+            </div>
+            <div className="flex justify-between gap-2">
+              <dt className="text-stone-400">{t("health.model")}</dt>
+              <dd className="text-stone-700 font-medium">
+                {health
+                  ? health.model_loaded
+                    ? t("health.modelLoaded")
+                    : t("health.modelLoading")
+                  : t("common.unknown")}
+              </dd>
+            </div>
+            <div className="flex justify-between gap-2">
+              <dt className="text-stone-400">{t("health.gpu")}</dt>
+              <dd className="flex items-center gap-1 text-stone-700 font-medium truncate">
+                <Cpu className="w-3 h-3 text-stone-400 flex-shrink-0" />
+                <span className="truncate">
+                  {health
+                    ? health.gpu_available
+                      ? health.gpu_name || t("health.gpuAvailable")
+                      : t("health.gpuUnavailable")
+                    : t("common.unknown")}
+                </span>
+              </dd>
+            </div>
+          </dl>
+
+          {error && <p className="mt-3 text-red-600 break-words">{error}</p>}
+
+          <div className="mt-3 pt-3 border-t border-stone-100 flex items-center justify-between text-stone-400">
+            <span>{lastChecked
+                ? t("health.checkedAt", { date: formatDate(lastChecked) })
+                : t("health.notChecked")}</span>
+            <button
+              onClick={handleRefresh}
+              disabled={isRefreshing}
+              className="p-1 rounded-lg hover:bg-stone-100 hover:text-stone-600 disabled:opacity-50"
+              title={t("health.checkNow")}
+            >
+              <RefreshCw className={cn("w-3.5 h-3.5", isRefreshing && "animate-spin")} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
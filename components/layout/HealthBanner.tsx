@@ -0,0 +1,41 @@
+"use client";
+
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useBackendHealthContext } from "./BackendHealthProvider";
+import { useI18n } from "./I18nProvider";
+
+interface HealthBannerProps {
+  className?: string;
+}
+
+/** Explains why queries and uploads are paused; renders nothing when ready */
+export function HealthBanner({ className }: HealthBannerProps) {
+  const { status, isReady } = useBackendHealthContext();
+  const { t } = useI18n();
+  if (isReady) return null;
+
+  const isLoading = status === "loading";
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        "flex items-start gap-2 px-4 py-3 rounded-xl border text-sm animate-fade-in",
+        isLoading
+          ? "bg-amber-50 border-amber-200 text-amber-800"
+          : "bg-red-50 border-red-200 text-red-800",
+        className
+      )}
+    >
+      {isLoading ? (
+        <Loader2 className="w-4 h-4 mt-0.5 flex-shrink-0 animate-spin" />
+      ) : (
+        <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      )}
+      <p>
+        {isLoading ? t("health.bannerLoading") : t("health.bannerOffline")}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { createContext, useContext, type ReactNode } from "react";
+import { useLocale } from "@/lib/useLocale";
+
+type I18nValue = ReturnType<typeof useLocale>;
+
+const I18nContext = createContext<I18nValue | null>(null);
+
+/** Interface language and translations for the whole app */
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const value = useLocale();
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nValue {
+  const value = useContext(I18nContext);
+  if (!value) {
+    throw new Error("useI18n must be used within I18nProvider");
+  }
+  return value;
+}
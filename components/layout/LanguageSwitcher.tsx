@@ -0,0 +1,76 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Languages, Check } from "lucide-react";
+import { LOCALES, type Locale } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import { useI18n } from "./I18nProvider";
+
+const LOCALE_CODES = Object.keys(LOCALES) as Locale[];
+
+/** Header menu for the interface language and the language answers are requested in */
+export function LanguageSwitcher() {
+  const { locale, setLocale, answerLanguagePreference, setAnswerLanguagePreference, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const option = (label: string, isActive: boolean, onSelect: () => void) => (
+    <button
+      key={label}
+      onClick={onSelect}
+      className={cn(
+        "w-full flex items-center justify-between px-3 py-1.5 text-xs transition-colors",
+        isActive ? "text-indigo-700 font-medium" : "text-stone-600 hover:bg-indigo-50/50"
+      )}
+    >
+      {label}
+      {isActive && <Check className="w-3.5 h-3.5" />}
+    </button>
+  );
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-stone-500 hover:text-stone-700 hover:bg-stone-100 transition-colors"
+        title={t("language.menu")}
+      >
+        <Languages className="w-4 h-4" />
+        <span className="uppercase text-xs font-medium">{locale}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-56 py-2 rounded-xl bg-white border border-stone-200 shadow-xl z-30 animate-fade-in">
+          <p className="px-3 pb-1 text-[10px] font-medium text-stone-400 uppercase tracking-wider">
+            {t("language.interface")}
+          </p>
+          {LOCALE_CODES.map((code) =>
+            option(LOCALES[code].label, locale === code, () => setLocale(code))
+          )}
+
+          <p className="px-3 pt-3 pb-1 mt-1 border-t border-stone-100 text-[10px] font-medium text-stone-400 uppercase tracking-wider">
+            {t("language.answers")}
+          </p>
+          {option(t("language.sameAsInterface"), answerLanguagePreference === null, () =>
+            setAnswerLanguagePreference(null)
+          )}
+          {LOCALE_CODES.map((code) =>
+            option(LOCALES[code].label, answerLanguagePreference === code, () =>
+              setAnswerLanguagePreference(code)
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+export { AppHeader } from "./AppHeader";
+export { BackendHealthProvider, useBackendHealthContext } from "./BackendHealthProvider";
+export { EvidenceBoardProvider, useEvidenceBoardContext } from "./EvidenceBoardProvider";
+export { HealthBadge } from "./HealthBadge";
+export { HealthBanner } from "./HealthBanner";
+export { I18nProvider, useI18n } from "./I18nProvider";
+export { LanguageSwitcher } from "./LanguageSwitcher";
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { RefreshCw, Loader2, AlertCircle, CircleStop } from "lucide-react";
+import type { PlaybookRisk, PlaybookRow } from "@/lib/types";
+import type { MessageKey } from "@/lib/i18n";
+import { citedPages } from "@/lib/playbook";
+import { resolveCitationMarker } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+import { MarkdownContent } from "@/components/chat/MarkdownContent";
+import { DocumentViewer } from "@/components/chat/DocumentViewer";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface PlaybookGridProps {
+  rows: PlaybookRow[];
+  documentId: string;
+  documentName?: string;
+  pageCount?: number;
+  /** Row re-runs are disabled while anything is streaming */
+  isRunning?: boolean;
+  onRerun: (rowId: string) => void;
+}
+
+const RISK_STYLES: Record<PlaybookRisk, { label: MessageKey; className: string }> = {
+  high: { label: "playbook.risk.high", className: "bg-red-50 text-red-700 border-red-200" },
+  medium: { label: "playbook.risk.medium", className: "bg-amber-50 text-amber-700 border-amber-200" },
+  low: { label: "playbook.risk.low", className: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  missing: { label: "playbook.risk.missing", className: "bg-violet-50 text-violet-700 border-violet-200" },
+  unknown: { label: "playbook.risk.unknown", className: "bg-stone-50 text-stone-500 border-stone-200" },
+};
+
+/** Review grid with one row per playbook question */
+export function PlaybookGrid({
+  rows,
+  documentId,
+  documentName,
+  pageCount,
+  isRunning,
+  onRerun,
+}: PlaybookGridProps) {
+  const { t } = useI18n();
+  const [viewing, setViewing] = useState<{ rowId: string; page: number } | null>(null);
+  const viewingRow = viewing ? rows.find((row) => row.id === viewing.rowId) : undefined;
+
+  const renderAnswer = (row: PlaybookRow) => {
+    if (row.status === "error") {
+      return (
+        <span className="inline-flex items-start gap-1.5 text-red-600">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {row.error ?? t("playbook.noAnswer")}
+        </span>
+      );
+    }
+    if (row.status === "pending") {
+      return <span className="text-stone-400">{t("playbook.status.pending")}</span>;
+    }
+    if (row.status === "running" && !row.answer) {
+      return (
+        <span className="inline-flex items-center gap-1.5 text-stone-400">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          {row.progress ?? t("playbook.status.running")}
+        </span>
+      );
+    }
+    return (
+      <>
+        {row.answer && (
+          <MarkdownContent
+            content={row.answer}
+            isCitationAvailable={(marker) => resolveCitationMarker(marker, row.citations) !== -1}
+            onCitationClick={(marker) => {
+              const index = resolveCitationMarker(marker, row.citations);
+              if (index !== -1) setViewing({ rowId: row.id, page: row.citations[index].page });
+            }}
+          />
+        )}
+        {row.status === "cancelled" && (
+          <span className="inline-flex items-center gap-1 text-[11px] text-amber-600">
+            <CircleStop className="w-3 h-3" />
+            {t("playbook.status.cancelled")}
+          </span>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="rounded-2xl bg-white border border-stone-200 shadow-sm overflow-hidden">
+      <table className="w-full text-sm">
+        <thead className="bg-stone-50 border-b border-stone-200">
+          <tr className="text-left text-stone-500">
+            <th className="w-56 px-4 py-3 font-medium">{t("playbook.columnTopic")}</th>
+            <th className="px-4 py-3 font-medium">{t("playbook.columnAnswer")}</th>
+            <th className="w-32 px-4 py-3 font-medium">{t("playbook.columnRisk")}</th>
+            <th className="w-32 px-4 py-3 font-medium">{t("playbook.columnPages")}</th>
+            <th className="w-12 px-4 py-3" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-stone-100 align-top">
+          {rows.map((row) => {
+            const risk = RISK_STYLES[row.risk];
+            const isDone = row.status === "done";
+            return (
+              <tr key={row.id} className={cn("group", row.status === "running" && "bg-indigo-50/30")}>
+                <td className="px-4 py-3">
+                  <p className="font-medium text-stone-700">{row.label}</p>
+                  <p className="mt-0.5 text-xs text-stone-400 leading-relaxed">{row.question}</p>
+                </td>
+                <td className="px-4 py-3 text-stone-700">{renderAnswer(row)}</td>
+                <td className="px-4 py-3">
+                  {isDone && (
+                    <span
+                      className={cn(
+                        "inline-flex px-2 py-0.5 rounded-md border text-xs font-medium",
+                        risk.className
+                      )}
+                    >
+                      {t(risk.label)}
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-3">
+                  <div className="flex flex-wrap gap-1">
+                    {citedPages(row).map((page) => (
+                      <button
+                        key={page}
+                        onClick={() => setViewing({ rowId: row.id, page })}
+                        className="px-1.5 py-0.5 rounded-md bg-indigo-50 text-indigo-700 text-xs font-medium hover:bg-indigo-100 transition-colors"
+                        title={t("common.page", { page })}
+                      >
+                        p.{page}
+                      </button>
+                    ))}
+                  </div>
+                </td>
+                <td className="px-4 py-3">
+                  <button
+                    onClick={() => onRerun(row.id)}
+                    disabled={isRunning}
+                    className="p-1.5 rounded-lg text-stone-400 hover:text-indigo-600 hover:bg-indigo-50 opacity-0 group-hover:opacity-100 disabled:opacity-0 transition-all"
+                    title={t("playbook.rerun")}
+                  >
+                    <RefreshCw className="w-3.5 h-3.5" />
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {viewing && viewingRow && (
+        <DocumentViewer
+          documentId={documentId}
+          documentName={documentName}
+          pageCount={pageCount}
+          initialPage={viewing.page}
+          citations={viewingRow.citations}
+          onClose={() => setViewing(null)}
+        />
+      )}
+    </div>
+  );
+}
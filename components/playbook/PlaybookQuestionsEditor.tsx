@@ -0,0 +1,70 @@
+"use client";
+
+import { Plus, RotateCcw, X } from "lucide-react";
+import type { PlaybookQuestion } from "@/lib/types";
+import { generateId } from "@/lib/utils";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface PlaybookQuestionsEditorProps {
+  questions: PlaybookQuestion[];
+  onChange: (questions: PlaybookQuestion[]) => void;
+  onReset: () => void;
+}
+
+/** Inline editor for the playbook's topics and questions */
+export function PlaybookQuestionsEditor({ questions, onChange, onReset }: PlaybookQuestionsEditorProps) {
+  const { t } = useI18n();
+
+  const update = (id: string, patch: Partial<PlaybookQuestion>) => {
+    onChange(questions.map((q) => (q.id === id ? { ...q, ...patch } : q)));
+  };
+
+  const inputClassName =
+    "px-3 py-2 rounded-lg border border-stone-200 text-sm text-stone-700 placeholder:text-stone-400 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-300";
+
+  return (
+    <div className="rounded-2xl bg-white border border-stone-200 shadow-sm p-4 space-y-2 animate-fade-in">
+      {questions.map((q) => (
+        <div key={q.id} className="flex items-start gap-2">
+          <input
+            value={q.label}
+            onChange={(e) => update(q.id, { label: e.target.value })}
+            placeholder={t("playbook.labelPlaceholder")}
+            className={`w-48 ${inputClassName}`}
+          />
+          <textarea
+            value={q.question}
+            onChange={(e) => update(q.id, { question: e.target.value })}
+            placeholder={t("playbook.questionPlaceholder")}
+            rows={1}
+            className={`flex-1 resize-y ${inputClassName}`}
+          />
+          <button
+            onClick={() => onChange(questions.filter((other) => other.id !== q.id))}
+            className="p-2 rounded-lg text-stone-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+            title={t("playbook.removeQuestion")}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2 pt-2">
+        <button
+          onClick={() => onChange([...questions, { id: generateId(), label: "", question: "" }])}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          {t("playbook.addQuestion")}
+        </button>
+        <button
+          onClick={onReset}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-stone-500 hover:text-stone-700 hover:bg-stone-100 transition-colors"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          {t("playbook.resetQuestions")}
+        </button>
+      </div>
+    </div>
+  );
+}
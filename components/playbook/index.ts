@@ -0,0 +1,2 @@
+export { PlaybookGrid } from "./PlaybookGrid";
+export { PlaybookQuestionsEditor } from "./PlaybookQuestionsEditor";
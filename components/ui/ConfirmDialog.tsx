@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, type ReactNode } from "react";
+import { AlertTriangle } from "lucide-react";
+import { useI18n } from "@/components/layout/I18nProvider";
+import { Button } from "./Button";
+
+interface ConfirmDialogProps {
+  title: string;
+  description?: ReactNode;
+  confirmLabel?: string;
+  isLoading?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/** Modal confirmation for destructive actions */
+export function ConfirmDialog({
+  title,
+  description,
+  confirmLabel,
+  isLoading = false,
+  onConfirm,
+  onCancel,
+}: ConfirmDialogProps) {
+  const { t } = useI18n();
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !isLoading) onCancel();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [isLoading, onCancel]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-stone-900/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in"
+      onClick={() => !isLoading && onCancel()}
+    >
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="confirm-dialog-title"
+        className="w-full max-w-md bg-white rounded-2xl shadow-2xl border border-stone-200 p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start gap-4">
+          <div className="w-10 h-10 rounded-xl bg-red-50 flex items-center justify-center flex-shrink-0">
+            <AlertTriangle className="w-5 h-5 text-red-600" />
+          </div>
+          <div className="min-w-0">
+            <h3 id="confirm-dialog-title" className="font-semibold text-stone-800">
+              {title}
+            </h3>
+            {description && (
+              <div className="mt-1.5 text-sm text-stone-500 leading-relaxed">{description}</div>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <Button variant="ghost" onClick={onCancel} disabled={isLoading}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            autoFocus
+            onClick={onConfirm}
+            isLoading={isLoading}
+            className="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+          >
+            {confirmLabel ?? t("common.delete")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
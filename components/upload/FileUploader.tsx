@@ -1,29 +1,46 @@
 "use client";
 
 import { useState, useCallback, useRef } from "react";
-import { Upload, FileText, CheckCircle, AlertCircle, Loader2 } from "lucide-react";
-import { cn, formatFileSize } from "@/lib/utils";
-import { getUploadStreamUrl } from "@/lib/api";
-import { useAgentStream } from "@/lib/useAgentStream";
+import { Upload, FileText, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useUploadQueue } from "@/lib/useUploadQueue";
+import { useUploadPreflight } from "@/lib/useUploadPreflight";
 import type { DocumentInfo } from "@/lib/types";
+import { UploadQueue } from "./UploadQueue";
+import { PreflightStatus } from "./PreflightStatus";
+import { useI18n } from "@/components/layout/I18nProvider";
 
 interface FileUploaderProps {
   onDocumentUploaded: (doc: DocumentInfo) => void;
+  /** Indexed documents, to warn about uploading one again */
+  documents?: DocumentInfo[];
+  /** Maximum number of simultaneous uploads */
+  concurrency?: number;
+  /** Block new uploads, e.g. while the backend is unavailable */
+  disabled?: boolean;
 }
 
-export function FileUploader({ onDocumentUploaded }: FileUploaderProps) {
+export function FileUploader({
+  onDocumentUploaded,
+  documents,
+  concurrency,
+  disabled = false,
+}: FileUploaderProps) {
+  const { t, tn } = useI18n();
   const [isDragOver, setIsDragOver] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const { isLoading, status, error, isComplete, startStream, reset } =
-    useAgentStream({
-      onComplete: (data) => {
-        if (data) {
-          onDocumentUploaded(data);
-        }
-      },
-    });
+  const { items, summary, enqueue, cancel, retry, remove, clearFinished } =
+    useUploadQueue({ t, onDocumentUploaded, concurrency });
+  const {
+    files: selectedFiles,
+    addFiles,
+    removeFile,
+    clear: handleReset,
+    isChecking,
+    readyFiles,
+    skippedCount,
+  } = useUploadPreflight(documents);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -38,41 +55,23 @@ export function FileUploader({ onDocumentUploaded }: FileUploaderProps) {
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
-
-    const file = e.dataTransfer.files[0];
-    if (file && file.type === "application/pdf") {
-      setSelectedFile(file);
-      reset();
-    }
-  }, [reset]);
+    addFiles(Array.from(e.dataTransfer.files));
+  }, [addFiles]);
 
   const handleFileSelect = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file) {
-        setSelectedFile(file);
-        reset();
-      }
+      addFiles(Array.from(e.target.files ?? []));
+      // Allow picking the same file again later
+      e.target.value = "";
     },
-    [reset]
+    [addFiles]
   );
 
-  const handleUpload = useCallback(async () => {
-    if (!selectedFile) return;
-
-    const formData = new FormData();
-    formData.append("file", selectedFile);
-
-    await startStream(getUploadStreamUrl(), formData);
-  }, [selectedFile, startStream]);
-
-  const handleReset = useCallback(() => {
-    setSelectedFile(null);
-    reset();
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
-  }, [reset]);
+  const handleUpload = useCallback(() => {
+    if (disabled || isChecking) return;
+    enqueue(readyFiles);
+    handleReset();
+  }, [readyFiles, isChecking, disabled, enqueue, handleReset]);
 
   return (
     <div className="w-full">
@@ -86,100 +85,87 @@ export function FileUploader({ onDocumentUploaded }: FileUploaderProps) {
           "relative border-2 border-dashed rounded-xl p-12 text-center cursor-pointer transition-all",
           isDragOver
             ? "border-accent-500 bg-accent-50"
-            : "border-slate-300 hover:border-slate-400 bg-white",
-          isLoading && "pointer-events-none opacity-70"
+            : "border-slate-300 hover:border-slate-400 bg-white"
         )}
       >
         <input
           ref={fileInputRef}
           type="file"
           accept=".pdf"
+          multiple
           onChange={handleFileSelect}
           className="hidden"
         />
 
-        {!selectedFile ? (
-          <>
-            <Upload className="w-12 h-12 mx-auto mb-4 text-slate-400" />
-            <p className="text-lg font-medium text-slate-700 mb-1">
-              Drop your PDF here
-            </p>
-            <p className="text-sm text-slate-500">
-              or click to browse • PDF files only
-            </p>
-          </>
-        ) : (
-          <div className="flex items-center justify-center gap-4">
-            <div className="w-12 h-12 rounded-lg bg-accent-100 flex items-center justify-center">
-              <FileText className="w-6 h-6 text-accent-600" />
-            </div>
-            <div className="text-left">
-              <p className="font-medium text-slate-800 truncate max-w-xs">
-                {selectedFile.name}
-              </p>
-              <p className="text-sm text-slate-500">
-                {formatFileSize(selectedFile.size)}
-              </p>
-            </div>
-          </div>
-        )}
+        <Upload className="w-12 h-12 mx-auto mb-4 text-slate-400" />
+        <p className="text-lg font-medium text-slate-700 mb-1">
+          {t("upload.dropTitle")}
+        </p>
+        <p className="text-sm text-slate-500">
+          {t("upload.dropHint")}
+        </p>
       </div>
 
-      {/* Status / Progress */}
-      {(isLoading || error || isComplete) && (
-        <div className="mt-4 p-4 rounded-lg bg-slate-50 border border-slate-200">
-          <div className="flex items-center gap-3">
-            {isLoading && (
-              <>
-                <Loader2 className="w-5 h-5 text-accent-600 animate-spin" />
-                <span className="text-sm text-slate-600">{status || "Processing..."}</span>
-              </>
-            )}
-            {error && (
-              <>
-                <AlertCircle className="w-5 h-5 text-red-500" />
-                <span className="text-sm text-red-600">{error}</span>
-              </>
-            )}
-            {isComplete && !error && (
-              <>
-                <CheckCircle className="w-5 h-5 text-green-500" />
-                <span className="text-sm text-green-600">
-                  Document indexed successfully!
-                </span>
-              </>
-            )}
-          </div>
+      {/* Selected Files */}
+      {selectedFiles.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {selectedFiles.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex items-center gap-3 p-3 rounded-lg bg-white border border-slate-200"
+            >
+              <div className="w-9 h-9 rounded-lg bg-accent-100 flex items-center justify-center flex-shrink-0">
+                <FileText className="w-4 h-4 text-accent-600" />
+              </div>
+              <div className="flex-1 min-w-0 text-left">
+                <p className="text-sm font-medium text-slate-800 truncate">{entry.file.name}</p>
+                <div className="text-xs text-slate-500">
+                  <PreflightStatus entry={entry} />
+                </div>
+              </div>
+              <button
+                onClick={() => removeFile(entry.id)}
+                className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
         </div>
       )}
 
       {/* Actions */}
-      {selectedFile && !isLoading && !isComplete && (
-        <div className="mt-4 flex gap-3">
+      {selectedFiles.length > 0 && (
+        <div className="mt-4 flex items-center gap-3">
           <button
             onClick={handleUpload}
-            className="flex-1 px-4 py-2.5 bg-accent-600 text-white font-medium rounded-lg hover:bg-accent-700 transition-colors"
+            disabled={disabled || isChecking || readyFiles.length === 0}
+            className="flex-1 px-4 py-2.5 bg-accent-600 text-white font-medium rounded-lg hover:bg-accent-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            Upload & Index
+            {tn("upload.uploadAndIndex", readyFiles.length)}
           </button>
+          {skippedCount > 0 && (
+            <span className="text-sm text-slate-500">{tn("preflight.skipped", skippedCount)}</span>
+          )}
           <button
             onClick={handleReset}
             className="px-4 py-2.5 text-slate-600 font-medium rounded-lg hover:bg-slate-100 transition-colors"
           >
-            Cancel
+            {t("common.cancel")}
           </button>
         </div>
       )}
 
-      {error && (
-        <button
-          onClick={handleReset}
-          className="mt-3 text-sm text-slate-500 hover:text-slate-700 underline"
-        >
-          Try again
-        </button>
-      )}
+      {/* Queue / Progress */}
+      <UploadQueue
+        className="mt-4"
+        items={items}
+        summary={summary}
+        onCancel={cancel}
+        onRetry={retry}
+        onRemove={remove}
+        onClearFinished={clearFinished}
+      />
     </div>
   );
 }
-
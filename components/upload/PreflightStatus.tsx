@@ -0,0 +1,64 @@
+"use client";
+
+import { Loader2, AlertCircle, AlertTriangle } from "lucide-react";
+import { cn, formatFileSize } from "@/lib/utils";
+import { MAX_UPLOAD_BYTES } from "@/lib/config";
+import { MAX_UPLOAD_PAGES, type PreflightIssue } from "@/lib/uploadPreflight";
+import type { PreflightFile } from "@/lib/useUploadPreflight";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface PreflightStatusProps {
+  entry: PreflightFile;
+}
+
+/** Size, page count and check results of a file waiting for upload */
+export function PreflightStatus({ entry }: PreflightStatusProps) {
+  const { t, tn } = useI18n();
+  const { file, result, duplicateOf } = entry;
+
+  const issueText = (issue: PreflightIssue) => {
+    switch (issue.code) {
+      case "tooLarge":
+        return t("preflight.tooLarge", { limit: formatFileSize(MAX_UPLOAD_BYTES) });
+      case "tooManyPages":
+        return t("preflight.tooManyPages", { pages: result?.pageCount ?? 0, limit: MAX_UPLOAD_PAGES });
+      default:
+        return t(`preflight.${issue.code}`);
+    }
+  };
+
+  const line = (severity: PreflightIssue["severity"], text: string, key: string) => {
+    const Icon = severity === "error" ? AlertCircle : AlertTriangle;
+    return (
+      <p
+        key={key}
+        className={cn(
+          "flex items-center gap-1",
+          severity === "error" ? "text-red-600" : "text-amber-600"
+        )}
+      >
+        <Icon className="w-3 h-3 flex-shrink-0" />
+        <span className="truncate">{text}</span>
+      </p>
+    );
+  };
+
+  return (
+    <div className="space-y-0.5">
+      <p className="flex items-center gap-1">
+        {formatFileSize(file.size)}
+        {result?.pageCount != null && ` · ${tn("common.pages", result.pageCount)}`}
+        {!result && (
+          <>
+            {" · "}
+            <Loader2 className="w-3 h-3 animate-spin" />
+            {t("preflight.checking")}
+          </>
+        )}
+      </p>
+      {result?.issues.map((issue) => line(issue.severity, issueText(issue), issue.code))}
+      {duplicateOf &&
+        line("warning", t("preflight.duplicate", { name: duplicateOf.filename }), "duplicate")}
+    </div>
+  );
+}
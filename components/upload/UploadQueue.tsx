@@ -0,0 +1,163 @@
+"use client";
+
+import {
+  CheckCircle,
+  AlertCircle,
+  Loader2,
+  X,
+  RotateCcw,
+  Clock,
+  Ban,
+} from "lucide-react";
+import type { UploadItem } from "@/lib/types";
+import type { UploadSummary } from "@/lib/useUploadQueue";
+import type { Translator } from "@/lib/i18n";
+import { cn, formatFileSize } from "@/lib/utils";
+import { useI18n } from "@/components/layout/I18nProvider";
+
+interface UploadQueueProps {
+  items: UploadItem[];
+  summary: UploadSummary;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  className?: string;
+}
+
+function statusText(item: UploadItem, t: Translator["t"]): string {
+  switch (item.status) {
+    case "queued":
+      return t("upload.waiting");
+    case "uploading":
+      return item.progress || t("upload.processing");
+    case "done":
+      return t("upload.done");
+    case "error":
+      return item.error || t("upload.failed");
+    case "cancelled":
+      return t("upload.cancelled");
+  }
+}
+
+export function UploadQueue({
+  items,
+  summary,
+  onCancel,
+  onRetry,
+  onRemove,
+  onClearFinished,
+  className,
+}: UploadQueueProps) {
+  const { t } = useI18n();
+  if (items.length === 0) return null;
+
+  const finished = summary.total - summary.active;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {/* Summary */}
+      <div className="flex items-center justify-between text-xs text-stone-500">
+        <span>
+          {summary.active > 0 && t("upload.inProgress", { count: summary.active })}
+          <span className="text-emerald-600">{t("upload.indexed", { count: summary.succeeded })}</span>
+          {summary.failed > 0 && (
+            <span className="text-red-600">{t("upload.failedCount", { count: summary.failed })}</span>
+          )}
+          {t("upload.ofTotal", { total: summary.total })}
+        </span>
+        {finished > 0 && (
+          <button
+            onClick={onClearFinished}
+            className="text-stone-400 hover:text-stone-600 underline"
+          >
+            {t("upload.clearFinished")}
+          </button>
+        )}
+      </div>
+
+      {/* Items */}
+      <div className="max-h-64 overflow-y-auto space-y-1.5">
+        {items.map((item) => (
+          <div
+            key={item.id}
+            className={cn(
+              "flex items-center gap-3 p-2.5 rounded-xl border animate-fade-in",
+              item.status === "error"
+                ? "bg-red-50 border-red-200"
+                : item.status === "done"
+                  ? "bg-emerald-50 border-emerald-200"
+                  : "bg-stone-50 border-stone-200"
+            )}
+          >
+            <div
+              className={cn(
+                "w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0",
+                item.status === "error"
+                  ? "bg-red-100"
+                  : item.status === "done"
+                    ? "bg-emerald-100"
+                    : "bg-indigo-100"
+              )}
+            >
+              {item.status === "done" ? (
+                <CheckCircle className="w-4 h-4 text-emerald-600" />
+              ) : item.status === "error" ? (
+                <AlertCircle className="w-4 h-4 text-red-600" />
+              ) : item.status === "uploading" ? (
+                <Loader2 className="w-4 h-4 text-indigo-600 animate-spin" />
+              ) : item.status === "queued" ? (
+                <Clock className="w-4 h-4 text-indigo-600" />
+              ) : (
+                <Ban className="w-4 h-4 text-stone-400" />
+              )}
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-stone-800 truncate">
+                {item.file.name}
+              </p>
+              <p
+                className={cn(
+                  "text-xs truncate",
+                  item.status === "error" ? "text-red-600" : "text-stone-500"
+                )}
+              >
+                {formatFileSize(item.file.size)} · {statusText(item, t)}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-1">
+              {(item.status === "error" || item.status === "cancelled") && (
+                <button
+                  onClick={() => onRetry(item.id)}
+                  className="p-1.5 text-stone-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                  title={t("common.retry")}
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+              {item.status === "queued" || item.status === "uploading" ? (
+                <button
+                  onClick={() => onCancel(item.id)}
+                  className="p-1.5 text-stone-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                  title={t("upload.cancel")}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  onClick={() => onRemove(item.id)}
+                  className="p-1.5 text-stone-400 hover:text-stone-600 hover:bg-stone-100 rounded-lg transition-colors"
+                  title={t("upload.remove")}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,2 +1,3 @@
 export { FileUploader } from "./FileUploader";
-
+export { PreflightStatus } from "./PreflightStatus";
+export { UploadQueue } from "./UploadQueue";
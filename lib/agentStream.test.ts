@@ -0,0 +1,77 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { runAgentStream } from "./agentStream";
+
+const realFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+/** SSE response sending `chunks` as separate reads, then closing */
+function sseResponse(chunks: (string | Uint8Array)[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk);
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+const event = (id: number, type: string, data: unknown) =>
+  `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+
+test("resumes a dropped stream after the last event id without losing or repeating tokens", async () => {
+  const lastEventIds: (string | null)[] = [];
+  globalThis.fetch = async (_input, init) => {
+    lastEventIds.push(new Headers(init?.headers).get("Last-Event-ID"));
+    // The first connection drops before the terminal event
+    return lastEventIds.length === 1
+      ? sseResponse(["retry: 0\n\n", event(1, "token", "Hello"), event(2, "token", ", ")])
+      : sseResponse([event(3, "token", "world"), event(4, "done", null)]);
+  };
+
+  const tokens: string[] = [];
+  const statuses: string[] = [];
+  let completed = false;
+  let ended = false;
+  await runAgentStream("/query", "{}", {
+    reconnectingStatus: "Reconnecting…",
+    onToken: (token) => tokens.push(token),
+    onStatus: (status) => statuses.push(status),
+    onComplete: () => (completed = true),
+    onEnd: () => (ended = true),
+    onError: (error) => assert.fail(error),
+  });
+
+  assert.deepEqual(lastEventIds, [null, "2"]);
+  assert.equal(tokens.join(""), "Hello, world");
+  assert.deepEqual(statuses, ["Reconnecting…"]);
+  assert.equal(completed, true);
+  assert.equal(ended, false);
+});
+
+test("decodes multi-byte characters split across chunks", async () => {
+  const bytes = new TextEncoder().encode(event(1, "token", "§ 2 — Términos") + event(2, "done", null));
+  const split = bytes.indexOf(0xc3) + 1;
+  globalThis.fetch = async () => sseResponse([bytes.subarray(0, split), bytes.subarray(split)]);
+
+  const tokens: string[] = [];
+  await runAgentStream("/query", "{}", { onToken: (token) => tokens.push(token) });
+  assert.deepEqual(tokens, ["§ 2 — Términos"]);
+});
+
+test("reports the end of a stream that cannot be resumed", async () => {
+  globalThis.fetch = async () => sseResponse([event(1, "token", "Hel")]);
+
+  let ended = false;
+  await runAgentStream("/query", "{}", {
+    maxReconnectAttempts: 0,
+    onEnd: () => (ended = true),
+  });
+  assert.equal(ended, true);
+});
@@ -0,0 +1,186 @@
+/**
+ * Framework-independent runner for agent SSE streams.
+ * Decodes and validates events, dispatches them to handlers and resumes dropped
+ * connections with `Last-Event-ID`. Used by `useAgentStream` and by
+ * callers that need several concurrent streams (e.g. the upload queue).
+ */
+
+import type { Citation, DocumentInfo, SSEEvent } from "./types";
+import { ApiError, contractError, handleUnauthorized } from "./api";
+import { authHeaders } from "./auth";
+import { parseErrorBody, parseSSEEvent, SchemaError } from "./schemas";
+import { SSEDecoder, type SSEMessage } from "./sseDecoder";
+
+const DEFAULT_MAX_RECONNECTS = 3;
+const DEFAULT_RETRY_MS = 1000;
+
+export interface AgentStreamHandlers {
+  onStatus?: (status: string) => void;
+  onReasoning?: (reasoning: string) => void;
+  onCitation?: (citation: Citation) => void;
+  onToken?: (token: string) => void;
+  onComplete?: (data?: DocumentInfo) => void;
+  /** `cause` is set for HTTP failures and contract violations */
+  onError?: (error: string, cause?: ApiError) => void;
+  /** Stream ended without a terminal event and could not be resumed */
+  onEnd?: () => void;
+}
+
+export interface AgentStreamOptions extends AgentStreamHandlers {
+  signal?: AbortSignal;
+  /** Reconnect attempts after a dropped stream (default 3) */
+  maxReconnectAttempts?: number;
+  /** Status reported through `onStatus` while reconnecting, in the interface language */
+  reconnectingStatus?: string;
+}
+
+/**
+ * POST `body` to `url` and dispatch the streamed events.
+ * Resolves when the stream finishes, fails or is aborted; failures are
+ * reported through `onError` rather than thrown.
+ */
+export async function runAgentStream(
+  url: string,
+  body: FormData | string | undefined,
+  options: AgentStreamOptions = {}
+): Promise<void> {
+  const { signal } = options;
+  const isFormData = body instanceof FormData;
+  const sse = new SSEDecoder();
+  const maxReconnects = options.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECTS;
+  let reconnects = 0;
+  // A 401 is retried once after renewing the session, outside the reconnect budget
+  let authRetried = false;
+  // Set once a terminal "done" or "error" event has been handled
+  let finished = false;
+
+  const handleMessage = ({ event: type, data }: SSEMessage, status: number) => {
+    let event: SSEEvent | null;
+    try {
+      event = parseSSEEvent(type, data);
+    } catch (error) {
+      if (error instanceof SchemaError) throw contractError(error, `"${type}" event`, status);
+      throw error;
+    }
+    if (!event) return;
+
+    switch (event.event) {
+      case "status":
+        options.onStatus?.(event.data);
+        break;
+
+      case "reasoning":
+        options.onReasoning?.(event.data);
+        break;
+
+      case "citation":
+        options.onCitation?.(event.data);
+        break;
+
+      case "token":
+        options.onToken?.(event.data);
+        break;
+
+      case "error":
+        finished = true;
+        options.onError?.(event.data);
+        break;
+
+      case "done":
+        finished = true;
+        options.onComplete?.(event.data ?? undefined);
+        break;
+    }
+  };
+
+  while (true) {
+    let failure: unknown = null;
+
+    try {
+      const headers: Record<string, string> = await authHeaders();
+      if (!isFormData && body) {
+        headers["Content-Type"] = "application/json";
+      }
+      // Ask the server to resume after the last event we processed
+      if (sse.lastEventId) {
+        headers["Last-Event-ID"] = sse.lastEventId;
+      }
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body,
+        signal,
+      });
+
+      if (response.status === 401) {
+        authRetried = await handleUnauthorized(authRetried);
+        continue;
+      }
+
+      if (!response.ok) {
+        const errorData = parseErrorBody(await response.json().catch(() => null));
+        throw new ApiError(
+          errorData.detail || `HTTP ${response.status}`,
+          response.status,
+          errorData.code
+        );
+      }
+
+      if (!response.body) {
+        throw new Error("Response body is null");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          // The final decode flushes a multi-byte character split by the last chunk
+          const text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+          for (const message of sse.push(text)) {
+            handleMessage(message, response.status);
+          }
+          if (done) break;
+        }
+      } catch (error) {
+        // Stop the download when a payload breaks the contract
+        reader.cancel().catch(() => {});
+        throw error;
+      }
+    } catch (error) {
+      failure = error;
+    }
+
+    // Handle abort (user cancelled)
+    if (signal?.aborted || finished) return;
+
+    // Resuming needs an event ID; HTTP errors are not retried
+    const canResume =
+      sse.lastEventId !== "" &&
+      reconnects < maxReconnects &&
+      !(failure instanceof ApiError);
+
+    if (!canResume) {
+      if (failure) {
+        options.onError?.(
+          failure instanceof Error ? failure.message : "Stream connection failed",
+          failure instanceof ApiError ? failure : undefined
+        );
+      } else {
+        options.onEnd?.();
+      }
+      return;
+    }
+
+    reconnects += 1;
+    sse.reset();
+    if (options.reconnectingStatus) options.onStatus?.(options.reconnectingStatus);
+
+    const delay = sse.retry ?? DEFAULT_RETRY_MS * reconnects;
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    if (signal?.aborted) return;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Helpers for keeping earlier versions of an assistant answer.
+ */
+
+import type { AnswerVersion, Message } from "./types";
+import { closeTrace } from "./trace";
+
+/** Capture the displayed answer as a version */
+export function snapshotAnswer(message: Message, query: string): AnswerVersion {
+  return {
+    query,
+    content: message.content,
+    citations: message.citations,
+    reasoning: message.reasoning,
+    trace: message.trace,
+    isError: message.isError,
+    isInterrupted: message.isInterrupted,
+    droppedTurns: message.droppedTurns,
+    documentIds: message.documentIds,
+    timestamp: message.timestamp,
+  };
+}
+
+/** Reset an answer for a fresh generation, keeping what it showed before */
+export function startNewVersion(
+  message: Message,
+  previousQuery: string,
+  droppedTurns: number,
+  documentIds: string[]
+): Message {
+  const versions = message.versions ?? [snapshotAnswer(message, previousQuery)];
+  return {
+    id: message.id,
+    role: "assistant",
+    content: "",
+    citations: [],
+    isStreaming: true,
+    droppedTurns,
+    documentIds,
+    versions,
+    versionIndex: versions.length,
+    timestamp: new Date(),
+  };
+}
+
+/** Record the finished generation as the newest version, if versions are tracked */
+export function finalizeVersion(message: Message, query: string): Partial<Message> {
+  if (!message.versions) return {};
+  const versions = [...message.versions, snapshotAnswer(message, query)];
+  return { versions, versionIndex: versions.length - 1 };
+}
+
+/** Settle a streamed answer with `updates` and record it as a version */
+export function settleAnswer(message: Message, query: string, updates: Partial<Message> = {}): Message {
+  const finished: Message = {
+    ...message,
+    isStreaming: false,
+    status: undefined,
+    trace: closeTrace(message.trace),
+    ...updates,
+  };
+  return { ...finished, ...finalizeVersion(finished, query) };
+}
+
+/** Question the displayed version answered, if versions are tracked */
+export function displayedQuery(message: Message): string | undefined {
+  return message.versions?.[message.versionIndex ?? 0]?.query;
+}
+
+/** Display another stored version of an answer */
+export function selectVersion(message: Message, index: number): Message {
+  const version = message.versions?.[index];
+  if (!version || message.isStreaming) return message;
+
+  const { query: _query, ...fields } = version;
+  return {
+    ...message,
+    reasoning: undefined,
+    trace: undefined,
+    isError: undefined,
+    isInterrupted: undefined,
+    droppedTurns: undefined,
+    documentIds: undefined,
+    ...fields,
+    versionIndex: index,
+  };
+}
@@ -2,9 +2,22 @@
  * Typed API client for LexVisual backend.
  */
 
-import type { DocumentInfo, HealthResponse } from "./types";
+import type { DocumentInfo, FeedbackRecord, HealthResponse } from "./types";
+import {
+  anything,
+  documentInfoSchema,
+  documentListSchema,
+  healthResponseSchema,
+  parse,
+  parseErrorBody,
+  SchemaError,
+  type Schema,
+} from "./schemas";
+import { API_URL } from "./config";
+import { authHeaders, redirectToLogin, refreshAuth } from "./auth";
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000";
+/** `ApiError.code` for responses that do not match the expected schema */
+export const CONTRACT_VIOLATION = "contract_violation";
 
 /** API error with status code */
 export class ApiError extends Error {
@@ -18,24 +31,51 @@ export class ApiError extends Error {
   }
 }
 
-/** Generic fetch wrapper with error handling */
+/** Wrap a schema failure as an ApiError naming the payload */
+export function contractError(error: SchemaError, label: string, status = 0): ApiError {
+  return new ApiError(`Unexpected ${label} from server (${error.message})`, status, CONTRACT_VIOLATION);
+}
+
+/** `ApiError.code` when the session expired and could not be renewed */
+export const UNAUTHORIZED = "unauthorized";
+
+/**
+ * Handle a 401: try to renew the session once.
+ * Resolves true if the request should be retried; otherwise sends the
+ * user to the login page and throws.
+ */
+export async function handleUnauthorized(alreadyRetried: boolean): Promise<true> {
+  if (!alreadyRetried && (await refreshAuth())) return true;
+  redirectToLogin();
+  throw new ApiError("Your session has expired. Please sign in again.", 401, UNAUTHORIZED);
+}
+
+/** Generic fetch wrapper with auth, error handling and response validation */
 async function apiFetch<T>(
   endpoint: string,
+  schema: Schema<T>,
   options?: RequestInit
 ): Promise<T> {
   const url = `${API_URL}/api${endpoint}`;
 
   try {
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        "Content-Type": "application/json",
-        ...options?.headers,
-      },
-    });
+    let response: Response;
+    let retried = false;
+    while (true) {
+      response = await fetch(url, {
+        ...options,
+        headers: {
+          "Content-Type": "application/json",
+          ...(await authHeaders()),
+          ...options?.headers,
+        },
+      });
+      if (response.status !== 401) break;
+      retried = await handleUnauthorized(retried);
+    }
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
+      const errorData = parseErrorBody(await response.json().catch(() => null));
       throw new ApiError(
         errorData.detail || `Request failed with status ${response.status}`,
         response.status,
@@ -43,7 +83,16 @@ async function apiFetch<T>(
       );
     }
 
-    return response.json();
+    // No Content responses have no body to parse
+    const body = response.status === 204 ? null : await response.json();
+    try {
+      return parse(schema, body);
+    } catch (error) {
+      if (error instanceof SchemaError) {
+        throw contractError(error, `response to ${endpoint}`, response.status);
+      }
+      throw error;
+    }
   } catch (error) {
     if (error instanceof ApiError) throw error;
     throw new ApiError(
@@ -54,18 +103,37 @@ async function apiFetch<T>(
 }
 
 /** Check API health status */
-export async function checkHealth(): Promise<HealthResponse> {
-  return apiFetch<HealthResponse>("/health");
+export async function checkHealth(signal?: AbortSignal): Promise<HealthResponse> {
+  return apiFetch("/health", healthResponseSchema, { signal });
 }
 
 /** Get list of indexed documents */
 export async function getDocuments(): Promise<DocumentInfo[]> {
-  return apiFetch<DocumentInfo[]>("/documents");
+  return apiFetch("/documents", documentListSchema);
 }
 
 /** Delete a document */
 export async function deleteDocument(documentId: string): Promise<void> {
-  await apiFetch(`/documents/${documentId}`, { method: "DELETE" });
+  await apiFetch(`/documents/${documentId}`, anything, { method: "DELETE" });
+}
+
+/** Rename a document; returns the updated document */
+export async function renameDocument(
+  documentId: string,
+  filename: string
+): Promise<DocumentInfo> {
+  return apiFetch(`/documents/${documentId}`, documentInfoSchema, {
+    method: "PATCH",
+    body: JSON.stringify({ filename }),
+  });
+}
+
+/** Record feedback on an answer; the backend upserts by `record.id` */
+export async function submitFeedback(record: FeedbackRecord): Promise<void> {
+  await apiFetch("/feedback", anything, {
+    method: "POST",
+    body: JSON.stringify(record),
+  });
 }
 
 /** Upload document - returns SSE stream URL */
@@ -78,3 +146,8 @@ export function getQueryStreamUrl(): string {
   return `${API_URL}/api/query`;
 }
 
+
+/** Rendered page image for a document (1-based page number) */
+export function getPageImageUrl(documentId: string, page: number): string {
+  return `${API_URL}/api/documents/${encodeURIComponent(documentId)}/pages/${page}`;
+}
@@ -0,0 +1,193 @@
+/**
+ * Authentication: login, token storage and refresh.
+ *
+ * The access token lives in a cookie so that middleware can gate routes
+ * and page image requests carry it. The refresh token stays in
+ * localStorage and is only sent to the refresh endpoint. A long-lived
+ * session cookie tells middleware a refresh is possible after the access
+ * token expires.
+ */
+
+import { API_URL } from "./config";
+import { parse, parseErrorBody, authResponseSchema, SchemaError } from "./schemas";
+
+export const ACCESS_TOKEN_COOKIE = "lexvisual_access_token";
+export const SESSION_COOKIE = "lexvisual_session";
+export const LOGIN_PATH = "/login";
+
+const STORAGE_KEY = "lexvisual.auth";
+/** Refresh this long before the access token expires */
+const EXPIRY_MARGIN_MS = 30_000;
+const DEFAULT_EXPIRES_IN_S = 3600;
+/** Session cookie lifetime when the backend does not say */
+const SESSION_MAX_AGE_S = 30 * 24 * 3600;
+
+interface StoredAuth {
+  accessToken: string;
+  refreshToken?: string;
+  /** Access token expiry, ms since epoch */
+  expiresAt: number;
+  email?: string;
+}
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+function setCookie(name: string, value: string, maxAgeSeconds: number) {
+  const secure = window.location.protocol === "https:" ? "; Secure" : "";
+  document.cookie = `${name}=${encodeURIComponent(value)}; Path=/; Max-Age=${maxAgeSeconds}; SameSite=Lax${secure}`;
+}
+
+function deleteCookie(name: string) {
+  document.cookie = `${name}=; Path=/; Max-Age=0; SameSite=Lax`;
+}
+
+function readStored(): StoredAuth | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredAuth) : null;
+  } catch {
+    return null;
+  }
+}
+
+function store(auth: StoredAuth) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(auth));
+  setCookie(
+    ACCESS_TOKEN_COOKIE,
+    auth.accessToken,
+    Math.max(0, Math.floor((auth.expiresAt - Date.now()) / 1000))
+  );
+  if (auth.refreshToken) {
+    setCookie(SESSION_COOKIE, "1", SESSION_MAX_AGE_S);
+  }
+}
+
+/** Forget all tokens locally */
+export function clearAuth(): void {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(STORAGE_KEY);
+  deleteCookie(ACCESS_TOKEN_COOKIE);
+  deleteCookie(SESSION_COOKIE);
+}
+
+/** Email of the signed-in user, if known */
+export function getCurrentUserEmail(): string | null {
+  return readStored()?.email ?? null;
+}
+
+async function requestTokens(endpoint: string, body: object, email?: string): Promise<StoredAuth> {
+  const response = await fetch(`${API_URL}/api/auth/${endpoint}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new AuthError(
+      parseErrorBody(data).detail || `Authentication failed with status ${response.status}`,
+      response.status
+    );
+  }
+
+  try {
+    const tokens = parse(authResponseSchema, data, `${endpoint} response`);
+    return {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      expiresAt: Date.now() + (tokens.expires_in ?? DEFAULT_EXPIRES_IN_S) * 1000,
+      email,
+    };
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw new AuthError(`Unexpected response from server (${error.message})`, response.status);
+    }
+    throw error;
+  }
+}
+
+/** Sign in and store the returned tokens */
+export async function login(email: string, password: string): Promise<void> {
+  store(await requestTokens("login", { email, password }, email));
+}
+
+let refreshPromise: Promise<boolean> | null = null;
+
+/**
+ * Exchange the refresh token for a new access token.
+ * Concurrent callers share one request. Resolves false when the session
+ * cannot be renewed.
+ */
+export function refreshAuth(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const current = readStored();
+      if (!current?.refreshToken) return false;
+      try {
+        const renewed = await requestTokens("refresh", { refresh_token: current.refreshToken });
+        store({
+          ...renewed,
+          // Backends may not rotate refresh tokens
+          refreshToken: renewed.refreshToken ?? current.refreshToken,
+          email: current.email,
+        });
+        return true;
+      } catch (error) {
+        console.error("Failed to refresh session:", error);
+        return false;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+/** Current access token, refreshed first when about to expire */
+export async function getAccessToken(): Promise<string | null> {
+  const current = readStored();
+  if (!current) return null;
+  if (current.expiresAt - Date.now() > EXPIRY_MARGIN_MS) return current.accessToken;
+  return (await refreshAuth()) ? readStored()?.accessToken ?? null : null;
+}
+
+/** Authorization header for API and stream requests */
+export async function authHeaders(): Promise<Record<string, string>> {
+  const token = await getAccessToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/** Drop the session and send the user to the login page, returning here after */
+export function redirectToLogin(): void {
+  clearAuth();
+  const { pathname, search } = window.location;
+  if (pathname === LOGIN_PATH) return;
+  const next = encodeURIComponent(pathname + search);
+  window.location.assign(`${LOGIN_PATH}?next=${next}`);
+}
+
+/** Sign out on the server (best effort) and locally */
+export async function logout(): Promise<void> {
+  const current = readStored();
+  if (current) {
+    await fetch(`${API_URL}/api/auth/logout`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${current.accessToken}`,
+      },
+      body: JSON.stringify({ refresh_token: current.refreshToken }),
+    }).catch(() => {});
+  }
+  clearAuth();
+  window.location.assign(LOGIN_PATH);
+}
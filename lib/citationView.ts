@@ -0,0 +1,114 @@
+/**
+ * Filtering, sorting, grouping and deduplication of an answer's citations
+ * for display.
+ */
+
+import type { Citation } from "./types";
+
+export type CitationSort = "score" | "page";
+
+export interface CitationViewOptions {
+  /** Hide citations scoring below this (0–1) */
+  minScore: number;
+  sort: CitationSort;
+  groupByDocument: boolean;
+}
+
+export const DEFAULT_CITATION_VIEW: CitationViewOptions = {
+  minScore: 0,
+  sort: "score",
+  groupByDocument: false,
+};
+
+/** A displayed citation and its position in the original list */
+export interface CitationEntry {
+  citation: Citation;
+  index: number;
+  /** Other citations of the same page merged into this one */
+  duplicates: number;
+}
+
+export interface CitationGroup {
+  /** Null when not grouping by document */
+  documentId: string | null;
+  entries: CitationEntry[];
+}
+
+export interface CitationView {
+  groups: CitationGroup[];
+  /** Deduplicated citations, in original order */
+  unique: CitationEntry[];
+  hiddenBelowThreshold: number;
+  hiddenDuplicates: number;
+  /** Maps each original index to the index of the entry it was merged into */
+  canonicalIndex: number[];
+}
+
+/**
+ * Collapse repeated document/page pairs into their first occurrence, keeping
+ * the best score and all highlights, then apply `options`.
+ */
+export function buildCitationView(
+  citations: Citation[],
+  { minScore, sort, groupByDocument }: CitationViewOptions,
+  documentNames: Record<string, string> = {}
+): CitationView {
+  const byPage = new Map<string, CitationEntry>();
+  const unique: CitationEntry[] = [];
+  const canonicalIndex: number[] = [];
+
+  citations.forEach((citation, index) => {
+    const key = `${citation.document_id}:${citation.page}`;
+    const existing = byPage.get(key);
+    if (!existing) {
+      const entry = { citation, index, duplicates: 0 };
+      byPage.set(key, entry);
+      unique.push(entry);
+      canonicalIndex.push(index);
+      return;
+    }
+
+    existing.duplicates += 1;
+    existing.citation = {
+      ...existing.citation,
+      score: Math.max(existing.citation.score, citation.score),
+      highlights:
+        existing.citation.highlights || citation.highlights
+          ? [...(existing.citation.highlights ?? []), ...(citation.highlights ?? [])]
+          : undefined,
+    };
+    canonicalIndex.push(existing.index);
+  });
+
+  const visible = unique.filter((entry) => entry.citation.score >= minScore);
+  const nameOf = (id: string) => documentNames[id] ?? id;
+
+  visible.sort((a, b) =>
+    sort === "score"
+      ? b.citation.score - a.citation.score
+      : a.citation.page - b.citation.page ||
+        nameOf(a.citation.document_id).localeCompare(nameOf(b.citation.document_id))
+  );
+
+  let groups: CitationGroup[];
+  if (groupByDocument) {
+    // Groups appear in the order of their first entry
+    const byDocument = new Map<string, CitationEntry[]>();
+    for (const entry of visible) {
+      const list = byDocument.get(entry.citation.document_id) ?? [];
+      list.push(entry);
+      byDocument.set(entry.citation.document_id, list);
+    }
+    groups = [...byDocument].map(([documentId, entries]) => ({ documentId, entries }));
+  } else {
+    groups = visible.length > 0 ? [{ documentId: null, entries: visible }] : [];
+  }
+
+  return {
+    groups,
+    unique,
+    hiddenBelowThreshold: unique.length - visible.length,
+    hiddenDuplicates: citations.length - unique.length,
+    canonicalIndex,
+  };
+}
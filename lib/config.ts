@@ -0,0 +1,15 @@
+/**
+ * Client configuration shared by the API client and auth.
+ */
+
+/**
+ * API base URL. Empty: requests go to the same-origin proxy under `/api`
+ * (see `app/api`), which forwards them to the backend.
+ */
+export const API_URL = "";
+
+/**
+ * Largest upload checked before sending, from `LEXVISUAL_MAX_UPLOAD_BYTES`
+ * at build time (see next.config.ts). The proxy enforces the runtime value.
+ */
+export const MAX_UPLOAD_BYTES = Number(process.env.NEXT_PUBLIC_MAX_UPLOAD_BYTES) || 50 * 1024 * 1024;
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildConversationHistory } from "./conversation";
+import type { Message } from "./types";
+
+let nextId = 0;
+
+function message(role: Message["role"], content: string, fields: Partial<Message> = {}): Message {
+  return { id: String(nextId++), role, content, timestamp: new Date(0), ...fields };
+}
+
+const turns = (messages: { role: string; content: string }[]) =>
+  messages.map((m) => `${m.role}:${m.content}`);
+
+test("keeps completed question/answer pairs in order", () => {
+  const { history, droppedCount } = buildConversationHistory([
+    message("user", "q1"),
+    message("assistant", "a1"),
+    message("user", "q2"),
+    message("assistant", "a2"),
+  ]);
+  assert.deepEqual(turns(history), ["user:q1", "assistant:a1", "user:q2", "assistant:a2"]);
+  assert.equal(droppedCount, 0);
+});
+
+test("drops a failed or unfinished answer together with its question", () => {
+  const { history } = buildConversationHistory([
+    message("user", "q1"),
+    message("assistant", "Network error", { isError: true }),
+    message("user", "q2"),
+    message("assistant", "a2"),
+    message("user", "q3"),
+    message("assistant", "", { isInterrupted: true }),
+    message("user", "q4"),
+    message("assistant", "partial", { isStreaming: true }),
+  ]);
+  assert.deepEqual(turns(history), ["user:q2", "assistant:a2"]);
+});
+
+test("never starts with an assistant turn when trimming", () => {
+  const { history, droppedCount } = buildConversationHistory(
+    [
+      message("user", "q1"),
+      message("assistant", "a1"),
+      message("user", "q2"),
+      message("assistant", "a2"),
+    ],
+    { maxTurns: 3 }
+  );
+  assert.deepEqual(turns(history), ["user:q2", "assistant:a2"]);
+  assert.equal(droppedCount, 2);
+});
+
+test("pairs an earlier answer version with the question it answered", () => {
+  const versions = [
+    { query: "q1", content: "a1", timestamp: new Date(0) },
+    { query: "q1 edited", content: "a1 edited", timestamp: new Date(0) },
+  ];
+  const { history } = buildConversationHistory([
+    message("user", "q1 edited"),
+    message("assistant", "a1", { versions, versionIndex: 0 }),
+  ]);
+  assert.deepEqual(turns(history), ["user:q1", "assistant:a1"]);
+});
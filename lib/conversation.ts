@@ -0,0 +1,104 @@
+/**
+ * Conversation history trimming for multi-turn queries.
+ */
+
+import type { Citation, CitationRef, ConversationTurn, Message } from "./types";
+import { displayedQuery } from "./answerVersions";
+
+/** Limits applied to the history sent with each query */
+export interface HistoryOptions {
+  /** Maximum number of prior messages (user + assistant) to include */
+  maxTurns: number;
+  /** Approximate token budget for the included messages */
+  maxTokens: number;
+}
+
+export const DEFAULT_HISTORY_OPTIONS: HistoryOptions = {
+  maxTurns: 8,
+  maxTokens: 2000,
+};
+
+/** Result of trimming a conversation */
+export interface TrimmedHistory {
+  history: ConversationTurn[];
+  /** Eligible messages that did not fit in the window or budget */
+  droppedCount: number;
+}
+
+/** Rough token estimate (~4 characters per token) */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Strip citations down to the references sent with history */
+export function toCitationRefs(citations: Citation[]): CitationRef[] {
+  return citations.map(({ document_id, page, score }) => ({ document_id, page, score }));
+}
+
+/**
+ * Convert a chat message to a history turn, without citation images.
+ * A question is sent as the one its displayed answer version responded to,
+ * which differs from the message after an edit when an older version is shown.
+ */
+function toTurn(message: Message, next?: Message): ConversationTurn {
+  const answered =
+    message.role === "user" && next?.role === "assistant" ? displayedQuery(next) : undefined;
+  const turn: ConversationTurn = {
+    role: message.role,
+    content: answered ?? message.content,
+  };
+
+  if (message.citations && message.citations.length > 0) {
+    turn.citations = toCitationRefs(message.citations);
+  }
+
+  return turn;
+}
+
+/** Whether a message finished successfully with content */
+function isCompleted(message: Message): boolean {
+  return Boolean(message.content) && !message.isStreaming && !message.isError;
+}
+
+/**
+ * Build the history for the next query from prior messages.
+ * Keeps the most recent completed turns that fit within both limits.
+ */
+export function buildConversationHistory(
+  messages: Message[],
+  options: Partial<HistoryOptions> = {}
+): TrimmedHistory {
+  const { maxTurns, maxTokens } = { ...DEFAULT_HISTORY_OPTIONS, ...options };
+
+  // Only completed, successful turns carry useful context. A question whose
+  // answer is dropped goes too, so the history never has two user turns in a row
+  const eligible = messages.filter((m, i) => {
+    if (!isCompleted(m)) return false;
+    const next = messages[i + 1];
+    return !(m.role === "user" && next?.role === "assistant" && !isCompleted(next));
+  });
+
+  const history: ConversationTurn[] = [];
+  let tokens = 0;
+
+  for (let i = eligible.length - 1; i >= 0; i--) {
+    if (history.length >= maxTurns) break;
+
+    const turn = toTurn(eligible[i], eligible[i + 1]);
+    const cost = estimateTokens(turn.content);
+    if (tokens + cost > maxTokens) break;
+
+    tokens += cost;
+    history.unshift(turn);
+  }
+
+  // Never start the history with a dangling assistant reply
+  while (history.length > 0 && history[0].role === "assistant") {
+    history.shift();
+  }
+
+  return {
+    history,
+    droppedCount: eligible.length - history.length,
+  };
+}
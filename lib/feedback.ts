@@ -0,0 +1,72 @@
+/**
+ * Answer and citation feedback records, and their export as a JSONL
+ * evaluation set for measuring retrieval quality.
+ */
+
+import type { Citation, CitationLabel, FeedbackReason, FeedbackRecord, Message } from "./types";
+import { downloadBlob } from "./memoExport";
+
+export const FEEDBACK_REASONS: FeedbackReason[] = [
+  "incorrect",
+  "incomplete",
+  "unsupported",
+  "irrelevant_citations",
+  "other",
+];
+
+/** Feedback is kept per answer version; regenerating starts a fresh record */
+export function feedbackId(message: Message): string {
+  return `${message.id}:${message.versionIndex ?? 0}`;
+}
+
+export function createFeedbackRecord(message: Message, query: string, scope: string[]): FeedbackRecord {
+  const citations: FeedbackRecord["citations"] = [];
+  for (const citation of message.citations ?? []) {
+    if (citations.some((c) => c.document_id === citation.document_id && c.page === citation.page)) continue;
+    citations.push({
+      document_id: citation.document_id,
+      page: citation.page,
+      score: citation.score,
+      label: null,
+    });
+  }
+
+  return {
+    id: feedbackId(message),
+    query,
+    scope,
+    answer: message.content,
+    citations,
+    labels: { rating: null, reason: null, comment: null },
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/** Label of a cited page, or null when unlabeled */
+export function citationLabel(record: FeedbackRecord | undefined, citation: Citation): CitationLabel | null {
+  return (
+    record?.citations.find((c) => c.document_id === citation.document_id && c.page === citation.page)
+      ?.label ?? null
+  );
+}
+
+/** No rating and no labelled citations */
+export function isEmptyFeedback(record: FeedbackRecord): boolean {
+  return record.labels.rating === null && record.citations.every((c) => c.label === null);
+}
+
+/** One JSON object per line, oldest first */
+export function feedbackToJsonl(records: FeedbackRecord[]): string {
+  return [...records]
+    .sort((a, b) => a.updated_at.localeCompare(b.updated_at))
+    .map((record) => JSON.stringify(record))
+    .join("\n");
+}
+
+export function exportFeedbackDataset(records: FeedbackRecord[]): void {
+  const date = new Date().toISOString().slice(0, 10);
+  downloadBlob(
+    new Blob([feedbackToJsonl(records), "\n"], { type: "application/x-ndjson" }),
+    `lexvisual-feedback-${date}.jsonl`
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Interface translations and locale-aware formatting.
+ * Catalogs live in `lib/locales`; English is the reference and every other
+ * catalog must define the same keys.
+ */
+
+import { en, type Messages } from "./locales/en";
+import { es } from "./locales/es";
+import { formatDate as formatDateIn } from "./utils";
+
+export type Locale = "en" | "es";
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const LOCALES: Record<Locale, { label: string; intl: string }> = {
+  en: { label: "English", intl: "en-US" },
+  es: { label: "Español", intl: "es-ES" },
+};
+
+const CATALOGS: Record<Locale, Messages> = { en, es };
+
+export type MessageKey = keyof Messages;
+
+/** Keys with `.one` / `.other` plural forms, without the suffix */
+export type PluralKey = {
+  [K in MessageKey]: K extends `${infer Base}.one` ? Base : never;
+}[MessageKey];
+
+export type MessageParams = Record<string, string | number>;
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && Object.hasOwn(LOCALES, value);
+}
+
+/** First supported locale in the browser's preferences */
+export function detectLocale(): Locale {
+  if (typeof navigator === "undefined") return DEFAULT_LOCALE;
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const code = language.toLowerCase().split("-")[0];
+    if (isLocale(code)) return code;
+  }
+  return DEFAULT_LOCALE;
+}
+
+function interpolate(template: string, params: MessageParams | undefined, intl: string): string {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === "number" ? value.toLocaleString(intl) : value;
+  });
+}
+
+export interface Translator {
+  locale: Locale;
+  /** Message for `key` with `{name}` placeholders filled from `params` */
+  t: (key: MessageKey, params?: MessageParams) => string;
+  /** Plural message for `count`, also available as `{count}` */
+  tn: (key: PluralKey, count: number, params?: MessageParams) => string;
+  formatDate: (date: Date | string) => string;
+  /** Date without time */
+  formatDay: (date: Date | string) => string;
+  formatTime: (date: Date) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+export function createTranslator(locale: Locale): Translator {
+  const catalog = CATALOGS[locale];
+  const { intl } = LOCALES[locale];
+  const plurals = new Intl.PluralRules(intl);
+
+  const t = (key: MessageKey, params?: MessageParams) =>
+    interpolate(catalog[key] ?? en[key], params, intl);
+
+  return {
+    locale,
+    t,
+    tn: (key, count, params) => {
+      const form = plurals.select(count) === "one" ? "one" : "other";
+      return t(`${key}.${form}` as MessageKey, { count, ...params });
+    },
+    formatDate: (date) => formatDateIn(date, intl),
+    formatDay: (date) =>
+      (typeof date === "string" ? new Date(date) : date).toLocaleDateString(intl, {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+      }),
+    formatTime: (date) =>
+      date.toLocaleTimeString(intl, { hour: "2-digit", minute: "2-digit", second: "2-digit" }),
+    formatNumber: (value, options) => value.toLocaleString(intl, options),
+  };
+}
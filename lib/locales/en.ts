@@ -0,0 +1,385 @@
+/**
+ * English interface messages: the reference catalog.
+ * `{name}` placeholders are filled at runtime; `.one` / `.other` pairs are
+ * plural forms selected by count.
+ */
+
+export const en = {
+  // Common
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.delete": "Delete",
+  "common.rename": "Rename",
+  "common.edit": "Edit",
+  "common.retry": "Retry",
+  "common.unknown": "Unknown",
+  "common.pages.one": "{count} page",
+  "common.pages.other": "{count} pages",
+  "common.page": "Page {page}",
+  "common.documents.one": "{count} document",
+  "common.documents.other": "{count} documents",
+
+  // Header and navigation
+  "nav.chat": "Chat",
+  "nav.documents": "Documents",
+  "nav.playbook": "Playbook",
+  "nav.signOut": "Sign out",
+
+  // Language switcher
+  "language.menu": "Language",
+  "language.interface": "Interface language",
+  "language.answers": "Answer language",
+  "language.sameAsInterface": "Same as interface",
+
+  // Backend health
+  "health.status.checking": "Connecting",
+  "health.status.online": "Online",
+  "health.status.loading": "Model loading",
+  "health.status.offline": "Offline",
+  "health.ariaLabel": "Backend status: {status}",
+  "health.connection": "Connection",
+  "health.unreachable": "Unreachable",
+  "health.checking": "Checking...",
+  "health.connected": "Connected",
+  "health.model": "Model",
+  "health.modelLoaded": "Loaded",
+  "health.modelLoading": "Loading",
+  "health.gpu": "GPU",
+  "health.gpuAvailable": "Available",
+  "health.gpuUnavailable": "Not available",
+  "health.checkedAt": "Checked {date}",
+  "health.notChecked": "Not checked yet",
+  "health.checkNow": "Check now",
+  "health.bannerLoading":
+    "The model is still loading. Questions and uploads are paused and will resume automatically when it is ready.",
+  "health.bannerOffline":
+    "The backend is unreachable. Questions and uploads are paused and will resume automatically when it reconnects.",
+
+  // Chat
+  "chat.emptyTitle": "Visual Document Intelligence",
+  "chat.emptyNoDocuments":
+    "Attach a PDF document using the button below, then ask questions about its contents. I'll show you the exact pages and sections.",
+  "chat.emptyWithDocuments":
+    "Ask questions about your indexed documents. I'll find relevant sections and show you the visual evidence.",
+  "chat.compareTitle": "Compare Documents",
+  "chat.compareNeedTwo": "Index at least two documents to compare them side by side.",
+  "chat.compareHint":
+    "Pick two documents in the sidebar, then ask one question. You'll get an answer from each document and a summary of how they differ.",
+  "chat.clearComparisons": "Clear comparisons",
+  "chat.comparePlaceholder": "Ask both documents the same question...",
+  "chat.compareSelectPlaceholder": "Select two different documents to compare...",
+  "chat.modeAsk": "Ask",
+  "chat.modeCompare": "Compare",
+  "chat.compareDocument": "Document {side}",
+  "chat.compareWaiting": "Waiting for both answers...",
+  "chat.compareSummaryUnavailable": "Summary unavailable because one of the answers failed.",
+  "chat.selectDocument": "Select a document",
+  "chat.queryScope": "Query Scope",
+  "chat.activeDocument": "Active Document",
+  "chat.activeDocuments": "Active Documents ({count})",
+  "chat.indexedDocuments": "Indexed Documents ({count})",
+  "chat.manage": "Manage",
+  "chat.noDocuments": "No documents yet",
+  "chat.noDocumentsHint": "Use the attachment button below",
+  "chat.deleteDocument": "Delete document",
+  "chat.deleteDocumentTitle": "Delete this document?",
+  "chat.deleteDocumentBody": "and its index entries are removed permanently.",
+  "chat.tipTitle": "Pro Tip",
+  "chat.tipBody": "Ask specific questions for better results. Try \"What are the termination clauses?\"",
+  "chat.errorPrefix": "Error: {error}",
+
+  // Built-in prompt templates
+  "prompts.clauses.label": "Key clauses",
+  "prompts.clauses.prompt": "What are the key clauses in this document?",
+  "prompts.risks.label": "Risks",
+  "prompts.risks.prompt": "Identify potential legal risks or concerning provisions",
+  "prompts.summary.label": "Summary",
+  "prompts.summary.prompt": "Provide a comprehensive summary of this document",
+  "prompts.obligations.label": "Obligations",
+  "prompts.obligations.prompt": "What are the main obligations and responsibilities?",
+
+  // Prompt templates
+  "templates.generalCategory": "General",
+  "templates.uncategorized": "Uncategorized",
+  "templates.menu": "Prompt templates",
+  "templates.manage": "Manage templates",
+  "templates.libraryTitle": "Prompt templates",
+  "templates.all": "All",
+  "templates.new": "New template",
+  "templates.import": "Import",
+  "templates.export": "Export",
+  "templates.imported.one": "Imported {count} template.",
+  "templates.imported.other": "Imported {count} templates.",
+  "templates.importNone": "No new templates in this file.",
+  "templates.importFailed": "Could not import templates: {error}",
+  "templates.empty": "No templates yet. Create one or import a shared set.",
+  "templates.builtIn": "Built-in",
+  "templates.duplicate": "Duplicate",
+  "templates.copyTitle": "{title} (copy)",
+  "templates.titleLabel": "Title",
+  "templates.categoryLabel": "Category",
+  "templates.textLabel": "Question",
+  "templates.titlePlaceholder": "e.g. Change of control triggers",
+  "templates.categoryPlaceholder": "e.g. M&A",
+  "templates.textPlaceholder": "e.g. What is the non-compete scope for {party}?",
+  "templates.placeholderHint": "Write fields in braces, like {party}; they are filled in when the template is used.",
+  "templates.fields.one": "{count} field",
+  "templates.fields.other": "{count} fields",
+  "templates.selectHint": "Select a template to edit, or create a new one.",
+  "templates.fillTitle": "Fill in template",
+  "templates.preview": "Preview",
+  "templates.insert": "Insert",
+  "templates.ask": "Ask",
+
+  // Chat input
+  "input.placeholder": "Ask about your legal documents...",
+  "input.attach": "Attach PDF documents",
+  "input.stop": "Stop generating",
+  "input.hint": "Press Enter to send · Shift+Enter for new line",
+  "input.indexFiles.one": "Index file",
+  "input.indexFiles.other": "Index {count} files",
+
+  // Uploads
+  "upload.waiting": "Waiting...",
+  "upload.processing": "Processing...",
+  "upload.done": "Indexed successfully!",
+  "upload.failed": "Upload failed",
+  "upload.endedUnexpectedly": "Upload ended unexpectedly",
+  "upload.cancelled": "Cancelled",
+  "upload.inProgress": "{count} in progress · ",
+  "upload.indexed": "{count} indexed",
+  "upload.failedCount": " · {count} failed",
+  "upload.ofTotal": " of {total}",
+  "upload.clearFinished": "Clear finished",
+  "upload.cancel": "Cancel",
+  "upload.remove": "Remove from list",
+  "upload.dropTitle": "Drop your PDFs here",
+  "upload.dropHint": "or click to browse • PDF files only • multiple files supported",
+  "upload.uploadAndIndex.one": "Upload & Index",
+  "upload.uploadAndIndex.other": "Upload & Index {count} files",
+
+  // Saved conversations
+  "sessions.new": "New conversation",
+  "sessions.title": "Conversations ({count})",
+  "sessions.empty": "No saved conversations",
+  "sessions.messages.one": "{count} message",
+  "sessions.messages.other": "{count} messages",
+  "sessions.rename": "Rename conversation",
+  "sessions.delete": "Delete conversation",
+
+  // Query scope
+  "scope.all": "All Documents",
+  "scope.savedSets": "Saved Sets",
+  "scope.documents": "Documents",
+  "scope.missingDocuments": "{count} of its documents are no longer indexed",
+  "scope.deleteSet": "Delete set",
+  "scope.saveSelection": "Save selection as set",
+  "scope.setPlaceholder": "e.g. Lease + Amendments",
+
+  // Messages
+  "message.saveAndResend": "Save & resend",
+  "message.stopped": "Stopped",
+  "message.previousVersion": "Previous version",
+  "message.nextVersion": "Next version",
+  "message.answeredQuery": "Answer to “{query}”",
+  "message.regenerate": "Regenerate",
+  "message.regenerateTitle": "Regenerate answer",
+  "message.export": "Export",
+  "message.editTitle": "Edit and resend",
+  "message.droppedTurns.one": "{count} earlier message not included in context",
+  "message.droppedTurns.other": "{count} earlier messages not included in context",
+  "message.visualEvidence": "Visual Evidence",
+  "message.highlightsOn": "Highlights on",
+  "message.highlightsOff": "Highlights off",
+  "message.thinking": "Thinking...",
+  "message.reconnecting": "Connection lost, reconnecting...",
+  "message.showCitedPage": "Show cited page",
+  "message.citedPageMissing": "Cited page not in results",
+  "message.keyDifferences": "Key differences",
+
+  // Agent trace
+  "trace.summary": "How this answer was produced",
+  "trace.reasoning": "Reasoning",
+
+  // Citations
+  "citations.minScore": "Min score",
+  "citations.any": "Any",
+  "citations.byScore": "By score",
+  "citations.byPage": "By page",
+  "citations.groupByDocument": "Group by document",
+  "citations.hidden": "{count} hidden: {reasons}",
+  "citations.belowThreshold": "{count} below {threshold}",
+  "citations.duplicates.one": "{count} duplicate",
+  "citations.duplicates.other": "{count} duplicates",
+  "citations.showAll": "Show all",
+  "citations.noneAboveThreshold": "No citations meet the minimum score.",
+
+  // Document viewer
+  "viewer.previousPage": "Previous page",
+  "viewer.nextPage": "Next page",
+  "viewer.goToPage": "Go to page",
+  "viewer.close": "Close viewer",
+  "viewer.zoomOut": "Zoom out",
+  "viewer.zoomIn": "Zoom in",
+  "viewer.resetView": "Reset view",
+  "viewer.hideHighlights": "Hide highlights",
+  "viewer.showHighlights": "Show highlights",
+  "viewer.citedPage": "Page {page} (cited)",
+  "viewer.pageOf": "Page {page} of {total}",
+  "viewer.relevance": "Relevance: {score}",
+
+  // Memo export
+  "export.memo": "Export memo",
+  "export.title": "Export as legal memo",
+  "export.docx": "Word document",
+  "export.pdf": "PDF",
+  "export.markdown": "Markdown",
+  "export.failed": "Export failed. Please try again.",
+  "memo.defaultTitle": "Legal Research Memo",
+  "memo.prepared": "Prepared {date}",
+  "memo.answer": "Answer",
+  "memo.sources": "Sources",
+  "memo.appendix": "Appendix: Exhibits",
+  "memo.exhibit": "Exhibit {label} — {document}, p. {page}",
+  "memo.footnote": "{document}, p. {page} (Exhibit {label})",
+
+  // Document library
+  "library.title": "Document Library",
+  "library.indexedDocuments.one": "{count} indexed document",
+  "library.indexedDocuments.other": "{count} indexed documents",
+  "library.loadFailed": "Could not load documents.",
+  "library.renameFailed": "Could not rename document: {error}",
+  "library.deleteFailed": "{failed} of {total} documents could not be deleted.",
+  "library.search": "Search documents...",
+  "library.selected": "{count} selected",
+  "library.askSelected": "Ask about selected",
+  "library.clearSelection": "Clear selection",
+  "library.selectAll": "Select all",
+  "library.selectDocument": "Select {name}",
+  "library.columnFilename": "Filename",
+  "library.columnPages": "Pages",
+  "library.columnUploaded": "Uploaded",
+  "library.columnStatus": "Status",
+  "library.emptyLibrary": "No documents indexed yet",
+  "library.noMatches": "No documents match your search",
+  "library.indexed": "Indexed",
+  "library.runPlaybook": "Run playbook",
+  "library.indexing": "Indexing",
+  "library.deleteTitle.one": "Delete this document?",
+  "library.deleteTitle.other": "Delete {count} documents?",
+  "library.deleteBody.one": "Its pages and index entries are removed permanently.",
+  "library.deleteBody.other": "Their pages and index entries are removed permanently.",
+  "library.deleteConfirm.one": "Delete",
+  "library.deleteConfirm.other": "Delete {count}",
+
+  // Playbook
+  "playbook.title": "Review Playbook",
+  "playbook.subtitle": "Run a fixed list of questions against one document and review the answers in one grid.",
+  "playbook.run": "Run playbook",
+  "playbook.stop": "Stop",
+  "playbook.questions.one": "{count} question",
+  "playbook.questions.other": "{count} questions",
+  "playbook.editQuestions": "Edit questions",
+  "playbook.doneEditing": "Done",
+  "playbook.addQuestion": "Add question",
+  "playbook.resetQuestions": "Restore defaults",
+  "playbook.labelPlaceholder": "Topic",
+  "playbook.questionPlaceholder": "Question asked of the document",
+  "playbook.removeQuestion": "Remove question",
+  "playbook.columnTopic": "Topic",
+  "playbook.columnAnswer": "Answer",
+  "playbook.columnRisk": "Risk",
+  "playbook.columnPages": "Pages",
+  "playbook.risk.high": "High",
+  "playbook.risk.medium": "Medium",
+  "playbook.risk.low": "Low",
+  "playbook.risk.missing": "Not addressed",
+  "playbook.risk.unknown": "Unrated",
+  "playbook.status.pending": "Waiting...",
+  "playbook.status.running": "Running...",
+  "playbook.status.cancelled": "Cancelled",
+  "playbook.rerun": "Re-run this question",
+  "playbook.progress": "{done} of {total} answered",
+  "playbook.empty": "Choose a document and run the playbook to fill the review grid.",
+  "playbook.export": "Export as {format}",
+  "playbook.columnQuestion": "Question",
+  "playbook.columnStatus": "Status",
+  "playbook.status.done": "Answered",
+  "playbook.status.error": "Failed",
+  "playbook.noAnswer": "No answer received",
+  "playbook.default.governingLaw.label": "Governing law",
+  "playbook.default.governingLaw.question": "Which law governs this agreement, and which courts or forum have jurisdiction?",
+  "playbook.default.term.label": "Term",
+  "playbook.default.term.question": "What is the term of this agreement, and does it renew automatically?",
+  "playbook.default.termination.label": "Termination",
+  "playbook.default.termination.question": "On what grounds and with what notice can each party terminate this agreement?",
+  "playbook.default.indemnityCap.label": "Indemnity cap",
+  "playbook.default.indemnityCap.question": "Is there a cap on indemnification obligations, and what is it?",
+  "playbook.default.liability.label": "Limitation of liability",
+  "playbook.default.liability.question": "How is each party's liability limited or excluded?",
+  "playbook.default.assignment.label": "Assignment",
+  "playbook.default.assignment.question": "Can either party assign or transfer this agreement, and on what conditions?",
+  "playbook.default.changeOfControl.label": "Change of control",
+  "playbook.default.changeOfControl.question": "Does a change of control of either party trigger any rights or obligations?",
+  "playbook.default.confidentiality.label": "Confidentiality",
+  "playbook.default.confidentiality.question": "What confidentiality obligations apply, and for how long do they survive?",
+  "playbook.default.payment.label": "Payment terms",
+  "playbook.default.payment.question": "What are the payment terms, including amounts, due dates and late payment consequences?",
+  "playbook.default.disputeResolution.label": "Dispute resolution",
+  "playbook.default.disputeResolution.question": "How are disputes resolved (negotiation, mediation, arbitration or litigation)?",
+
+  // Evidence board
+  "evidence.board": "Evidence",
+  "evidence.title": "Evidence Board",
+  "evidence.pin": "Pin to evidence board",
+  "evidence.unpin": "Remove from evidence board",
+  "evidence.pinned.one": "{count} pinned page",
+  "evidence.pinned.other": "{count} pinned pages",
+  "evidence.allDocuments": "All documents",
+  "evidence.empty": "Pin cited pages from answers to collect them here.",
+  "evidence.noMatches": "No pinned pages from this document.",
+  "evidence.notePlaceholder": "Add a note...",
+  "evidence.addTag": "Add tag",
+  "evidence.removeTag": "Remove tag {tag}",
+  "evidence.reorder": "Drag to reorder",
+  "evidence.openPage": "Open page",
+  "evidence.close": "Close evidence board",
+
+  // Feedback
+  "feedback.helpful": "Helpful answer",
+  "feedback.notHelpful": "Not helpful",
+  "feedback.clear": "Remove rating",
+  "feedback.reasonTitle": "What was wrong?",
+  "feedback.reason.incorrect": "Incorrect",
+  "feedback.reason.incomplete": "Incomplete",
+  "feedback.reason.unsupported": "Not supported by the pages",
+  "feedback.reason.irrelevant_citations": "Irrelevant pages cited",
+  "feedback.reason.other": "Other",
+  "feedback.commentPlaceholder": "Add details (optional)",
+  "feedback.send": "Send feedback",
+  "feedback.relevant": "Relevant page",
+  "feedback.irrelevant": "Irrelevant page",
+  "feedback.export": "Export feedback",
+  "feedback.exportTitle": "Download ratings and page labels as a JSONL evaluation set",
+
+  // Upload preflight
+  "preflight.checking": "Checking...",
+  "preflight.notPdf": "Not a PDF file",
+  "preflight.tooLarge": "Larger than the {limit} limit",
+  "preflight.encrypted": "Password-protected or encrypted",
+  "preflight.tooManyPages": "{pages} pages; the limit is {limit}",
+  "preflight.unreadable": "The file could not be read",
+  "preflight.unknownPages": "Page count could not be determined",
+  "preflight.duplicate": "Already indexed as {name}",
+  "preflight.skipped.one": "{count} file will be skipped",
+  "preflight.skipped.other": "{count} files will be skipped",
+
+  // Login
+  "login.title": "Sign in",
+  "login.email": "Email",
+  "login.password": "Password",
+  "login.submit": "Sign in",
+  "login.failed": "Could not sign in.",
+};
+
+export type Messages = Record<keyof typeof en, string>;
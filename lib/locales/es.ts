@@ -0,0 +1,384 @@
+/**
+ * Spanish interface messages.
+ */
+
+import type { Messages } from "./en";
+
+export const es: Messages = {
+  // Common
+  "common.cancel": "Cancelar",
+  "common.save": "Guardar",
+  "common.delete": "Eliminar",
+  "common.rename": "Renombrar",
+  "common.edit": "Editar",
+  "common.retry": "Reintentar",
+  "common.unknown": "Desconocido",
+  "common.pages.one": "{count} página",
+  "common.pages.other": "{count} páginas",
+  "common.page": "Página {page}",
+  "common.documents.one": "{count} documento",
+  "common.documents.other": "{count} documentos",
+
+  // Header and navigation
+  "nav.chat": "Chat",
+  "nav.documents": "Documentos",
+  "nav.playbook": "Playbook",
+  "nav.signOut": "Cerrar sesión",
+
+  // Language switcher
+  "language.menu": "Idioma",
+  "language.interface": "Idioma de la interfaz",
+  "language.answers": "Idioma de las respuestas",
+  "language.sameAsInterface": "Igual que la interfaz",
+
+  // Backend health
+  "health.status.checking": "Conectando",
+  "health.status.online": "En línea",
+  "health.status.loading": "Cargando modelo",
+  "health.status.offline": "Sin conexión",
+  "health.ariaLabel": "Estado del servidor: {status}",
+  "health.connection": "Conexión",
+  "health.unreachable": "Inaccesible",
+  "health.checking": "Comprobando...",
+  "health.connected": "Conectado",
+  "health.model": "Modelo",
+  "health.modelLoaded": "Cargado",
+  "health.modelLoading": "Cargando",
+  "health.gpu": "GPU",
+  "health.gpuAvailable": "Disponible",
+  "health.gpuUnavailable": "No disponible",
+  "health.checkedAt": "Comprobado {date}",
+  "health.notChecked": "Aún sin comprobar",
+  "health.checkNow": "Comprobar ahora",
+  "health.bannerLoading":
+    "El modelo aún se está cargando. Las preguntas y subidas están en pausa y se reanudarán automáticamente cuando esté listo.",
+  "health.bannerOffline":
+    "No se puede acceder al servidor. Las preguntas y subidas están en pausa y se reanudarán automáticamente cuando se restablezca la conexión.",
+
+  // Chat
+  "chat.emptyTitle": "Inteligencia visual de documentos",
+  "chat.emptyNoDocuments":
+    "Adjunta un documento PDF con el botón de abajo y haz preguntas sobre su contenido. Te mostraré las páginas y secciones exactas.",
+  "chat.emptyWithDocuments":
+    "Haz preguntas sobre tus documentos indexados. Encontraré las secciones relevantes y te mostraré la evidencia visual.",
+  "chat.compareTitle": "Comparar documentos",
+  "chat.compareNeedTwo": "Indexa al menos dos documentos para compararlos lado a lado.",
+  "chat.compareHint":
+    "Elige dos documentos en la barra lateral y haz una pregunta. Recibirás una respuesta de cada documento y un resumen de sus diferencias.",
+  "chat.clearComparisons": "Borrar comparaciones",
+  "chat.comparePlaceholder": "Haz la misma pregunta a ambos documentos...",
+  "chat.compareSelectPlaceholder": "Selecciona dos documentos distintos para comparar...",
+  "chat.modeAsk": "Preguntar",
+  "chat.modeCompare": "Comparar",
+  "chat.compareDocument": "Documento {side}",
+  "chat.compareWaiting": "Esperando ambas respuestas...",
+  "chat.compareSummaryUnavailable": "Resumen no disponible porque una de las respuestas falló.",
+  "chat.selectDocument": "Selecciona un documento",
+  "chat.queryScope": "Alcance de la consulta",
+  "chat.activeDocument": "Documento activo",
+  "chat.activeDocuments": "Documentos activos ({count})",
+  "chat.indexedDocuments": "Documentos indexados ({count})",
+  "chat.manage": "Gestionar",
+  "chat.noDocuments": "Aún no hay documentos",
+  "chat.noDocumentsHint": "Usa el botón de adjuntar de abajo",
+  "chat.deleteDocument": "Eliminar documento",
+  "chat.deleteDocumentTitle": "¿Eliminar este documento?",
+  "chat.deleteDocumentBody": "y sus entradas del índice se eliminarán de forma permanente.",
+  "chat.tipTitle": "Consejo",
+  "chat.tipBody":
+    "Haz preguntas concretas para obtener mejores resultados. Prueba con «¿Cuáles son las cláusulas de terminación?»",
+  "chat.errorPrefix": "Error: {error}",
+
+  // Built-in prompt templates
+  "prompts.clauses.label": "Cláusulas clave",
+  "prompts.clauses.prompt": "¿Cuáles son las cláusulas clave de este documento?",
+  "prompts.risks.label": "Riesgos",
+  "prompts.risks.prompt": "Identifica posibles riesgos legales o disposiciones preocupantes",
+  "prompts.summary.label": "Resumen",
+  "prompts.summary.prompt": "Proporciona un resumen completo de este documento",
+  "prompts.obligations.label": "Obligaciones",
+  "prompts.obligations.prompt": "¿Cuáles son las principales obligaciones y responsabilidades?",
+
+  // Prompt templates
+  "templates.generalCategory": "General",
+  "templates.uncategorized": "Sin categoría",
+  "templates.menu": "Plantillas de preguntas",
+  "templates.manage": "Gestionar plantillas",
+  "templates.libraryTitle": "Plantillas de preguntas",
+  "templates.all": "Todas",
+  "templates.new": "Nueva plantilla",
+  "templates.import": "Importar",
+  "templates.export": "Exportar",
+  "templates.imported.one": "Se importó {count} plantilla.",
+  "templates.imported.other": "Se importaron {count} plantillas.",
+  "templates.importNone": "Este archivo no contiene plantillas nuevas.",
+  "templates.importFailed": "No se pudieron importar las plantillas: {error}",
+  "templates.empty": "Aún no hay plantillas. Crea una o importa un conjunto compartido.",
+  "templates.builtIn": "Predefinida",
+  "templates.duplicate": "Duplicar",
+  "templates.copyTitle": "{title} (copia)",
+  "templates.titleLabel": "Título",
+  "templates.categoryLabel": "Categoría",
+  "templates.textLabel": "Pregunta",
+  "templates.titlePlaceholder": "p. ej. Supuestos de cambio de control",
+  "templates.categoryPlaceholder": "p. ej. M&A",
+  "templates.textPlaceholder": "p. ej. ¿Cuál es el alcance de la no competencia para {party}?",
+  "templates.placeholderHint": "Escribe los campos entre llaves, como {party}; se rellenan al usar la plantilla.",
+  "templates.fields.one": "{count} campo",
+  "templates.fields.other": "{count} campos",
+  "templates.selectHint": "Selecciona una plantilla para editarla o crea una nueva.",
+  "templates.fillTitle": "Completar plantilla",
+  "templates.preview": "Vista previa",
+  "templates.insert": "Insertar",
+  "templates.ask": "Preguntar",
+
+  // Chat input
+  "input.placeholder": "Pregunta sobre tus documentos legales...",
+  "input.attach": "Adjuntar documentos PDF",
+  "input.stop": "Detener la respuesta",
+  "input.hint": "Pulsa Intro para enviar · Mayús+Intro para una nueva línea",
+  "input.indexFiles.one": "Indexar archivo",
+  "input.indexFiles.other": "Indexar {count} archivos",
+
+  // Uploads
+  "upload.waiting": "En espera...",
+  "upload.processing": "Procesando...",
+  "upload.done": "¡Indexado correctamente!",
+  "upload.failed": "Error al subir",
+  "upload.endedUnexpectedly": "La subida terminó de forma inesperada",
+  "upload.cancelled": "Cancelado",
+  "upload.inProgress": "{count} en curso · ",
+  "upload.indexed": "{count} indexados",
+  "upload.failedCount": " · {count} con error",
+  "upload.ofTotal": " de {total}",
+  "upload.clearFinished": "Borrar finalizados",
+  "upload.cancel": "Cancelar",
+  "upload.remove": "Quitar de la lista",
+  "upload.dropTitle": "Suelta tus PDF aquí",
+  "upload.dropHint": "o haz clic para buscar • solo archivos PDF • admite varios archivos",
+  "upload.uploadAndIndex.one": "Subir e indexar",
+  "upload.uploadAndIndex.other": "Subir e indexar {count} archivos",
+
+  // Saved conversations
+  "sessions.new": "Nueva conversación",
+  "sessions.title": "Conversaciones ({count})",
+  "sessions.empty": "No hay conversaciones guardadas",
+  "sessions.messages.one": "{count} mensaje",
+  "sessions.messages.other": "{count} mensajes",
+  "sessions.rename": "Renombrar conversación",
+  "sessions.delete": "Eliminar conversación",
+
+  // Query scope
+  "scope.all": "Todos los documentos",
+  "scope.savedSets": "Conjuntos guardados",
+  "scope.documents": "Documentos",
+  "scope.missingDocuments": "{count} de sus documentos ya no están indexados",
+  "scope.deleteSet": "Eliminar conjunto",
+  "scope.saveSelection": "Guardar selección como conjunto",
+  "scope.setPlaceholder": "p. ej. Arrendamiento + anexos",
+
+  // Messages
+  "message.saveAndResend": "Guardar y reenviar",
+  "message.stopped": "Detenida",
+  "message.previousVersion": "Versión anterior",
+  "message.nextVersion": "Versión siguiente",
+  "message.answeredQuery": "Respuesta a «{query}»",
+  "message.regenerate": "Regenerar",
+  "message.regenerateTitle": "Regenerar respuesta",
+  "message.export": "Exportar",
+  "message.editTitle": "Editar y reenviar",
+  "message.droppedTurns.one": "{count} mensaje anterior no incluido en el contexto",
+  "message.droppedTurns.other": "{count} mensajes anteriores no incluidos en el contexto",
+  "message.visualEvidence": "Evidencia visual",
+  "message.highlightsOn": "Resaltado activado",
+  "message.highlightsOff": "Resaltado desactivado",
+  "message.thinking": "Pensando...",
+  "message.reconnecting": "Conexión perdida, reconectando...",
+  "message.showCitedPage": "Mostrar la página citada",
+  "message.citedPageMissing": "La página citada no está en los resultados",
+  "message.keyDifferences": "Diferencias clave",
+
+  // Agent trace
+  "trace.summary": "Cómo se generó esta respuesta",
+  "trace.reasoning": "Razonamiento",
+
+  // Citations
+  "citations.minScore": "Puntuación mínima",
+  "citations.any": "Cualquiera",
+  "citations.byScore": "Por puntuación",
+  "citations.byPage": "Por página",
+  "citations.groupByDocument": "Agrupar por documento",
+  "citations.hidden": "{count} ocultas: {reasons}",
+  "citations.belowThreshold": "{count} por debajo de {threshold}",
+  "citations.duplicates.one": "{count} duplicada",
+  "citations.duplicates.other": "{count} duplicadas",
+  "citations.showAll": "Mostrar todas",
+  "citations.noneAboveThreshold": "Ninguna cita alcanza la puntuación mínima.",
+
+  // Document viewer
+  "viewer.previousPage": "Página anterior",
+  "viewer.nextPage": "Página siguiente",
+  "viewer.goToPage": "Ir a la página",
+  "viewer.close": "Cerrar visor",
+  "viewer.zoomOut": "Alejar",
+  "viewer.zoomIn": "Acercar",
+  "viewer.resetView": "Restablecer vista",
+  "viewer.hideHighlights": "Ocultar resaltado",
+  "viewer.showHighlights": "Mostrar resaltado",
+  "viewer.citedPage": "Página {page} (citada)",
+  "viewer.pageOf": "Página {page} de {total}",
+  "viewer.relevance": "Relevancia: {score}",
+
+  // Memo export
+  "export.memo": "Exportar memorando",
+  "export.title": "Exportar como memorando jurídico",
+  "export.docx": "Documento de Word",
+  "export.pdf": "PDF",
+  "export.markdown": "Markdown",
+  "export.failed": "No se pudo exportar. Inténtalo de nuevo.",
+  "memo.defaultTitle": "Memorándum de investigación jurídica",
+  "memo.prepared": "Elaborado el {date}",
+  "memo.answer": "Respuesta",
+  "memo.sources": "Fuentes",
+  "memo.appendix": "Apéndice: anexos",
+  "memo.exhibit": "Anexo {label} — {document}, p. {page}",
+  "memo.footnote": "{document}, p. {page} (Anexo {label})",
+
+  // Document library
+  "library.title": "Biblioteca de documentos",
+  "library.indexedDocuments.one": "{count} documento indexado",
+  "library.indexedDocuments.other": "{count} documentos indexados",
+  "library.loadFailed": "No se pudieron cargar los documentos.",
+  "library.renameFailed": "No se pudo renombrar el documento: {error}",
+  "library.deleteFailed": "No se pudieron eliminar {failed} de {total} documentos.",
+  "library.search": "Buscar documentos...",
+  "library.selected": "{count} seleccionados",
+  "library.askSelected": "Preguntar sobre la selección",
+  "library.clearSelection": "Borrar selección",
+  "library.selectAll": "Seleccionar todo",
+  "library.selectDocument": "Seleccionar {name}",
+  "library.columnFilename": "Nombre de archivo",
+  "library.columnPages": "Páginas",
+  "library.columnUploaded": "Subido",
+  "library.columnStatus": "Estado",
+  "library.emptyLibrary": "Aún no hay documentos indexados",
+  "library.noMatches": "Ningún documento coincide con tu búsqueda",
+  "library.indexed": "Indexado",
+  "library.runPlaybook": "Ejecutar playbook",
+  "library.indexing": "Indexando",
+  "library.deleteTitle.one": "¿Eliminar este documento?",
+  "library.deleteTitle.other": "¿Eliminar {count} documentos?",
+  "library.deleteBody.one": "Sus páginas y entradas del índice se eliminarán de forma permanente.",
+  "library.deleteBody.other": "Sus páginas y entradas del índice se eliminarán de forma permanente.",
+  "library.deleteConfirm.one": "Eliminar",
+  "library.deleteConfirm.other": "Eliminar {count}",
+
+  // Playbook
+  "playbook.title": "Playbook de revisión",
+  "playbook.subtitle": "Ejecuta una lista fija de preguntas sobre un documento y revisa las respuestas en una sola tabla.",
+  "playbook.run": "Ejecutar playbook",
+  "playbook.stop": "Detener",
+  "playbook.questions.one": "{count} pregunta",
+  "playbook.questions.other": "{count} preguntas",
+  "playbook.editQuestions": "Editar preguntas",
+  "playbook.doneEditing": "Listo",
+  "playbook.addQuestion": "Añadir pregunta",
+  "playbook.resetQuestions": "Restaurar predeterminadas",
+  "playbook.labelPlaceholder": "Tema",
+  "playbook.questionPlaceholder": "Pregunta que se hace al documento",
+  "playbook.removeQuestion": "Quitar pregunta",
+  "playbook.columnTopic": "Tema",
+  "playbook.columnAnswer": "Respuesta",
+  "playbook.columnRisk": "Riesgo",
+  "playbook.columnPages": "Páginas",
+  "playbook.risk.high": "Alto",
+  "playbook.risk.medium": "Medio",
+  "playbook.risk.low": "Bajo",
+  "playbook.risk.missing": "No se aborda",
+  "playbook.risk.unknown": "Sin valorar",
+  "playbook.status.pending": "En espera...",
+  "playbook.status.running": "En curso...",
+  "playbook.status.cancelled": "Cancelada",
+  "playbook.rerun": "Volver a ejecutar esta pregunta",
+  "playbook.progress": "{done} de {total} respondidas",
+  "playbook.empty": "Elige un documento y ejecuta el playbook para completar la tabla de revisión.",
+  "playbook.export": "Exportar como {format}",
+  "playbook.columnQuestion": "Pregunta",
+  "playbook.columnStatus": "Estado",
+  "playbook.status.done": "Respondida",
+  "playbook.status.error": "Error",
+  "playbook.noAnswer": "No se recibió respuesta",
+  "playbook.default.governingLaw.label": "Ley aplicable",
+  "playbook.default.governingLaw.question": "¿Qué ley rige este contrato y qué tribunales o foro tienen jurisdicción?",
+  "playbook.default.term.label": "Duración",
+  "playbook.default.term.question": "¿Cuál es la duración de este contrato y se renueva automáticamente?",
+  "playbook.default.termination.label": "Resolución",
+  "playbook.default.termination.question": "¿Por qué causas y con qué preaviso puede cada parte resolver este contrato?",
+  "playbook.default.indemnityCap.label": "Límite de indemnización",
+  "playbook.default.indemnityCap.question": "¿Existe un límite a las obligaciones de indemnización y cuál es?",
+  "playbook.default.liability.label": "Limitación de responsabilidad",
+  "playbook.default.liability.question": "¿Cómo se limita o excluye la responsabilidad de cada parte?",
+  "playbook.default.assignment.label": "Cesión",
+  "playbook.default.assignment.question": "¿Puede alguna de las partes ceder o transmitir este contrato y en qué condiciones?",
+  "playbook.default.changeOfControl.label": "Cambio de control",
+  "playbook.default.changeOfControl.question": "¿Un cambio de control de alguna de las partes da lugar a derechos u obligaciones?",
+  "playbook.default.confidentiality.label": "Confidencialidad",
+  "playbook.default.confidentiality.question": "¿Qué obligaciones de confidencialidad se aplican y durante cuánto tiempo subsisten?",
+  "playbook.default.payment.label": "Condiciones de pago",
+  "playbook.default.payment.question": "¿Cuáles son las condiciones de pago, incluidos importes, vencimientos y consecuencias del retraso en el pago?",
+  "playbook.default.disputeResolution.label": "Resolución de conflictos",
+  "playbook.default.disputeResolution.question": "¿Cómo se resuelven los conflictos (negociación, mediación, arbitraje o vía judicial)?",
+
+  // Evidence board
+  "evidence.board": "Evidencias",
+  "evidence.title": "Tablero de evidencias",
+  "evidence.pin": "Fijar en el tablero de evidencias",
+  "evidence.unpin": "Quitar del tablero de evidencias",
+  "evidence.pinned.one": "{count} página fijada",
+  "evidence.pinned.other": "{count} páginas fijadas",
+  "evidence.allDocuments": "Todos los documentos",
+  "evidence.empty": "Fija páginas citadas en las respuestas para reunirlas aquí.",
+  "evidence.noMatches": "No hay páginas fijadas de este documento.",
+  "evidence.notePlaceholder": "Añade una nota...",
+  "evidence.addTag": "Añadir etiqueta",
+  "evidence.removeTag": "Quitar etiqueta {tag}",
+  "evidence.reorder": "Arrastra para reordenar",
+  "evidence.openPage": "Abrir página",
+  "evidence.close": "Cerrar tablero de evidencias",
+
+  // Feedback
+  "feedback.helpful": "Respuesta útil",
+  "feedback.notHelpful": "No es útil",
+  "feedback.clear": "Quitar valoración",
+  "feedback.reasonTitle": "¿Qué estuvo mal?",
+  "feedback.reason.incorrect": "Incorrecta",
+  "feedback.reason.incomplete": "Incompleta",
+  "feedback.reason.unsupported": "No respaldada por las páginas",
+  "feedback.reason.irrelevant_citations": "Páginas citadas irrelevantes",
+  "feedback.reason.other": "Otro",
+  "feedback.commentPlaceholder": "Añade detalles (opcional)",
+  "feedback.send": "Enviar valoración",
+  "feedback.relevant": "Página relevante",
+  "feedback.irrelevant": "Página irrelevante",
+  "feedback.export": "Exportar valoraciones",
+  "feedback.exportTitle": "Descarga valoraciones y etiquetas de páginas como conjunto de evaluación JSONL",
+
+  // Upload preflight
+  "preflight.checking": "Comprobando...",
+  "preflight.notPdf": "No es un archivo PDF",
+  "preflight.tooLarge": "Supera el límite de {limit}",
+  "preflight.encrypted": "Protegido con contraseña o cifrado",
+  "preflight.tooManyPages": "{pages} páginas; el límite es {limit}",
+  "preflight.unreadable": "No se pudo leer el archivo",
+  "preflight.unknownPages": "No se pudo determinar el número de páginas",
+  "preflight.duplicate": "Ya indexado como {name}",
+  "preflight.skipped.one": "Se omitirá {count} archivo",
+  "preflight.skipped.other": "Se omitirán {count} archivos",
+
+  // Login
+  "login.title": "Iniciar sesión",
+  "login.email": "Correo electrónico",
+  "login.password": "Contraseña",
+  "login.submit": "Iniciar sesión",
+  "login.failed": "No se pudo iniciar sesión.",
+};
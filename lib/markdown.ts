@@ -0,0 +1,290 @@
+/**
+ * Minimal Markdown parser for assistant answers.
+ * Produces a plain AST rendered as React elements, so raw HTML in the
+ * model output is never interpreted. Also recognises inline citation
+ * markers such as `[p.4]` or `[doc:abc p.4]`.
+ */
+
+import type { Citation } from "./types";
+
+/** Inline citation marker found in an answer */
+export interface CitationMarker {
+  page: number;
+  /** Document id, id prefix or filename given in `[doc:... p.N]` */
+  documentRef?: string;
+}
+
+export type InlineNode =
+  | { type: "text"; value: string }
+  | { type: "strong"; children: InlineNode[] }
+  | { type: "emphasis"; children: InlineNode[] }
+  | { type: "code"; value: string }
+  | { type: "link"; href: string; children: InlineNode[] }
+  | { type: "break" }
+  | { type: "citation"; marker: CitationMarker; raw: string };
+
+export type BlockNode =
+  | { type: "heading"; level: number; children: InlineNode[] }
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "list"; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: "blockquote"; children: BlockNode[] }
+  | { type: "code"; lang?: string; value: string }
+  | { type: "rule" };
+
+const CITATION_SOURCE = /\[(?:doc:([^\s\]]+)\s+)?p(?:age)?\.?\s*(\d+)\]/.source;
+const CITATION_PATTERN = new RegExp(CITATION_SOURCE, "y");
+const LINK_PATTERN = /\[([^\]]+)\]\(([^)\s]+)\)/y;
+const SAFE_URL_PATTERN = /^(https?:|mailto:)/i;
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE_PATTERN = /^ {0,3}(```|~~~)\s*([\w-]*)\s*$/;
+const LIST_ITEM_PATTERN = /^( *)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}>\s?(.*)$/;
+
+/** Parse inline formatting within a block of text */
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = "";
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: "text", value: buffer });
+      buffer = "";
+    }
+  };
+
+  const matchAt = (pattern: RegExp) => {
+    pattern.lastIndex = i;
+    return pattern.exec(text);
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === "\\" && i + 1 < text.length && /[\\`*_[\]()#>-]/.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      i += 1;
+      continue;
+    }
+
+    if (char === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: "code", value: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const citation = matchAt(CITATION_PATTERN);
+      if (citation) {
+        flush();
+        nodes.push({
+          type: "citation",
+          marker: { page: parseInt(citation[2], 10), documentRef: citation[1] },
+          raw: citation[0],
+        });
+        i += citation[0].length;
+        continue;
+      }
+
+      const link = matchAt(LINK_PATTERN);
+      if (link) {
+        flush();
+        const children = parseInline(link[1]);
+        if (SAFE_URL_PATTERN.test(link[2])) {
+          nodes.push({ type: "link", href: link[2], children });
+        } else {
+          nodes.push(...children);
+        }
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (char === "*" || char === "_") {
+      const double = text.startsWith(char.repeat(2), i);
+      const delimiter = double ? char.repeat(2) : char;
+      const start = i + delimiter.length;
+      const end = text.indexOf(delimiter, start);
+      // Underscores inside words (snake_case) are not emphasis
+      const intraword = char === "_" && i > 0 && /\w/.test(text[i - 1]);
+
+      if (end > start && !intraword && !/\s/.test(text[start])) {
+        flush();
+        const children = parseInline(text.slice(start, end));
+        nodes.push(double ? { type: "strong", children } : { type: "emphasis", children });
+        i = end + delimiter.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i += 1;
+  }
+
+  flush();
+  return nodes;
+}
+
+/** Parse consecutive list lines into list items, recursing into nested content */
+function parseList(lines: string[], start: number): { node: BlockNode; next: number } {
+  const first = LIST_ITEM_PATTERN.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = LIST_ITEM_PATTERN.exec(line);
+
+    if (item && item[1].length === indent && /\d/.test(item[2]) === ordered) {
+      items.push([item[3]]);
+    } else if (line.trim() === "") {
+      // A blank line ends the list unless the next line continues it
+      const nextLine = lines[i + 1];
+      if (nextLine === undefined || (!/^\s/.test(nextLine) && !LIST_ITEM_PATTERN.test(nextLine))) {
+        break;
+      }
+      items[items.length - 1].push("");
+    } else if (line.length - line.trimStart().length > indent) {
+      items[items.length - 1].push(line.slice(Math.min(indent + 2, line.search(/\S/))));
+    } else {
+      break;
+    }
+    i += 1;
+  }
+
+  return {
+    node: {
+      type: "list",
+      ordered,
+      start: ordered ? parseInt(first[2], 10) : 1,
+      items: items.map((item) => parseBlocks(item.join("\n"))),
+    },
+    next: i,
+  };
+}
+
+/** Parse Markdown source into block nodes */
+export function parseBlocks(source: string): BlockNode[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+  let i = 0;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+      paragraph = [];
+    }
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === "") {
+      flushParagraph();
+      i += 1;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      flushParagraph();
+      const body: string[] = [];
+      i += 1;
+      // An unterminated fence (mid-stream) runs to the end of the text
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i]);
+        i += 1;
+      }
+      blocks.push({ type: "code", lang: fence[2] || undefined, value: body.join("\n") });
+      i += 1;
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        children: parseInline(heading[2]),
+      });
+      i += 1;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      flushParagraph();
+      blocks.push({ type: "rule" });
+      i += 1;
+      continue;
+    }
+
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      let match: RegExpExecArray | null;
+      while (i < lines.length && (match = BLOCKQUOTE_PATTERN.exec(lines[i]))) {
+        quoted.push(match[1]);
+        i += 1;
+      }
+      blocks.push({ type: "blockquote", children: parseBlocks(quoted.join("\n")) });
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      flushParagraph();
+      const { node, next } = parseList(lines, i);
+      blocks.push(node);
+      i = next;
+      continue;
+    }
+
+    paragraph.push(line.trim());
+    i += 1;
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/** Find the index of the citation an inline marker points at, or -1 */
+export function resolveCitationMarker(
+  marker: CitationMarker,
+  citations: Citation[],
+  documentNames: Record<string, string> = {}
+): number {
+  const ref = marker.documentRef?.toLowerCase();
+  return citations.findIndex((citation) => {
+    if (citation.page !== marker.page) return false;
+    if (!ref) return true;
+    const id = citation.document_id.toLowerCase();
+    const name = documentNames[citation.document_id]?.toLowerCase();
+    return id === ref || id.startsWith(ref) || name === ref;
+  });
+}
+
+/** Replace every citation marker in raw answer text */
+export function replaceCitationMarkers(
+  text: string,
+  replacer: (marker: CitationMarker, raw: string) => string
+): string {
+  return text.replace(new RegExp(CITATION_SOURCE, "g"), (raw, documentRef, page) =>
+    replacer({ page: parseInt(page, 10), documentRef }, raw)
+  );
+}
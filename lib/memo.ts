@@ -0,0 +1,179 @@
+/**
+ * Legal memo model built from a conversation, shared by the
+ * Markdown, DOCX and PDF exporters.
+ */
+
+import type { Citation, Message } from "./types";
+import type { Translator } from "./i18n";
+import { displayedQuery } from "./answerVersions";
+import {
+  parseBlocks,
+  resolveCitationMarker,
+  type BlockNode,
+  type CitationMarker,
+} from "./markdown";
+
+/** Numbered footnote pointing at a cited page */
+export interface MemoFootnote {
+  number: number;
+  documentName: string;
+  page: number;
+  /** Label of the appendix exhibit holding the page image */
+  exhibit: string;
+  /** Citation text, e.g. "lease.pdf, p. 4 (Exhibit A)" */
+  text: string;
+}
+
+/** One question and its answer */
+export interface MemoSection {
+  question: string;
+  /** Raw Markdown answer, with inline citation markers */
+  answer: string;
+  blocks: BlockNode[];
+  citations: Citation[];
+  /** Footnote number for each entry in `citations` */
+  footnoteNumbers: number[];
+  footnotes: MemoFootnote[];
+}
+
+/** Cited page image reproduced in the appendix */
+export interface MemoExhibit {
+  label: string;
+  documentName: string;
+  page: number;
+  image_base64: string;
+  /** Heading, e.g. "Exhibit A — lease.pdf, p. 4" */
+  title: string;
+}
+
+/** Fixed memo text in the interface language */
+export interface MemoLabels {
+  /** e.g. "Prepared January 1, 2026" */
+  prepared: string;
+  /** Heading for an answer without a question */
+  answer: string;
+  sources: string;
+  appendix: string;
+}
+
+export interface Memo {
+  title: string;
+  createdAt: Date;
+  /** Document id → filename, for resolving `[doc:... p.N]` markers */
+  documentNames: Record<string, string>;
+  sections: MemoSection[];
+  exhibits: MemoExhibit[];
+  labels: MemoLabels;
+}
+
+interface BuildMemoOptions {
+  title?: string;
+  documentNames?: Record<string, string>;
+  /** Translator for headings, captions and the date */
+  translator: Pick<Translator, "t" | "formatDate">;
+}
+
+/** Exhibit labels: A, B, ..., Z, AA, AB, ... */
+function exhibitLabel(index: number): string {
+  let label = "";
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    label = String.fromCharCode(65 + rem) + label;
+    n = Math.floor((n - 1) / 26);
+  }
+  return label;
+}
+
+/**
+ * Build a memo from question/answer pairs in `messages`.
+ * Failed answers and questions without an answer are skipped.
+ */
+export function buildMemo(messages: Message[], options: BuildMemoOptions): Memo {
+  const { t, formatDate } = options.translator;
+  const documentNames = options.documentNames ?? {};
+  const exhibits: MemoExhibit[] = [];
+  const exhibitByPage = new Map<string, MemoExhibit>();
+  const sections: MemoSection[] = [];
+  let nextFootnote = 1;
+
+  messages.forEach((message, index) => {
+    if (message.role !== "assistant" || !message.content || message.isError) return;
+    // A displayed older version is exported under the question it answered
+    const asked = messages[index - 1]?.role === "user" ? messages[index - 1].content : "";
+    const question = displayedQuery(message) ?? asked;
+
+    const citations = message.citations ?? [];
+    const footnoteNumbers: number[] = [];
+    const footnotes: MemoFootnote[] = [];
+    const footnoteByPage = new Map<string, number>();
+
+    for (const citation of citations) {
+      const key = `${citation.document_id}:${citation.page}`;
+      const documentName = documentNames[citation.document_id] ?? citation.document_id;
+
+      let exhibit = exhibitByPage.get(key);
+      if (!exhibit) {
+        const label = exhibitLabel(exhibits.length);
+        exhibit = {
+          label,
+          documentName,
+          page: citation.page,
+          image_base64: citation.image_base64,
+          title: t("memo.exhibit", { label, document: documentName, page: citation.page }),
+        };
+        exhibits.push(exhibit);
+        exhibitByPage.set(key, exhibit);
+      }
+
+      let number = footnoteByPage.get(key);
+      if (number === undefined) {
+        number = nextFootnote++;
+        footnoteByPage.set(key, number);
+        footnotes.push({
+          number,
+          documentName,
+          page: citation.page,
+          exhibit: exhibit.label,
+          text: t("memo.footnote", { label: exhibit.label, document: documentName, page: citation.page }),
+        });
+      }
+      footnoteNumbers.push(number);
+    }
+
+    sections.push({
+      question,
+      answer: message.content,
+      blocks: parseBlocks(message.content),
+      citations,
+      footnoteNumbers,
+      footnotes,
+    });
+  });
+
+  const createdAt = new Date();
+  return {
+    title: options.title ?? t("memo.defaultTitle"),
+    createdAt,
+    documentNames,
+    sections,
+    exhibits,
+    labels: {
+      prepared: t("memo.prepared", { date: formatDate(createdAt) }),
+      answer: t("memo.answer"),
+      sources: t("memo.sources"),
+      appendix: t("memo.appendix"),
+    },
+  };
+}
+
+/** Footnote number an inline marker refers to, or null if it matches no citation */
+export function footnoteForMarker(
+  memo: Memo,
+  section: MemoSection,
+  marker: CitationMarker
+): number | null {
+  const index = resolveCitationMarker(marker, section.citations, memo.documentNames);
+  return index === -1 ? null : section.footnoteNumbers[index];
+}
+
@@ -0,0 +1,435 @@
+/**
+ * Client-side memo export to Markdown, DOCX and PDF.
+ * The DOCX and PDF writers are loaded on demand to keep them out of
+ * the main bundle.
+ */
+
+import type { BlockNode, InlineNode } from "./markdown";
+import { replaceCitationMarkers } from "./markdown";
+import { footnoteForMarker, type Memo, type MemoSection } from "./memo";
+
+export type MemoFormat = "docx" | "pdf" | "markdown";
+
+const FILE_EXTENSIONS: Record<MemoFormat, string> = {
+  docx: "docx",
+  pdf: "pdf",
+  markdown: "md",
+};
+
+/** Largest exhibit image size, in pixels, in the DOCX appendix */
+const DOCX_EXHIBIT_MAX = { width: 560, height: 720 };
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Pixel size from a PNG header, or null when the data is not a PNG */
+function pngSize(bytes: Uint8Array): { width: number; height: number } | null {
+  if (bytes.length < 24 || bytes[0] !== 0x89 || bytes[1] !== 0x50) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+function fitWithin(
+  size: { width: number; height: number },
+  max: { width: number; height: number }
+): { width: number; height: number } {
+  const scale = Math.min(1, max.width / size.width, max.height / size.height);
+  return { width: size.width * scale, height: size.height * scale };
+}
+
+/** Unreferenced footnotes are listed after the answer so none are lost */
+function unreferencedFootnotes(memo: Memo, section: MemoSection): number[] {
+  const referenced = new Set<number>();
+  replaceCitationMarkers(section.answer, (marker, raw) => {
+    const number = footnoteForMarker(memo, section, marker);
+    if (number !== null) referenced.add(number);
+    return raw;
+  });
+  return section.footnotes.map((f) => f.number).filter((n) => !referenced.has(n));
+}
+
+// --- Markdown ---------------------------------------------------------------
+
+export function memoToMarkdown(memo: Memo): string {
+  const lines: string[] = [
+    `# ${memo.title}`,
+    "",
+    `_${memo.labels.prepared}_`,
+    "",
+  ];
+
+  memo.sections.forEach((section, index) => {
+    lines.push(`## ${index + 1}. ${section.question || memo.labels.answer}`, "");
+
+    const body = replaceCitationMarkers(section.answer, (marker, raw) => {
+      const number = footnoteForMarker(memo, section, marker);
+      return number === null ? raw : `[^${number}]`;
+    });
+    lines.push(body.trim());
+
+    const extra = unreferencedFootnotes(memo, section);
+    if (extra.length > 0) {
+      lines.push("", `${memo.labels.sources}: ${extra.map((n) => `[^${n}]`).join(" ")}`);
+    }
+    lines.push("");
+
+    section.footnotes.forEach((footnote) => {
+      lines.push(`[^${footnote.number}]: ${footnote.text}`);
+    });
+    lines.push("");
+  });
+
+  if (memo.exhibits.length > 0) {
+    lines.push(`## ${memo.labels.appendix}`, "");
+    memo.exhibits.forEach((exhibit) => {
+      lines.push(
+        `### ${exhibit.title}`,
+        "",
+        `![${exhibit.title}](data:image/png;base64,${exhibit.image_base64})`,
+        ""
+      );
+    });
+  }
+
+  return lines.join("\n");
+}
+
+// --- DOCX -------------------------------------------------------------------
+
+export async function memoToDocx(memo: Memo): Promise<Blob> {
+  const {
+    Document,
+    Packer,
+    Paragraph,
+    TextRun,
+    ExternalHyperlink,
+    FootnoteReferenceRun,
+    HeadingLevel,
+    ImageRun,
+  } = await import("docx");
+
+  type Run = InstanceType<typeof TextRun> | InstanceType<typeof ExternalHyperlink>;
+  type RunStyle = { bold?: boolean; italics?: boolean };
+  const HEADINGS = [HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4];
+
+  const footnotes: Record<number, { children: InstanceType<typeof Paragraph>[] }> = {};
+
+  const inlineRuns = (
+    section: MemoSection,
+    nodes: InlineNode[],
+    style: RunStyle = {}
+  ): Run[] =>
+    nodes.flatMap((node): Run[] => {
+      switch (node.type) {
+        case "text":
+          return [new TextRun({ text: node.value, ...style })];
+        case "strong":
+          return inlineRuns(section, node.children, { ...style, bold: true });
+        case "emphasis":
+          return inlineRuns(section, node.children, { ...style, italics: true });
+        case "code":
+          return [new TextRun({ text: node.value, font: "Courier New", ...style })];
+        case "link":
+          return [
+            new ExternalHyperlink({
+              link: node.href,
+              children: inlineRuns(section, node.children, style) as InstanceType<typeof TextRun>[],
+            }),
+          ];
+        case "break":
+          return [new TextRun({ text: "", break: 1 })];
+        case "citation": {
+          const number = footnoteForMarker(memo, section, node.marker);
+          return [number === null ? new TextRun({ text: node.raw, ...style }) : new FootnoteReferenceRun(number)];
+        }
+      }
+    });
+
+  const blockParagraphs = (
+    section: MemoSection,
+    nodes: BlockNode[],
+    depth = 0
+  ): InstanceType<typeof Paragraph>[] =>
+    nodes.flatMap((node) => {
+      switch (node.type) {
+        case "heading":
+          return [
+            new Paragraph({
+              heading: HEADINGS[Math.min(node.level, HEADINGS.length) - 1],
+              children: inlineRuns(section, node.children),
+            }),
+          ];
+        case "paragraph":
+          return [
+            new Paragraph({
+              children: inlineRuns(section, node.children),
+              indent: depth ? { left: depth * 360 } : undefined,
+            }),
+          ];
+        case "list":
+          return node.items.flatMap((item, index) => {
+            const [first, ...rest] = item;
+            const runs = first?.type === "paragraph" ? inlineRuns(section, first.children) : [];
+            const marker = node.ordered
+              ? { children: [new TextRun(`${node.start + index}. `), ...runs], indent: { left: (depth + 1) * 360 } }
+              : { children: runs, bullet: { level: depth } };
+            const remaining = first?.type === "paragraph" ? rest : item;
+            return [new Paragraph(marker), ...blockParagraphs(section, remaining, depth + 1)];
+          });
+        case "blockquote":
+          return blockParagraphs(section, node.children, depth + 1);
+        case "code":
+          return node.value.split("\n").map(
+            (line) =>
+              new Paragraph({
+                children: [new TextRun({ text: line, font: "Courier New", size: 18 })],
+              })
+          );
+        case "rule":
+          return [new Paragraph({ thematicBreak: true })];
+      }
+    });
+
+  const children: InstanceType<typeof Paragraph>[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, text: memo.title }),
+    new Paragraph({
+      children: [new TextRun({ text: memo.labels.prepared, italics: true })],
+    }),
+  ];
+
+  memo.sections.forEach((section, index) => {
+    section.footnotes.forEach((footnote) => {
+      footnotes[footnote.number] = { children: [new Paragraph(footnote.text)] };
+    });
+
+    children.push(
+      new Paragraph({
+        heading: HeadingLevel.HEADING_1,
+        text: `${index + 1}. ${section.question || memo.labels.answer}`,
+      }),
+      ...blockParagraphs(section, section.blocks)
+    );
+
+    const extra = unreferencedFootnotes(memo, section);
+    if (extra.length > 0) {
+      children.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: `${memo.labels.sources}:`, italics: true }),
+            ...extra.map((n) => new FootnoteReferenceRun(n)),
+          ],
+        })
+      );
+    }
+  });
+
+  if (memo.exhibits.length > 0) {
+    children.push(
+      new Paragraph({ heading: HeadingLevel.HEADING_1, text: memo.labels.appendix, pageBreakBefore: true })
+    );
+    memo.exhibits.forEach((exhibit, index) => {
+      const data = base64ToBytes(exhibit.image_base64);
+      const size = fitWithin(pngSize(data) ?? { width: 600, height: 800 }, DOCX_EXHIBIT_MAX);
+      children.push(
+        new Paragraph({
+          heading: HeadingLevel.HEADING_2,
+          text: exhibit.title,
+          pageBreakBefore: index > 0,
+        }),
+        new Paragraph({
+          children: [new ImageRun({ type: "png", data, transformation: size })],
+        })
+      );
+    });
+  }
+
+  const doc = new Document({
+    title: memo.title,
+    footnotes,
+    sections: [{ children }],
+  });
+  return Packer.toBlob(doc);
+}
+
+// --- PDF --------------------------------------------------------------------
+
+export async function memoToPdf(memo: Memo): Promise<Blob> {
+  const { jsPDF } = await import("jspdf");
+  const pdf = new jsPDF({ unit: "pt", format: "letter" });
+
+  const margin = 56;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+
+  const write = (
+    text: string,
+    { size = 11, style = "normal", indent = 0, gap = 6 }: {
+      size?: number;
+      style?: "normal" | "bold" | "italic";
+      indent?: number;
+      gap?: number;
+    } = {}
+  ) => {
+    pdf.setFont("helvetica", style);
+    pdf.setFontSize(size);
+    const lineHeight = size * 1.35;
+    const lines: string[] = pdf.splitTextToSize(text, contentWidth - indent);
+    for (const line of lines) {
+      ensureSpace(lineHeight);
+      pdf.text(line, margin + indent, y + size);
+      y += lineHeight;
+    }
+    y += gap;
+  };
+
+  const inlineText = (section: MemoSection, nodes: InlineNode[]): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+            return node.value;
+          case "code":
+            return node.value;
+          case "strong":
+          case "emphasis":
+          case "link":
+            return inlineText(section, node.children);
+          case "break":
+            return "\n";
+          case "citation": {
+            const number = footnoteForMarker(memo, section, node.marker);
+            return number === null ? node.raw : `[${number}]`;
+          }
+        }
+      })
+      .join("");
+
+  const writeBlocks = (section: MemoSection, nodes: BlockNode[], indent = 0) => {
+    nodes.forEach((node) => {
+      switch (node.type) {
+        case "heading":
+          write(inlineText(section, node.children), { size: 12, style: "bold", indent });
+          break;
+        case "paragraph":
+          write(inlineText(section, node.children), { indent });
+          break;
+        case "list":
+          node.items.forEach((item, index) => {
+            const [first, ...rest] = item;
+            const bullet = node.ordered ? `${node.start + index}.` : "•";
+            const text = first?.type === "paragraph" ? inlineText(section, first.children) : "";
+            write(`${bullet} ${text}`, { indent: indent + 12, gap: 2 });
+            writeBlocks(section, first?.type === "paragraph" ? rest : item, indent + 24);
+          });
+          y += 4;
+          break;
+        case "blockquote":
+          writeBlocks(section, node.children, indent + 18);
+          break;
+        case "code":
+          write(node.value, { size: 9, indent });
+          break;
+        case "rule":
+          ensureSpace(12);
+          pdf.setDrawColor(200);
+          pdf.line(margin, y + 6, pageWidth - margin, y + 6);
+          y += 12;
+          break;
+      }
+    });
+  };
+
+  write(memo.title, { size: 20, style: "bold" });
+  write(memo.labels.prepared, { size: 10, style: "italic", gap: 18 });
+
+  memo.sections.forEach((section, index) => {
+    write(`${index + 1}. ${section.question || memo.labels.answer}`, { size: 14, style: "bold", gap: 8 });
+    writeBlocks(section, section.blocks);
+
+    const extra = unreferencedFootnotes(memo, section);
+    if (extra.length > 0) {
+      write(`${memo.labels.sources}: ${extra.map((n) => `[${n}]`).join(" ")}`, { style: "italic" });
+    }
+
+    // Notes close each section, numbered continuously through the memo
+    if (section.footnotes.length > 0) {
+      ensureSpace(16);
+      pdf.setDrawColor(200);
+      pdf.line(margin, y + 4, margin + 120, y + 4);
+      y += 10;
+      section.footnotes.forEach((footnote) => {
+        write(`${footnote.number}. ${footnote.text}`, { size: 9, gap: 2 });
+      });
+    }
+    y += 14;
+  });
+
+  memo.exhibits.forEach((exhibit) => {
+    pdf.addPage();
+    y = margin;
+    write(exhibit.title, {
+      size: 14,
+      style: "bold",
+      gap: 12,
+    });
+
+    const data = base64ToBytes(exhibit.image_base64);
+    const size = fitWithin(pngSize(data) ?? { width: 600, height: 800 }, {
+      width: contentWidth,
+      height: pageHeight - y - margin,
+    });
+    pdf.addImage(data, "PNG", margin, y, size.width, size.height);
+  });
+
+  return pdf.output("blob");
+}
+
+// --- Download ---------------------------------------------------------------
+
+/** Lowercase, dash-separated file name stem */
+export function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+      .slice(0, 60) || "memo"
+  );
+}
+
+/** Trigger a browser download for a generated file */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Generate the memo in the given format and download it */
+export async function exportMemo(memo: Memo, format: MemoFormat): Promise<void> {
+  const blob =
+    format === "docx"
+      ? await memoToDocx(memo)
+      : format === "pdf"
+        ? await memoToPdf(memo)
+        : new Blob([memoToMarkdown(memo)], { type: "text/markdown;charset=utf-8" });
+
+  downloadBlob(blob, `${slugify(memo.title)}.${FILE_EXTENSIONS[format]}`);
+}
@@ -0,0 +1,346 @@
+/**
+ * In-process mock of the LexVisual backend for offline development, demos
+ * and automated tests. Enabled with `LEXVISUAL_MOCK_BACKEND=1`, in which
+ * case the proxy answers every request from here instead of the backend.
+ *
+ * Documents live in memory and start with two samples. Query and upload
+ * streams follow scripted SSE sequences. Failures are triggered by tags in
+ * the query text (all) or upload filename (`#error`, `#500`, `#slow`):
+ *
+ * - `#error`   error event partway through the stream
+ * - `#drop`    connection drops mid-answer, then resumes on reconnect
+ * - `#500`     HTTP 500 before the stream starts
+ * - `#invalid` citation that breaks the payload contract
+ * - `#slow`    five times slower streaming
+ *
+ * Playbook questions (queries carrying the `RISK:` instruction) get a short
+ * answer ending in a risk line.
+ *
+ * `LEXVISUAL_MOCK_HEALTH` sets the reported health: `ok` (default),
+ * `loading` or `down`. `LEXVISUAL_MOCK_FEEDBACK=off` answers feedback with
+ * 404, like a backend without the endpoint.
+ *
+ * Server only.
+ */
+
+import type { Citation, DocumentInfo, FeedbackRecord, QueryRequest } from "./types";
+import { pageParagraphs, renderPagePng } from "./mockPageImage";
+import { sha256Hex } from "./utils";
+import { RISK_LINE_PREFIX } from "./playbook";
+
+export const MOCK_BACKEND_ENABLED = ["1", "true"].includes(process.env.LEXVISUAL_MOCK_BACKEND ?? "");
+
+const TOKEN_DELAY_MS = 25;
+const STEP_DELAY_MS = 400;
+const MAX_CITATIONS = 3;
+/** Uploads stream one status per page up to this many pages */
+const MAX_PAGE_STATUSES = 8;
+
+interface ScriptedEvent {
+  event: string;
+  data: unknown;
+  /** Pause before sending, in ms */
+  delay: number;
+}
+
+// Kept on globalThis so documents and feedback survive dev server module reloads
+const store = globalThis as typeof globalThis & {
+  __lexvisualMockDocuments?: DocumentInfo[];
+  __lexvisualMockFeedback?: Map<string, FeedbackRecord>;
+};
+
+function documents(): DocumentInfo[] {
+  store.__lexvisualMockDocuments ??= [
+    {
+      id: "mock-msa",
+      filename: "Master Services Agreement.pdf",
+      page_count: 12,
+      uploaded_at: new Date(Date.now() - 3 * 24 * 3600_000).toISOString(),
+      indexed: true,
+    },
+    {
+      id: "mock-nda",
+      filename: "Mutual NDA - Acme Corp.pdf",
+      page_count: 4,
+      uploaded_at: new Date(Date.now() - 24 * 3600_000).toISOString(),
+      indexed: true,
+    },
+  ];
+  return store.__lexvisualMockDocuments;
+}
+
+function json(data: unknown, status = 200): Response {
+  return status === 204 ? new Response(null, { status }) : Response.json(data, { status });
+}
+
+function notFound(detail = "Not found"): Response {
+  return json({ detail }, 404);
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done);
+  });
+}
+
+/**
+ * Stream `events` as SSE with sequential IDs, skipping those the client
+ * already saw (`Last-Event-ID`). With `dropAfter`, a fresh connection
+ * closes after that many events without a terminal event.
+ */
+function sseResponse(request: Request, events: ScriptedEvent[], dropAfter?: number): Response {
+  const lastEventId = Number(request.headers.get("last-event-id")) || 0;
+  const encoder = new TextEncoder();
+  const { signal } = request;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      controller.enqueue(encoder.encode("retry: 500\n\n"));
+      for (let index = lastEventId; index < events.length; index++) {
+        if (dropAfter !== undefined && lastEventId === 0 && index === dropAfter) break;
+        const { event, data, delay } = events[index];
+        await sleep(delay, signal);
+        if (signal.aborted) return;
+        const payload = JSON.stringify(data);
+        controller.enqueue(encoder.encode(`id: ${index + 1}\nevent: ${event}\ndata: ${payload}\n\n`));
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(body, {
+    headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+}
+
+function words(text: string, delay: number): ScriptedEvent[] {
+  return text.split(/(?<=\s)/).map((word) => ({ event: "token", data: word, delay }));
+}
+
+// --- Endpoints ---------------------------------------------------------------
+
+function health(): Response {
+  switch (process.env.LEXVISUAL_MOCK_HEALTH) {
+    case "down":
+      return json({ detail: "Mock backend is down" }, 503);
+    case "loading":
+      return json({ status: "ok", gpu_available: true, gpu_name: "Mock GPU", model_loaded: false });
+    default:
+      return json({ status: "ok", gpu_available: true, gpu_name: "Mock GPU", model_loaded: true });
+  }
+}
+
+async function auth(request: Request, action: string): Promise<Response> {
+  if (action === "logout") return json(null, 204);
+  const body = await request.json().catch(() => ({}));
+  if (action === "login" && (!body.email || body.password === "wrong")) {
+    return json({ detail: "Invalid email or password" }, 401);
+  }
+  const token = crypto.randomUUID();
+  return json({ access_token: `mock-access-${token}`, refresh_token: `mock-refresh-${token}`, expires_in: 3600 });
+}
+
+async function renameDocument(request: Request, id: string): Promise<Response> {
+  const document = documents().find((doc) => doc.id === id);
+  if (!document) return notFound("Document not found");
+  const { filename } = await request.json().catch(() => ({}));
+  if (typeof filename !== "string" || !filename.trim()) {
+    return json({ detail: "filename is required" }, 422);
+  }
+  document.filename = filename.trim();
+  return json(document);
+}
+
+function deleteDocument(id: string): Response {
+  const list = documents();
+  const index = list.findIndex((doc) => doc.id === id);
+  if (index === -1) return notFound("Document not found");
+  list.splice(index, 1);
+  return json(null, 204);
+}
+
+function pageImage(id: string, page: number): Response {
+  const document = documents().find((doc) => doc.id === id);
+  if (!document || !(page >= 1 && page <= document.page_count)) return notFound("Page not found");
+  return new Response(new Uint8Array(renderPagePng(id, page)), {
+    headers: { "Content-Type": "image/png", "Cache-Control": "private, max-age=3600" },
+  });
+}
+
+/** Rough page count: PDF page objects, excluding the page tree */
+function countPdfPages(bytes: Uint8Array): number {
+  const text = new TextDecoder("latin1").decode(bytes);
+  return (text.match(/\/Type\s*\/Page(?!s)/g) ?? []).length || 1;
+}
+
+async function upload(request: Request): Promise<Response> {
+  const form = await request.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!(file instanceof File)) return json({ detail: "file is required" }, 422);
+  if (file.name.includes("#500")) return json({ detail: "Simulated server error" }, 500);
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const pageCount = countPdfPages(bytes);
+  const slow = file.name.includes("#slow") ? 5 : 1;
+  const document: DocumentInfo = {
+    id: `mock-${crypto.randomUUID().slice(0, 8)}`,
+    filename: file.name,
+    page_count: pageCount,
+    uploaded_at: new Date().toISOString(),
+    indexed: true,
+    sha256: await sha256Hex(bytes),
+  };
+
+  const events: ScriptedEvent[] = [{ event: "status", data: "Saving document...", delay: STEP_DELAY_MS * slow }];
+  const shown = Math.min(pageCount, MAX_PAGE_STATUSES);
+  for (let page = 1; page <= shown; page++) {
+    const label = shown < pageCount ? `${Math.round((page / shown) * pageCount)}` : `${page}`;
+    events.push({ event: "status", data: `Rendering page ${label}/${pageCount}...`, delay: 150 * slow });
+  }
+  if (file.name.includes("#error")) {
+    events.push({ event: "error", data: "Simulated indexing failure", delay: STEP_DELAY_MS * slow });
+    return sseResponse(request, events);
+  }
+  events.push({ event: "status", data: "Embedding pages...", delay: STEP_DELAY_MS * slow });
+  events.push({ event: "done", data: document, delay: STEP_DELAY_MS * slow });
+
+  // Only list the document once indexing has "finished"
+  const delay = events.reduce((total, event) => total + event.delay, 0);
+  setTimeout(() => {
+    if (!request.signal.aborted) documents().push(document);
+  }, delay - STEP_DELAY_MS * slow);
+
+  return sseResponse(request, events);
+}
+
+function scriptAnswer(query: string, scope: DocumentInfo[]): { citations: Citation[]; answer: string } {
+  const citations: Citation[] = [];
+  const seed = [...query].reduce((total, char) => total + char.charCodeAt(0), 0);
+
+  for (let index = 0; index < MAX_CITATIONS; index++) {
+    const document = scope[index % scope.length];
+    const page = ((seed + index * 7) % document.page_count) + 1;
+    if (citations.some((c) => c.document_id === document.id && c.page === page)) continue;
+    const paragraphs = pageParagraphs(document.id, page);
+    const paragraph = paragraphs[(seed + index) % paragraphs.length];
+    citations.push({
+      page,
+      score: Number((0.92 - index * 0.11).toFixed(2)),
+      image_base64: renderPagePng(document.id, page).toString("base64"),
+      document_id: document.id,
+      highlights: [{ bbox: paragraph, text: `Passage supporting "${query.slice(0, 60)}"` }],
+    });
+  }
+
+  const marker = (citation: Citation) =>
+    scope.length > 1 ? `[doc:${citation.document_id} p.${citation.page}]` : `[p.${citation.page}]`;
+  const [first, second, third] = citations;
+
+  if (query.includes(RISK_LINE_PREFIX)) {
+    const risks = ["LOW", "MEDIUM", "HIGH", "MISSING"];
+    const risk = risks[seed % risks.length];
+    const answer =
+      risk === "MISSING"
+        ? `The document does not appear to address this.\n${RISK_LINE_PREFIX} ${risk}`
+        : `Addressed on page ${first.page} ${marker(first)}${second ? ` and qualified on page ${second.page} ${marker(second)}` : ""}.\n${RISK_LINE_PREFIX} ${risk}`;
+    return { citations: risk === "MISSING" ? [] : citations, answer };
+  }
+
+  const answer = [
+    `Based on the retrieved pages, here is what the documents say about **${query.replace(/#\w+/g, "").trim()}**.`,
+    "",
+    `- The primary provision is set out on page ${first.page} ${marker(first)}, which defines the parties' obligations and the conditions that apply.`,
+    second
+      ? `- Page ${second.page} ${marker(second)} qualifies this with notice requirements and a limitation on remedies.`
+      : "- No qualifying provisions were found elsewhere in the document.",
+    third ? `- A related definition appears on page ${third.page} ${marker(third)}.` : "",
+    "",
+    "> This is a scripted answer from the mock backend.",
+  ]
+    .filter((line, index, lines) => line !== "" || lines[index - 1] !== "")
+    .join("\n");
+
+  return { citations, answer };
+}
+
+async function query(request: Request): Promise<Response> {
+  const body = (await request.json().catch(() => null)) as QueryRequest | null;
+  if (!body || typeof body.query !== "string") return json({ detail: "query is required" }, 422);
+
+  const text = body.query;
+  if (text.includes("#500")) return json({ detail: "Simulated server error" }, 500);
+
+  const all = documents();
+  const scope = body.document_ids?.length ? all.filter((doc) => body.document_ids!.includes(doc.id)) : all;
+  const slow = text.includes("#slow") ? 5 : 1;
+
+  if (scope.length === 0) {
+    return sseResponse(request, [{ event: "error", data: "No indexed documents to search", delay: STEP_DELAY_MS }]);
+  }
+
+  const { citations, answer } = scriptAnswer(text, scope);
+  const events: ScriptedEvent[] = [
+    { event: "status", data: `Searching ${scope.length} document${scope.length === 1 ? "" : "s"}...`, delay: STEP_DELAY_MS * slow },
+    {
+      event: "reasoning",
+      data: body.history?.length
+        ? `Follow-up question; considering ${body.history.length} earlier turn(s) and retrieving supporting pages.`
+        : "Identifying the clauses relevant to the question and retrieving supporting pages.",
+      delay: STEP_DELAY_MS * slow,
+    },
+    ...citations.map((citation) => ({ event: "citation", data: citation, delay: 200 * slow })),
+  ];
+  if (text.includes("#invalid")) {
+    events.push({ event: "citation", data: { ...citations[0], score: "high" }, delay: 200 * slow });
+  }
+  events.push({ event: "status", data: "Generating answer...", delay: STEP_DELAY_MS * slow });
+
+  const tokens = words(answer, TOKEN_DELAY_MS * slow);
+  if (text.includes("#error")) {
+    events.push(...tokens.slice(0, Math.ceil(tokens.length / 2)));
+    events.push({ event: "error", data: "Simulated generation failure", delay: STEP_DELAY_MS * slow });
+    return sseResponse(request, events);
+  }
+  const dropAfter = text.includes("#drop") ? events.length + Math.ceil(tokens.length / 2) : undefined;
+  events.push(...tokens, { event: "done", data: {}, delay: 0 });
+
+  return sseResponse(request, events, dropAfter);
+}
+
+async function feedback(request: Request): Promise<Response> {
+  if (process.env.LEXVISUAL_MOCK_FEEDBACK === "off") return notFound();
+  const record = (await request.json().catch(() => null)) as FeedbackRecord | null;
+  if (!record?.id) return json({ detail: "id is required" }, 422);
+  store.__lexvisualMockFeedback ??= new Map();
+  store.__lexvisualMockFeedback.set(record.id, record);
+  return json(null, 204);
+}
+
+/** Answer a proxied request (`path` relative to `/api`) from the mock */
+export async function mockBackend(request: Request, path: string): Promise<Response> {
+  const { method } = request;
+  const segments = path.split("/").filter(Boolean).map(decodeURIComponent);
+
+  if (path === "/health" && method === "GET") return health();
+  if (segments[0] === "auth" && segments.length === 2 && method === "POST") return auth(request, segments[1]);
+  if (path === "/query" && method === "POST") return query(request);
+  if (path === "/feedback" && method === "POST") return feedback(request);
+
+  if (segments[0] === "documents") {
+    if (segments.length === 1 && method === "GET") return json(documents());
+    if (segments[1] === "upload" && method === "POST") return upload(request);
+    if (segments.length === 2 && method === "PATCH") return renameDocument(request, segments[1]);
+    if (segments.length === 2 && method === "DELETE") return deleteDocument(segments[1]);
+    if (segments.length === 4 && segments[2] === "pages" && method === "GET") {
+      return pageImage(segments[1], Number(segments[3]));
+    }
+  }
+
+  return notFound();
+}
@@ -0,0 +1,156 @@
+/**
+ * Sample page images for the mock backend: a grayscale PNG sketch of a
+ * document page (heading, paragraphs of text lines, page number), encoded
+ * without image dependencies. Server only.
+ */
+
+import { deflateSync } from "node:zlib";
+import type { BoundingBox } from "./types";
+
+const WIDTH = 425;
+const HEIGHT = 550;
+const MARGIN = 40;
+const LINE_HEIGHT = 11;
+const LINE_THICKNESS = 4;
+
+/** 3x5 digit glyphs, one row per string */
+const DIGITS: Record<string, string[]> = {
+  "0": ["111", "101", "101", "101", "111"],
+  "1": ["010", "110", "010", "010", "111"],
+  "2": ["111", "001", "111", "100", "111"],
+  "3": ["111", "001", "111", "001", "111"],
+  "4": ["101", "101", "111", "001", "001"],
+  "5": ["111", "100", "111", "001", "111"],
+  "6": ["111", "100", "111", "101", "111"],
+  "7": ["111", "001", "010", "010", "010"],
+  "8": ["111", "101", "111", "101", "111"],
+  "9": ["111", "101", "111", "001", "111"],
+};
+
+/** Deterministic pseudo-random numbers so a page always looks the same */
+function random(seed: string): () => number {
+  let state = 2166136261;
+  for (const char of seed) state = Math.imul(state ^ char.charCodeAt(0), 16777619);
+  return () => {
+    state = Math.imul(state ^ (state >>> 15), 2246822507);
+    state = Math.imul(state ^ (state >>> 13), 3266489909);
+    state ^= state >>> 16;
+    return (state >>> 0) / 4294967296;
+  };
+}
+
+interface PageLayout {
+  /** Paragraph boxes in page-relative coordinates */
+  paragraphs: BoundingBox[];
+  draw: (pixels: Uint8Array) => void;
+}
+
+function fillRect(pixels: Uint8Array, x: number, y: number, width: number, height: number, shade: number) {
+  for (let row = Math.max(0, y); row < Math.min(HEIGHT, y + height); row++) {
+    pixels.fill(shade, row * WIDTH + Math.max(0, x), row * WIDTH + Math.min(WIDTH, x + width));
+  }
+}
+
+function layoutPage(documentId: string, page: number): PageLayout {
+  const next = random(`${documentId}:${page}`);
+  const paragraphs: BoundingBox[] = [];
+  const lines: { x: number; y: number; width: number; shade: number }[] = [];
+  const textWidth = WIDTH - 2 * MARGIN;
+
+  let y = MARGIN;
+  if (page === 1) {
+    lines.push({ x: MARGIN + textWidth * 0.2, y, width: textWidth * 0.6, shade: 60 });
+    y += LINE_HEIGHT * 3;
+  }
+
+  while (y < HEIGHT - MARGIN - LINE_HEIGHT * 4) {
+    const top = y;
+    const count = 3 + Math.floor(next() * 6);
+    for (let index = 0; index < count && y < HEIGHT - MARGIN - LINE_HEIGHT * 2; index++) {
+      const isLast = index === count - 1;
+      const width = isLast ? textWidth * (0.3 + next() * 0.5) : textWidth * (0.92 + next() * 0.08);
+      lines.push({ x: MARGIN, y, width, shade: 150 });
+      y += LINE_HEIGHT;
+    }
+    paragraphs.push({
+      x: (MARGIN - 4) / WIDTH,
+      y: (top - 4) / HEIGHT,
+      width: (textWidth + 8) / WIDTH,
+      height: (y - top + 4 - (LINE_HEIGHT - LINE_THICKNESS)) / HEIGHT,
+    });
+    y += LINE_HEIGHT;
+  }
+
+  return {
+    paragraphs,
+    draw: (pixels) => {
+      for (const line of lines) {
+        fillRect(pixels, Math.round(line.x), line.y, Math.round(line.width), LINE_THICKNESS, line.shade);
+      }
+      // Page number, centered in the bottom margin
+      const scale = 3;
+      const label = String(page);
+      let x = Math.round(WIDTH / 2 - (label.length * 4 * scale) / 2);
+      const top = HEIGHT - MARGIN + 8;
+      for (const digit of label) {
+        DIGITS[digit].forEach((row, rowIndex) => {
+          [...row].forEach((bit, column) => {
+            if (bit === "1") fillRect(pixels, x + column * scale, top + rowIndex * scale, scale, scale, 90);
+          });
+        });
+        x += 4 * scale;
+      }
+    },
+  };
+}
+
+/** Paragraph boxes on a page, for mock citation highlights */
+export function pageParagraphs(documentId: string, page: number): BoundingBox[] {
+  return layoutPage(documentId, page).paragraphs;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array): Buffer {
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** PNG image of a mock document page */
+export function renderPagePng(documentId: string, page: number): Buffer {
+  const pixels = new Uint8Array(WIDTH * HEIGHT).fill(255);
+  layoutPage(documentId, page).draw(pixels);
+
+  // Each scanline is prefixed with filter type 0 (none)
+  const raw = Buffer.alloc((WIDTH + 1) * HEIGHT);
+  for (let row = 0; row < HEIGHT; row++) {
+    raw.set(pixels.subarray(row * WIDTH, (row + 1) * WIDTH), row * (WIDTH + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(WIDTH, 0);
+  header.writeUInt32BE(HEIGHT, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // grayscale
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", new Uint8Array()),
+  ]);
+}
@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createPlaybookRow, parsePlaybookAnswer } from "./playbook";
+import { playbookToCsv } from "./playbookExport";
+import { createTranslator } from "./i18n";
+import type { PlaybookRow } from "./types";
+
+const { t } = createTranslator("en");
+
+test("reads the risk flag from the final line", () => {
+  assert.deepEqual(parsePlaybookAnswer("New York law governs [1].\nRISK: LOW"), {
+    answer: "New York law governs [1].",
+    risk: "low",
+  });
+  assert.deepEqual(parsePlaybookAnswer("Uncapped indemnity.\n\nrisk : high — unusual"), {
+    answer: "Uncapped indemnity.",
+    risk: "high",
+  });
+});
+
+test("accepts Markdown decoration around the risk line", () => {
+  for (const line of ["**RISK:** MEDIUM", "**RISK: MEDIUM**", "- RISK: MEDIUM", "> _RISK:_ MEDIUM"]) {
+    assert.deepEqual(
+      parsePlaybookAnswer(`Either party on 30 days' notice.\n${line}`),
+      { answer: "Either party on 30 days' notice.", risk: "medium" },
+      line
+    );
+  }
+});
+
+test("flags provisions the document does not address", () => {
+  assert.deepEqual(parsePlaybookAnswer("The agreement is silent on assignment.\nRISK: MISSING"), {
+    answer: "The agreement is silent on assignment.",
+    risk: "missing",
+  });
+});
+
+test("leaves the risk unknown without a risk line", () => {
+  for (const text of ["Payment is due in 30 days.  ", "The risk: is low.", "RISK: SEVERE"]) {
+    assert.deepEqual(parsePlaybookAnswer(text), { answer: text.trim(), risk: "unknown" }, text);
+  }
+});
+
+function row(label: string, answer: string, fields: Partial<PlaybookRow> = {}): PlaybookRow {
+  return {
+    ...createPlaybookRow({ id: label, label, question: `${label}?` }),
+    status: "done",
+    answer,
+    ...fields,
+  };
+}
+
+test("exports a CSV with a translated header and quoted fields", () => {
+  const csv = playbookToCsv(
+    [
+      row("Term", 'Three years, "renewable", then yearly\nunless terminated', {
+        risk: "low",
+        citations: [
+          { page: 4, score: 1, image_base64: "", document_id: "d" },
+          { page: 2, score: 1, image_base64: "", document_id: "d" },
+          { page: 4, score: 0.5, image_base64: "", document_id: "d" },
+        ],
+      }),
+      row("Payment", "", { status: "error", error: "Backend unavailable" }),
+    ],
+    t
+  );
+  assert.deepEqual(csv.split("\r\n"), [
+    "Topic,Question,Answer,Risk,Pages,Status",
+    'Term,Term?,"Three years, ""renewable"", then yearly\nunless terminated",Low,"2, 4",Answered',
+    "Payment,Payment?,Backend unavailable,,,Failed",
+  ]);
+});
+
+test("keeps CSV fields from being read as formulas", () => {
+  const csv = playbookToCsv(
+    [
+      row("=HYPERLINK(\"http://x\")", "+1 555 0100"),
+      row("-2", "@SUM(A1)"),
+      row("Tab", "\tindented, with comma"),
+    ],
+    t
+  );
+  assert.deepEqual(csv.split("\r\n").slice(1), [
+    `"'=HYPERLINK(""http://x"")","'=HYPERLINK(""http://x"")?",'+1 555 0100,,,Answered`,
+    "'-2,'-2?,'@SUM(A1),,,Answered",
+    `Tab,Tab?,"'\tindented, with comma",,,Answered`,
+  ]);
+});
@@ -0,0 +1,61 @@
+/**
+ * Review playbooks: a fixed list of questions run against one document,
+ * each answered briefly with a risk flag.
+ */
+
+import type { PlaybookQuestion, PlaybookRisk, PlaybookRow } from "./types";
+import type { MessageKey, Translator } from "./i18n";
+
+const DEFAULT_QUESTIONS: { id: string; label: MessageKey; question: MessageKey }[] = [
+  { id: "governing-law", label: "playbook.default.governingLaw.label", question: "playbook.default.governingLaw.question" },
+  { id: "term", label: "playbook.default.term.label", question: "playbook.default.term.question" },
+  { id: "termination", label: "playbook.default.termination.label", question: "playbook.default.termination.question" },
+  { id: "indemnity-cap", label: "playbook.default.indemnityCap.label", question: "playbook.default.indemnityCap.question" },
+  { id: "liability", label: "playbook.default.liability.label", question: "playbook.default.liability.question" },
+  { id: "assignment", label: "playbook.default.assignment.label", question: "playbook.default.assignment.question" },
+  { id: "change-of-control", label: "playbook.default.changeOfControl.label", question: "playbook.default.changeOfControl.question" },
+  { id: "confidentiality", label: "playbook.default.confidentiality.label", question: "playbook.default.confidentiality.question" },
+  { id: "payment", label: "playbook.default.payment.label", question: "playbook.default.payment.question" },
+  { id: "dispute-resolution", label: "playbook.default.disputeResolution.label", question: "playbook.default.disputeResolution.question" },
+];
+
+/** Default playbook in the interface language */
+export function defaultPlaybook(t: Translator["t"]): PlaybookQuestion[] {
+  return DEFAULT_QUESTIONS.map(({ id, label, question }) => ({ id, label: t(label), question: t(question) }));
+}
+
+/** Marker the model ends each answer with; kept in English so it parses in any answer language */
+export const RISK_LINE_PREFIX = "RISK:";
+
+const RISK_INSTRUCTIONS =
+  "Answer in one or two sentences and cite the pages you rely on. " +
+  `On a final line write exactly "${RISK_LINE_PREFIX} HIGH", "${RISK_LINE_PREFIX} MEDIUM" or ` +
+  `"${RISK_LINE_PREFIX} LOW" for how unfavourable or unusual the provision is, or ` +
+  `"${RISK_LINE_PREFIX} MISSING" if the document does not address it. ` +
+  "Keep that line in English.";
+
+const RISK_LINE_PATTERN = /^[\s*_>-]*RISK\s*:\s*[*_]*\s*(HIGH|MEDIUM|LOW|MISSING)\b.*$/im;
+
+/** Query sent for a playbook question */
+export function playbookPrompt(question: string): string {
+  return `${question}\n\n${RISK_INSTRUCTIONS}`;
+}
+
+/** Split the model's reply into the short answer and its risk flag */
+export function parsePlaybookAnswer(text: string): { answer: string; risk: PlaybookRisk } {
+  const match = text.match(RISK_LINE_PATTERN);
+  if (!match) return { answer: text.trim(), risk: "unknown" };
+  return {
+    answer: text.replace(match[0], "").trim(),
+    risk: match[1].toLowerCase() as PlaybookRisk,
+  };
+}
+
+export function createPlaybookRow(question: PlaybookQuestion): PlaybookRow {
+  return { ...question, status: "pending", answer: "", risk: "unknown", citations: [] };
+}
+
+/** Distinct cited pages in page order */
+export function citedPages(row: PlaybookRow): number[] {
+  return Array.from(new Set(row.citations.map((c) => c.page))).sort((a, b) => a - b);
+}
@@ -0,0 +1,67 @@
+/**
+ * Playbook review grid export to CSV and XLSX.
+ */
+
+import type { PlaybookRow } from "./types";
+import type { Translator } from "./i18n";
+import { citedPages } from "./playbook";
+import { downloadBlob, slugify } from "./memoExport";
+import { buildXlsx, type CellValue } from "./xlsx";
+
+export type PlaybookExportFormat = "csv" | "xlsx";
+
+const COLUMN_WIDTHS = [22, 40, 80, 14, 12, 10];
+
+function tableRows(rows: PlaybookRow[], t: Translator["t"]): CellValue[][] {
+  return [
+    [
+      t("playbook.columnTopic"),
+      t("playbook.columnQuestion"),
+      t("playbook.columnAnswer"),
+      t("playbook.columnRisk"),
+      t("playbook.columnPages"),
+      t("playbook.columnStatus"),
+    ],
+    ...rows.map((row) => [
+      row.label,
+      row.question,
+      row.status === "error" ? row.error ?? t("playbook.noAnswer") : row.answer,
+      row.risk === "unknown" ? "" : t(`playbook.risk.${row.risk}`),
+      citedPages(row).join(", "),
+      t(`playbook.status.${row.status}`),
+    ]),
+  ];
+}
+
+/** Characters that make spreadsheet apps read a CSV field as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: CellValue): string {
+  let text = String(value);
+  // Answers and questions are untrusted text; keep them from running as formulas
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function playbookToCsv(rows: PlaybookRow[], t: Translator["t"]): string {
+  return tableRows(rows, t)
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n");
+}
+
+/** Download the grid for `documentName` in the given format, labelled in the interface language */
+export function exportPlaybook(
+  rows: PlaybookRow[],
+  format: PlaybookExportFormat,
+  documentName: string,
+  t: Translator["t"]
+): void {
+  const filename = `${slugify(`${documentName} playbook`)}.${format}`;
+  if (format === "csv") {
+    // BOM so spreadsheet apps read the file as UTF-8
+    downloadBlob(new Blob(["\uFEFF", playbookToCsv(rows, t)], { type: "text/csv;charset=utf-8" }), filename);
+  } else {
+    // Strings are written as inline text cells, which are never evaluated as formulas
+    downloadBlob(buildXlsx(tableRows(rows, t), { sheetName: "Playbook", columnWidths: COLUMN_WIDTHS }), filename);
+  }
+}
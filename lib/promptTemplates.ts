@@ -0,0 +1,95 @@
+/**
+ * Prompt template helpers: placeholders, built-in templates and the JSON
+ * format teams use to share template sets.
+ */
+
+import type { PromptTemplate, PromptTemplateData, PromptTemplateExport } from "./types";
+import type { MessageKey, Translator } from "./i18n";
+import { parse, promptTemplateExportSchema } from "./schemas";
+
+export const TEMPLATE_EXPORT_VERSION = 1;
+
+const PLACEHOLDER_PATTERN = /\{([^{}\n]+)\}/g;
+
+const BUILT_IN_TEMPLATES: { id: string; title: MessageKey; text: MessageKey }[] = [
+  { id: "builtin-clauses", title: "prompts.clauses.label", text: "prompts.clauses.prompt" },
+  { id: "builtin-risks", title: "prompts.risks.label", text: "prompts.risks.prompt" },
+  { id: "builtin-summary", title: "prompts.summary.label", text: "prompts.summary.prompt" },
+  { id: "builtin-obligations", title: "prompts.obligations.label", text: "prompts.obligations.prompt" },
+];
+
+/** Built-in templates in the interface language */
+export function builtInTemplates(t: Translator["t"]): PromptTemplate[] {
+  const createdAt = new Date(0);
+  return BUILT_IN_TEMPLATES.map(({ id, title, text }) => ({
+    id,
+    title: t(title),
+    category: t("templates.generalCategory"),
+    text: t(text),
+    builtIn: true,
+    createdAt,
+    updatedAt: createdAt,
+  }));
+}
+
+/** Placeholder names in order of first appearance */
+export function templatePlaceholders(text: string): string[] {
+  const names: string[] = [];
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1].trim();
+    if (name && !names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+/** Replace placeholders with their values; unfilled ones stay as written */
+export function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const value = values[name.trim()]?.trim();
+    return value ? value : match;
+  });
+}
+
+/** Templates grouped by category, categories and templates sorted by name */
+export function groupTemplates(templates: PromptTemplate[]): [string, PromptTemplate[]][] {
+  const groups = new Map<string, PromptTemplate[]>();
+  for (const template of templates) {
+    const group = groups.get(template.category) ?? [];
+    group.push(template);
+    groups.set(template.category, group);
+  }
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([category, group]) => [
+      category,
+      group.sort((a, b) => a.title.localeCompare(b.title)),
+    ]);
+}
+
+/** Shareable JSON for user templates */
+export function serializeTemplates(templates: PromptTemplate[]): string {
+  const data: PromptTemplateExport = {
+    version: TEMPLATE_EXPORT_VERSION,
+    templates: templates
+      .filter((template) => !template.builtIn)
+      .map(({ title, category, text }) => ({ title, category, text })),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/** Read an exported template file; throws SchemaError or SyntaxError on bad input */
+export function parseTemplateFile(json: string): PromptTemplateData[] {
+  const data = parse(promptTemplateExportSchema, JSON.parse(json), "templates file");
+  return data.templates
+    .map((template) => ({
+      title: template.title.trim(),
+      category: template.category.trim(),
+      text: template.text.trim(),
+    }))
+    .filter((template) => template.title && template.text);
+}
+
+/** Same title, category and text */
+export function isSameTemplate(a: PromptTemplateData, b: PromptTemplateData): boolean {
+  return a.title === b.title && a.category === b.category && a.text === b.text;
+}
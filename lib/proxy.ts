@@ -0,0 +1,140 @@
+/**
+ * Server-side proxy to the LexVisual backend, used by the `app/api` route
+ * handlers. Keeps the backend address off the client, tags each request
+ * with an ID, enforces body size limits and streams responses (including
+ * SSE) through without buffering.
+ *
+ * Server only: reads private environment variables.
+ */
+
+import { ACCESS_TOKEN_COOKIE } from "./auth";
+import { MOCK_BACKEND_ENABLED, mockBackend } from "./mockBackend";
+
+const BACKEND_URL = (process.env.LEXVISUAL_BACKEND_URL || "http://localhost:8000").replace(/\/+$/, "");
+
+/** Largest upload accepted, in bytes (default 50 MB) */
+export const MAX_UPLOAD_BYTES = Number(process.env.LEXVISUAL_MAX_UPLOAD_BYTES) || 50 * 1024 * 1024;
+/** Largest JSON request body accepted, in bytes */
+export const MAX_JSON_BYTES = 1024 * 1024;
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+/** Request headers passed on to the backend */
+const FORWARDED_REQUEST_HEADERS = ["accept", "content-type", "last-event-id"];
+
+/** Response headers that describe the proxied connection, not the payload */
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "transfer-encoding",
+  // fetch has already decoded the body
+  "content-encoding",
+  "content-length",
+];
+
+export interface ProxyOptions {
+  /** Reject bodies larger than this; requests with a body must declare a length */
+  maxBodyBytes?: number;
+}
+
+function errorResponse(status: number, detail: string, code: string, requestId: string): Response {
+  return Response.json({ detail, code }, { status, headers: { [REQUEST_ID_HEADER]: requestId } });
+}
+
+function log(requestId: string, message: string) {
+  console.info(`[proxy ${requestId}] ${message}`);
+}
+
+/**
+ * Forward `request` to `path` on the backend and return its response.
+ * The Authorization header falls back to the access token cookie so that
+ * plain `<img>` requests are authenticated too.
+ */
+export async function proxyRequest(
+  request: Request,
+  path: string,
+  { maxBodyBytes = MAX_JSON_BYTES }: ProxyOptions = {}
+): Promise<Response> {
+  const requestId = request.headers.get(REQUEST_ID_HEADER) || crypto.randomUUID();
+  const { search } = new URL(request.url);
+  const target = `${BACKEND_URL}/api${path}${search}`;
+  const started = Date.now();
+  const label = `${request.method} ${path}`;
+
+  const hasBody = request.method !== "GET" && request.method !== "HEAD" && request.body !== null;
+  if (hasBody) {
+    const length = request.headers.get("content-length");
+    if (length === null) {
+      log(requestId, `${label} rejected: no content length`);
+      return errorResponse(411, "Request body must declare its length", "length_required", requestId);
+    }
+    if (Number(length) > maxBodyBytes) {
+      log(requestId, `${label} rejected: ${length} bytes exceeds ${maxBodyBytes}`);
+      const limitMb = Math.round(maxBodyBytes / (1024 * 1024));
+      return errorResponse(413, `Request is too large (limit ${limitMb} MB)`, "payload_too_large", requestId);
+    }
+  }
+
+  const headers = new Headers({ [REQUEST_ID_HEADER]: requestId });
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  const authorization = request.headers.get("authorization");
+  const cookieToken = parseCookie(request.headers.get("cookie"), ACCESS_TOKEN_COOKIE);
+  if (authorization) {
+    headers.set("authorization", authorization);
+  } else if (cookieToken) {
+    headers.set("authorization", `Bearer ${cookieToken}`);
+  }
+
+  let upstream: Response;
+  try {
+    upstream = MOCK_BACKEND_ENABLED
+      ? await mockBackend(request, path)
+      : await fetch(target, {
+          method: request.method,
+          headers,
+          body: hasBody ? request.body : undefined,
+          // Stream the request body instead of buffering it
+          duplex: "half",
+          // Client disconnects cancel the backend request
+          signal: request.signal,
+          cache: "no-store",
+        } as RequestInit & { duplex: "half" });
+  } catch (error) {
+    if (request.signal.aborted) {
+      log(requestId, `${label} cancelled by client`);
+      return new Response(null, { status: 499 });
+    }
+    console.error(`[proxy ${requestId}] ${label} failed:`, error);
+    return errorResponse(502, "The backend is unreachable", "backend_unavailable", requestId);
+  }
+
+  const source = MOCK_BACKEND_ENABLED ? " (mock)" : "";
+  log(requestId, `${label} -> ${upstream.status}${source} in ${Date.now() - started}ms`);
+
+  const responseHeaders = new Headers(upstream.headers);
+  for (const name of HOP_BY_HOP_HEADERS) responseHeaders.delete(name);
+  responseHeaders.set(REQUEST_ID_HEADER, requestId);
+  if (responseHeaders.get("content-type")?.startsWith("text/event-stream")) {
+    // Keep intermediaries from buffering or compressing the stream
+    responseHeaders.set("cache-control", "no-cache, no-transform");
+    responseHeaders.set("x-accel-buffering", "no");
+  }
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: responseHeaders,
+  });
+}
+
+function parseCookie(header: string | null, name: string): string | null {
+  if (!header) return null;
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(rest.join("="));
+  }
+  return null;
+}
@@ -0,0 +1,222 @@
+/**
+ * Runtime validation of backend payloads.
+ * Small composable validators: each returns the typed value or throws a
+ * SchemaError naming the offending field, so a backend change surfaces
+ * as a clear error instead of broken UI.
+ */
+
+import type {
+  AuthResponse,
+  BoundingBox,
+  Citation,
+  CitationHighlight,
+  DocumentInfo,
+  HealthResponse,
+  PromptTemplateData,
+  PromptTemplateExport,
+  SSEEvent,
+} from "./types";
+
+export class SchemaError extends Error {
+  constructor(
+    message: string,
+    public path: string
+  ) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = "SchemaError";
+  }
+}
+
+/** Validates `value` found at `path` and returns it typed */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function expect(condition: boolean, expected: string, value: unknown, path: string) {
+  if (!condition) {
+    throw new SchemaError(`expected ${expected}, got ${describe(value)}`, path);
+  }
+}
+
+// --- Primitives and combinators ---------------------------------------------
+
+const string: Schema<string> = (value, path) => {
+  expect(typeof value === "string", "string", value, path);
+  return value as string;
+};
+
+const number: Schema<number> = (value, path) => {
+  expect(typeof value === "number" && Number.isFinite(value), "number", value, path);
+  return value as number;
+};
+
+const boolean: Schema<boolean> = (value, path) => {
+  expect(typeof value === "boolean", "boolean", value, path);
+  return value as boolean;
+};
+
+/** Accepts any value; for responses whose body is ignored */
+export const anything: Schema<unknown> = (value) => value;
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) => (value === null ? null : schema(value, path));
+}
+
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    expect(Array.isArray(value), "array", value, path);
+    return (value as unknown[]).map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+/** Object with the given fields; unknown fields are dropped */
+function object<T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return (value, path) => {
+    expect(typeof value === "object" && value !== null && !Array.isArray(value), "object", value, path);
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const parsed = shape[key](source[key], path ? `${path}.${key}` : key);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return result as T;
+  };
+}
+
+// --- API payloads ------------------------------------------------------------
+
+export const documentInfoSchema: Schema<DocumentInfo> = object<DocumentInfo>({
+  id: string,
+  filename: string,
+  page_count: number,
+  uploaded_at: string,
+  indexed: boolean,
+  sha256: optional(string),
+});
+
+const boundingBoxSchema: Schema<BoundingBox> = object<BoundingBox>({
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+});
+
+const citationHighlightSchema: Schema<CitationHighlight> = object<CitationHighlight>({
+  bbox: optional(boundingBoxSchema),
+  text: optional(string),
+});
+
+export const citationSchema: Schema<Citation> = object<Citation>({
+  page: number,
+  score: number,
+  image_base64: string,
+  document_id: string,
+  highlights: optional(array(citationHighlightSchema)),
+});
+
+export const healthResponseSchema: Schema<HealthResponse> = object<HealthResponse>({
+  status: string,
+  gpu_available: boolean,
+  gpu_name: nullable(string),
+  model_loaded: boolean,
+});
+
+export const documentListSchema: Schema<DocumentInfo[]> = array(documentInfoSchema);
+
+export const authResponseSchema: Schema<AuthResponse> = object<AuthResponse>({
+  access_token: string,
+  refresh_token: optional(string),
+  expires_in: optional(number),
+});
+
+// --- Local files -------------------------------------------------------------
+
+const promptTemplateDataSchema: Schema<PromptTemplateData> = object<PromptTemplateData>({
+  title: string,
+  category: string,
+  text: string,
+});
+
+export const promptTemplateExportSchema: Schema<PromptTemplateExport> =
+  object<PromptTemplateExport>({
+    version: number,
+    templates: array(promptTemplateDataSchema),
+  });
+
+/**
+ * Read `{ detail, code }` from an error response body.
+ * Lenient: error bodies vary (e.g. validation errors carry a list).
+ */
+export function parseErrorBody(value: unknown): { detail?: string; code?: string } {
+  if (typeof value !== "object" || value === null) return {};
+  const { detail, code } = value as Record<string, unknown>;
+  return {
+    detail: typeof detail === "string" ? detail : undefined,
+    code: typeof code === "string" ? code : undefined,
+  };
+}
+
+/** Validate a payload; `label` names it in the error message */
+export function parse<T>(schema: Schema<T>, value: unknown, label = ""): T {
+  return schema(value, label);
+}
+
+// --- SSE events --------------------------------------------------------------
+
+/** Text payloads are JSON encoded, but plain text is tolerated */
+function textPayload(value: unknown, raw: string, path: string): string {
+  if (typeof value === "string") return value;
+  // Error events may carry { message } or { detail } objects
+  if (typeof value === "object" && value !== null) {
+    const { message, detail } = value as Record<string, unknown>;
+    if (typeof message === "string") return message;
+    if (typeof detail === "string") return detail;
+  }
+  if (value === null || typeof value === "number" || typeof value === "boolean") return raw;
+  throw new SchemaError(`expected text, got ${describe(value)}`, path);
+}
+
+/**
+ * Parse an SSE message into a typed event.
+ * Returns null for event types this client does not know, so the backend
+ * can add events without breaking older clients.
+ */
+export function parseSSEEvent(event: string, data: string): SSEEvent | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(data);
+  } catch {
+    value = data;
+  }
+  const path = `${event} event`;
+
+  switch (event) {
+    case "status":
+    case "reasoning":
+    case "token":
+    case "error":
+      return { event, data: textPayload(value, data, path) };
+
+    case "citation":
+      return { event, data: citationSchema(value, path) };
+
+    case "done":
+      // Only upload completions carry a document
+      if (typeof value === "object" && value !== null && "id" in value) {
+        return { event, data: documentInfoSchema(value, path) };
+      }
+      return { event, data: null };
+
+    default:
+      return null;
+  }
+}
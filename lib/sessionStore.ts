@@ -0,0 +1,474 @@
+/**
+ * IndexedDB persistence for chat sessions, saved document sets, prompt
+ * templates, the evidence board and answer feedback. Citation page images are stored once,
+ * keyed by content hash, and referenced from messages and pins so repeated
+ * pages are not duplicated.
+ */
+
+import type {
+  AnswerVersion,
+  ChatSession,
+  ChatSessionSummary,
+  Citation,
+  DocumentSet,
+  EvidencePin,
+  FeedbackRecord,
+  Message,
+  PromptTemplate,
+} from "./types";
+import { sha256Hex } from "./utils";
+
+const DB_NAME = "lexvisual";
+const DB_VERSION = 5;
+const SESSIONS_STORE = "sessions";
+const IMAGES_STORE = "images";
+const DOCUMENT_SETS_STORE = "documentSets";
+const PROMPT_TEMPLATES_STORE = "promptTemplates";
+const EVIDENCE_PINS_STORE = "evidencePins";
+const FEEDBACK_STORE = "feedback";
+
+/** Citation as persisted: image replaced by a reference into the image store */
+interface StoredCitation extends Omit<Citation, "image_base64"> {
+  image_key: string;
+}
+
+interface StoredVersion extends Omit<AnswerVersion, "citations"> {
+  citations?: StoredCitation[];
+}
+
+interface StoredMessage
+  extends Omit<Message, "citations" | "versions" | "timestamp" | "isStreaming"> {
+  citations?: StoredCitation[];
+  versions?: StoredVersion[];
+  timestamp: string;
+}
+
+interface StoredSession {
+  id: string;
+  title: string;
+  documentIds?: string[];
+  /** Single-document scope written before multi-select scopes */
+  documentId?: string | null;
+  messages: StoredMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface StoredImage {
+  key: string;
+  data: string;
+}
+
+interface StoredDocumentSet extends Omit<DocumentSet, "createdAt"> {
+  createdAt: string;
+}
+
+interface StoredPromptTemplate extends Omit<PromptTemplate, "createdAt" | "updatedAt" | "builtIn"> {
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface StoredEvidencePin extends Omit<EvidencePin, "citation" | "createdAt"> {
+  citation: StoredCitation;
+  createdAt: string;
+}
+
+interface StoredFeedback extends FeedbackRecord {
+  /** The backend has accepted this version of the record */
+  synced: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE, { keyPath: "key" });
+        }
+        if (!db.objectStoreNames.contains(DOCUMENT_SETS_STORE)) {
+          db.createObjectStore(DOCUMENT_SETS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(PROMPT_TEMPLATES_STORE)) {
+          db.createObjectStore(PROMPT_TEMPLATES_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(EVIDENCE_PINS_STORE)) {
+          db.createObjectStore(EVIDENCE_PINS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(FEEDBACK_STORE)) {
+          db.createObjectStore(FEEDBACK_STORE, { keyPath: "id" });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function storedScope(session: StoredSession): string[] {
+  return session.documentIds ?? (session.documentId ? [session.documentId] : []);
+}
+
+function toSummary(session: StoredSession): ChatSessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    documentIds: storedScope(session),
+    messageCount: session.messages.length,
+    createdAt: new Date(session.createdAt),
+    updatedAt: new Date(session.updatedAt),
+  };
+}
+
+/** Replace citation images with hash references, collecting the images */
+async function storeCitations(
+  citations: Citation[] | undefined,
+  images: Map<string, string>
+): Promise<StoredCitation[] | undefined> {
+  if (!citations) return undefined;
+
+  const stored: StoredCitation[] = [];
+  for (const { image_base64, ...citation } of citations) {
+    const key = await sha256Hex(image_base64);
+    images.set(key, image_base64);
+    stored.push({ ...citation, image_key: key });
+  }
+  return stored;
+}
+
+/** Resolve image references back to citations, reading each image once */
+async function restoreCitations(
+  citations: StoredCitation[] | undefined,
+  images: IDBObjectStore,
+  cache: Map<string, string>
+): Promise<Citation[] | undefined> {
+  if (!citations) return undefined;
+
+  const restored: Citation[] = [];
+  for (const { image_key, ...citation } of citations) {
+    if (!cache.has(image_key)) {
+      const image = await promisifyRequest<StoredImage | undefined>(
+        images.get(image_key)
+      );
+      cache.set(image_key, image?.data ?? "");
+    }
+    restored.push({ ...citation, image_base64: cache.get(image_key)! });
+  }
+  return restored;
+}
+
+/** List all sessions, most recently updated first */
+export async function listSessions(): Promise<ChatSessionSummary[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, "readonly");
+  const stored = await promisifyRequest<StoredSession[]>(
+    tx.objectStore(SESSIONS_STORE).getAll()
+  );
+
+  return stored
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/** Load a session with citation images restored */
+export async function loadSession(id: string): Promise<ChatSession | null> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, IMAGES_STORE], "readonly");
+  const stored = await promisifyRequest<StoredSession | undefined>(
+    tx.objectStore(SESSIONS_STORE).get(id)
+  );
+  if (!stored) return null;
+
+  const images = tx.objectStore(IMAGES_STORE);
+  const imageCache = new Map<string, string>();
+
+  const messages: Message[] = [];
+  for (const { citations, versions, timestamp, ...rest } of stored.messages) {
+    let restoredVersions: AnswerVersion[] | undefined;
+    if (versions) {
+      restoredVersions = [];
+      for (const version of versions) {
+        restoredVersions.push({
+          ...version,
+          citations: await restoreCitations(version.citations, images, imageCache),
+        });
+      }
+    }
+
+    messages.push({
+      ...rest,
+      citations: await restoreCitations(citations, images, imageCache),
+      versions: restoredVersions,
+      timestamp: new Date(timestamp),
+    });
+  }
+
+  return {
+    id: stored.id,
+    title: stored.title,
+    documentIds: storedScope(stored),
+    messages,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt),
+  };
+}
+
+/** Create or overwrite a session */
+export async function saveSession(session: ChatSession): Promise<void> {
+  // Hash images before opening the transaction; it would auto-commit across awaits
+  const images = new Map<string, string>();
+  const messages: StoredMessage[] = [];
+
+  for (const message of session.messages) {
+    const { citations, versions, timestamp, isStreaming: _isStreaming, ...rest } = message;
+
+    let storedVersions: StoredVersion[] | undefined;
+    if (versions) {
+      storedVersions = [];
+      for (const version of versions) {
+        storedVersions.push({
+          ...version,
+          citations: await storeCitations(version.citations, images),
+        });
+      }
+    }
+
+    messages.push({
+      ...rest,
+      citations: await storeCitations(citations, images),
+      versions: storedVersions,
+      timestamp: timestamp.toISOString(),
+    });
+  }
+
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, IMAGES_STORE], "readwrite");
+  const imageStore = tx.objectStore(IMAGES_STORE);
+  images.forEach((data, key) => imageStore.put({ key, data } satisfies StoredImage));
+
+  tx.objectStore(SESSIONS_STORE).put({
+    id: session.id,
+    title: session.title,
+    documentIds: session.documentIds,
+    messages,
+    createdAt: session.createdAt.toISOString(),
+    updatedAt: session.updatedAt.toISOString(),
+  } satisfies StoredSession);
+
+  await transactionDone(tx);
+}
+
+/** Rename a session without touching its messages */
+export async function renameSession(id: string, title: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, "readwrite");
+  const store = tx.objectStore(SESSIONS_STORE);
+  const stored = await promisifyRequest<StoredSession | undefined>(store.get(id));
+  if (stored) {
+    store.put({ ...stored, title });
+  }
+  await transactionDone(tx);
+}
+
+/** Delete images no session or evidence pin references */
+async function deleteUnreferencedImages(tx: IDBTransaction): Promise<void> {
+  const images = tx.objectStore(IMAGES_STORE);
+  const sessions = await promisifyRequest<StoredSession[]>(
+    tx.objectStore(SESSIONS_STORE).getAll()
+  );
+  const pins = await promisifyRequest<StoredEvidencePin[]>(
+    tx.objectStore(EVIDENCE_PINS_STORE).getAll()
+  );
+
+  const referenced = new Set<string>();
+  for (const session of sessions) {
+    for (const message of session.messages) {
+      message.citations?.forEach((c) => referenced.add(c.image_key));
+      message.versions?.forEach((v) =>
+        v.citations?.forEach((c) => referenced.add(c.image_key))
+      );
+    }
+  }
+  pins.forEach((pin) => referenced.add(pin.citation.image_key));
+
+  const keys = await promisifyRequest(images.getAllKeys());
+  for (const key of keys) {
+    if (!referenced.has(key as string)) {
+      images.delete(key);
+    }
+  }
+}
+
+/** Delete a session and any images nothing else references */
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, IMAGES_STORE, EVIDENCE_PINS_STORE], "readwrite");
+  tx.objectStore(SESSIONS_STORE).delete(id);
+  await deleteUnreferencedImages(tx);
+  await transactionDone(tx);
+}
+
+/** List saved document sets in creation order */
+export async function listDocumentSets(): Promise<DocumentSet[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(DOCUMENT_SETS_STORE, "readonly");
+  const stored = await promisifyRequest<StoredDocumentSet[]>(
+    tx.objectStore(DOCUMENT_SETS_STORE).getAll()
+  );
+
+  return stored
+    .map((set) => ({ ...set, createdAt: new Date(set.createdAt) }))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/** Create or overwrite a document set */
+export async function saveDocumentSet(set: DocumentSet): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(DOCUMENT_SETS_STORE, "readwrite");
+  tx.objectStore(DOCUMENT_SETS_STORE).put({
+    ...set,
+    createdAt: set.createdAt.toISOString(),
+  } satisfies StoredDocumentSet);
+  await transactionDone(tx);
+}
+
+export async function deleteDocumentSet(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(DOCUMENT_SETS_STORE, "readwrite");
+  tx.objectStore(DOCUMENT_SETS_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+/** List saved prompt templates in creation order */
+export async function listPromptTemplates(): Promise<PromptTemplate[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(PROMPT_TEMPLATES_STORE, "readonly");
+  const stored = await promisifyRequest<StoredPromptTemplate[]>(
+    tx.objectStore(PROMPT_TEMPLATES_STORE).getAll()
+  );
+
+  return stored
+    .map((template) => ({
+      ...template,
+      createdAt: new Date(template.createdAt),
+      updatedAt: new Date(template.updatedAt),
+    }))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/** Create or overwrite prompt templates in one transaction */
+export async function savePromptTemplates(templates: PromptTemplate[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(PROMPT_TEMPLATES_STORE, "readwrite");
+  const store = tx.objectStore(PROMPT_TEMPLATES_STORE);
+  for (const { builtIn: _builtIn, ...template } of templates) {
+    store.put({
+      ...template,
+      createdAt: template.createdAt.toISOString(),
+      updatedAt: template.updatedAt.toISOString(),
+    } satisfies StoredPromptTemplate);
+  }
+  await transactionDone(tx);
+}
+
+export async function deletePromptTemplate(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(PROMPT_TEMPLATES_STORE, "readwrite");
+  tx.objectStore(PROMPT_TEMPLATES_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+/** List evidence board pins in board order */
+export async function listEvidencePins(): Promise<EvidencePin[]> {
+  const db = await openDatabase();
+  const tx = db.transaction([EVIDENCE_PINS_STORE, IMAGES_STORE], "readonly");
+  const stored = await promisifyRequest<StoredEvidencePin[]>(
+    tx.objectStore(EVIDENCE_PINS_STORE).getAll()
+  );
+
+  const images = tx.objectStore(IMAGES_STORE);
+  const imageCache = new Map<string, string>();
+  const pins: EvidencePin[] = [];
+  for (const { citation, createdAt, ...pin } of stored) {
+    const [restored] = (await restoreCitations([citation], images, imageCache))!;
+    pins.push({ ...pin, citation: restored, createdAt: new Date(createdAt) });
+  }
+  return pins.sort((a, b) => a.position - b.position);
+}
+
+/** Create or overwrite evidence pins in one transaction */
+export async function saveEvidencePins(pins: EvidencePin[]): Promise<void> {
+  const images = new Map<string, string>();
+  const stored: StoredEvidencePin[] = [];
+  for (const { citation, createdAt, ...pin } of pins) {
+    const [storedCitation] = (await storeCitations([citation], images))!;
+    stored.push({ ...pin, citation: storedCitation, createdAt: createdAt.toISOString() });
+  }
+
+  const db = await openDatabase();
+  const tx = db.transaction([EVIDENCE_PINS_STORE, IMAGES_STORE], "readwrite");
+  const imageStore = tx.objectStore(IMAGES_STORE);
+  images.forEach((data, key) => imageStore.put({ key, data } satisfies StoredImage));
+  const store = tx.objectStore(EVIDENCE_PINS_STORE);
+  stored.forEach((pin) => store.put(pin));
+  await transactionDone(tx);
+}
+
+/** Delete a pin and its page image unless something else references it */
+export async function deleteEvidencePin(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, IMAGES_STORE, EVIDENCE_PINS_STORE], "readwrite");
+  tx.objectStore(EVIDENCE_PINS_STORE).delete(id);
+  await deleteUnreferencedImages(tx);
+  await transactionDone(tx);
+}
+
+/** List all answer feedback with its sync state */
+export async function listFeedback(): Promise<{ record: FeedbackRecord; synced: boolean }[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(FEEDBACK_STORE, "readonly");
+  const stored = await promisifyRequest<StoredFeedback[]>(tx.objectStore(FEEDBACK_STORE).getAll());
+  return stored.map(({ synced, ...record }) => ({ record, synced }));
+}
+
+/** Create or overwrite feedback for an answer */
+export async function saveFeedback(record: FeedbackRecord, synced: boolean): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(FEEDBACK_STORE, "readwrite");
+  tx.objectStore(FEEDBACK_STORE).put({ ...record, synced } satisfies StoredFeedback);
+  await transactionDone(tx);
+}
+
+export async function deleteFeedback(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(FEEDBACK_STORE, "readwrite");
+  tx.objectStore(FEEDBACK_STORE).delete(id);
+  await transactionDone(tx);
+}
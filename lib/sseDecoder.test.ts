@@ -0,0 +1,90 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SSEDecoder, type SSEMessage } from "./sseDecoder";
+
+/** Feed every chunk and collect the dispatched messages */
+function decode(chunks: string[], decoder = new SSEDecoder()): SSEMessage[] {
+  return chunks.flatMap((chunk) => decoder.push(chunk));
+}
+
+test("dispatches events terminated by LF, CR and CRLF", () => {
+  for (const eol of ["\n", "\r", "\r\n"]) {
+    const messages = decode([`event: token${eol}data: hi${eol}${eol}`]);
+    assert.deepEqual(messages, [{ event: "token", data: "hi", id: "" }], JSON.stringify(eol));
+  }
+});
+
+test("handles line endings split across chunks", () => {
+  // A CRLF split between chunks must not produce an extra empty line
+  assert.deepEqual(decode(["data: a\r", "\ndata: b\r", "\n\r", "\n"]), [
+    { event: "message", data: "a\nb", id: "" },
+  ]);
+  // A lone CR at a chunk end still ends the line
+  assert.deepEqual(decode(["data: a\r", "\r"]), [{ event: "message", data: "a", id: "" }]);
+  // Fields split mid-line are joined
+  assert.deepEqual(decode(["da", "ta: hel", "lo\n", "\n"]), [
+    { event: "message", data: "hello", id: "" },
+  ]);
+});
+
+test("joins multi-line data with newlines", () => {
+  assert.deepEqual(decode(["data: first\ndata:second\ndata\n\n"]), [
+    { event: "message", data: "first\nsecond\n", id: "" },
+  ]);
+});
+
+test("ignores comment lines and unknown fields", () => {
+  assert.deepEqual(decode([": keep-alive\n\n:\nfoo: bar\ndata: x\n: note\n\n"]), [
+    { event: "message", data: "x", id: "" },
+  ]);
+});
+
+test("skips events without data and resets the event type", () => {
+  assert.deepEqual(decode(["event: status\n\ndata: x\n\n"]), [
+    { event: "message", data: "x", id: "" },
+  ]);
+});
+
+test("strips a leading byte order mark", () => {
+  assert.deepEqual(decode(["\ufeffdata: x\n\n"]), [{ event: "message", data: "x", id: "" }]);
+});
+
+test("tracks the last event id", () => {
+  const decoder = new SSEDecoder();
+  const messages = decode(["id: 1\ndata: a\n\ndata: b\n\nid: 2\n\nid: bad\0id\n\n"], decoder);
+  assert.deepEqual(
+    messages.map((m) => m.id),
+    ["1", "1"]
+  );
+  // An id without data still updates the ID; one containing NUL is ignored
+  assert.equal(decoder.lastEventId, "2");
+});
+
+test("accepts only digit retry values", () => {
+  const decoder = new SSEDecoder();
+  decode(["retry: 2500\n\n"], decoder);
+  assert.equal(decoder.retry, 2500);
+  decode(["retry: 1.5\nretry: soon\nretry: -1\n\n"], decoder);
+  assert.equal(decoder.retry, 2500);
+});
+
+test("delivers events completed by the final chunk and discards an unterminated one", () => {
+  const decoder = new SSEDecoder();
+  assert.deepEqual(decode(["data: a\n", "\ndata: partial\ndata: more"], decoder), [
+    { event: "message", data: "a", id: "" },
+  ]);
+
+  // End of stream: the incomplete event is dropped and does not leak into a resumed stream
+  decoder.reset();
+  assert.deepEqual(decode(["data: b\n\n"], decoder), [{ event: "message", data: "b", id: "" }]);
+});
+
+test("keeps the last event id and retry across reset", () => {
+  const decoder = new SSEDecoder();
+  decode(["id: 7\nretry: 100\ndata: a\n\nevent: token\ndata: b\r"], decoder);
+  decoder.reset();
+  assert.equal(decoder.lastEventId, "7");
+  assert.equal(decoder.retry, 100);
+  // A pending CR from before the reset does not swallow the next LF
+  assert.deepEqual(decode(["\ndata: c\n\n"], decoder), [{ event: "message", data: "c", id: "7" }]);
+});
@@ -0,0 +1,115 @@
+/**
+ * Incremental Server-Sent Events decoder following the WHATWG
+ * event-stream format: multi-line data, CR/LF/CRLF line endings,
+ * `id:` / `retry:` fields and comment lines.
+ */
+
+/** A dispatched SSE message */
+export interface SSEMessage {
+  /** Event type; "message" when the stream did not name one */
+  event: string;
+  data: string;
+  /** Last event ID in effect when the message was dispatched */
+  id: string;
+}
+
+export class SSEDecoder {
+  /** Last event ID seen, sent back as `Last-Event-ID` on reconnect */
+  lastEventId = "";
+  /** Reconnection delay requested by the server, in milliseconds */
+  retry: number | null = null;
+
+  private buffer = "";
+  private eventType = "";
+  private dataLines: string[] = [];
+  private isFirstChunk = true;
+  private pendingCR = false;
+
+  /** Feed decoded text; returns the messages completed by this chunk */
+  push(chunk: string): SSEMessage[] {
+    if (this.isFirstChunk && chunk.length > 0) {
+      this.isFirstChunk = false;
+      if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1);
+    }
+
+    // A CR at the end of the last chunk may be the first half of a CRLF
+    if (this.pendingCR && chunk.startsWith("\n")) {
+      chunk = chunk.slice(1);
+    }
+    this.pendingCR = false;
+
+    this.buffer += chunk;
+    const messages: SSEMessage[] = [];
+    let start = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== "\n" && char !== "\r") continue;
+
+      const line = this.buffer.slice(start, i);
+      if (char === "\r") {
+        if (i + 1 === this.buffer.length) {
+          this.pendingCR = true;
+        } else if (this.buffer[i + 1] === "\n") {
+          i += 1;
+        }
+      }
+      start = i + 1;
+
+      const message = this.processLine(line);
+      if (message) messages.push(message);
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return messages;
+  }
+
+  /** Discard any partially received event, e.g. when the stream ends */
+  reset(): void {
+    this.buffer = "";
+    this.eventType = "";
+    this.dataLines = [];
+    this.pendingCR = false;
+  }
+
+  private processLine(line: string): SSEMessage | null {
+    if (line === "") return this.dispatch();
+    if (line.startsWith(":")) return null; // comment / keep-alive
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "event":
+        this.eventType = value;
+        break;
+      case "data":
+        this.dataLines.push(value);
+        break;
+      case "id":
+        if (!value.includes("\0")) this.lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) this.retry = parseInt(value, 10);
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SSEMessage | null {
+    const eventType = this.eventType;
+    const dataLines = this.dataLines;
+    this.eventType = "";
+    this.dataLines = [];
+
+    if (dataLines.length === 0) return null;
+
+    return {
+      event: eventType || "message",
+      data: dataLines.join("\n"),
+      id: this.lastEventId,
+    };
+  }
+}
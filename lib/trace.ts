@@ -0,0 +1,37 @@
+/**
+ * Helpers for recording how an answer was produced.
+ */
+
+import type { TraceStep } from "./types";
+
+/** Close the running step and start a new one */
+export function appendTraceStep(
+  trace: TraceStep[] = [],
+  status: string,
+  now: Date = new Date()
+): TraceStep[] {
+  const last = trace[trace.length - 1];
+  if (last && !last.endedAt && last.status === status) return trace;
+
+  return [...closeTrace(trace, now), { status, startedAt: now }];
+}
+
+/** Mark the running step, if any, as finished */
+export function closeTrace(
+  trace: TraceStep[] = [],
+  now: Date = new Date()
+): TraceStep[] {
+  const last = trace[trace.length - 1];
+  if (!last || last.endedAt) return trace;
+  return [...trace.slice(0, -1), { ...last, endedAt: now }];
+}
+
+/**
+ * Combine reasoning events into the full text.
+ * The backend may resend the growing text or send separate passages.
+ */
+export function mergeReasoning(previous: string | undefined, next: string): string {
+  if (!previous || next.startsWith(previous)) return next;
+  if (previous.endsWith(next)) return previous;
+  return `${previous}\n\n${next}`;
+}
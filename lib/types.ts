@@ -9,6 +9,23 @@ export interface DocumentInfo {
   page_count: number;
   uploaded_at: string;
   indexed: boolean;
+  /** SHA-256 of the uploaded file, when the backend reports it */
+  sha256?: string;
+}
+
+/** Box in page-relative coordinates: 0–1 from the top-left corner */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Part of a cited page that supports the answer */
+export interface CitationHighlight {
+  bbox?: BoundingBox;
+  /** Supporting text span, when the backend extracted it */
+  text?: string;
 }
 
 /** Visual citation with page image */
@@ -17,15 +34,43 @@ export interface Citation {
   score: number;
   image_base64: string;
   document_id: string;
+  highlights?: CitationHighlight[];
 }
 
 /** SSE event types from the backend */
 export type SSEEventType = "status" | "reasoning" | "citation" | "token" | "error" | "done";
 
-/** Parsed SSE event */
-export interface SSEEvent {
-  event: SSEEventType;
-  data: string | Citation | DocumentInfo;
+/** Parsed SSE event, discriminated by event type */
+export type SSEEvent =
+  | { event: "status"; data: string }
+  | { event: "reasoning"; data: string }
+  | { event: "citation"; data: Citation }
+  | { event: "token"; data: string }
+  | { event: "error"; data: string }
+  /** Upload streams finish with the indexed document; query streams with null */
+  | { event: "done"; data: DocumentInfo | null };
+
+/** One status step the agent went through while answering */
+export interface TraceStep {
+  status: string;
+  startedAt: Date;
+  /** Set when the next step starts or the stream ends */
+  endedAt?: Date;
+}
+
+/** One generated answer to a user message, kept when regenerating or editing */
+export interface AnswerVersion {
+  /** The question this version answered */
+  query: string;
+  content: string;
+  citations?: Citation[];
+  reasoning?: string;
+  trace?: TraceStep[];
+  isError?: boolean;
+  isInterrupted?: boolean;
+  droppedTurns?: number;
+  documentIds?: string[];
+  timestamp: Date;
 }
 
 /** Chat message in the conversation */
@@ -36,14 +81,193 @@ export interface Message {
   citations?: Citation[];
   status?: string;
   reasoning?: string;
+  /** Status timeline kept after streaming finishes */
+  trace?: TraceStep[];
   isStreaming?: boolean;
+  isError?: boolean;
+  /** Answer was stopped by the user before completion */
+  isInterrupted?: boolean;
+  /** All completed versions of this answer (assistant messages only) */
+  versions?: AnswerVersion[];
+  /** Index of the displayed version; equals versions.length while a new one streams */
+  versionIndex?: number;
+  /** Number of earlier messages left out of the context sent with this answer */
+  droppedTurns?: number;
+  /** Query scope the answer was generated for (empty = all documents) */
+  documentIds?: string[];
   timestamp: Date;
 }
 
+/** Named, saved query scope, e.g. "Lease + Amendments 1-3" */
+export interface DocumentSet {
+  id: string;
+  name: string;
+  documentIds: string[];
+  createdAt: Date;
+}
+
+/** Reusable question with `{placeholder}` fields, e.g. "Non-compete scope for {party}" */
+export interface PromptTemplate {
+  id: string;
+  title: string;
+  /** Free-form grouping, e.g. a practice group */
+  category: string;
+  text: string;
+  /** Shipped with the app; translated and not editable */
+  builtIn?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Template fields shared in JSON exports */
+export type PromptTemplateData = Pick<PromptTemplate, "title" | "category" | "text">;
+
+/** JSON file format for sharing templates between users */
+export interface PromptTemplateExport {
+  version: number;
+  templates: PromptTemplateData[];
+}
+
+/** Cited page saved to the evidence board */
+export interface EvidencePin {
+  id: string;
+  citation: Citation;
+  documentName?: string;
+  pageCount?: number;
+  /** Question whose answer cited the page */
+  question: string;
+  note: string;
+  tags: string[];
+  /** Board order, ascending */
+  position: number;
+  createdAt: Date;
+}
+
+/** One question in a review playbook */
+export interface PlaybookQuestion {
+  id: string;
+  /** Short row label, e.g. "Governing law" */
+  label: string;
+  question: string;
+}
+
+/** Risk flag the model assigns; "missing" means the document does not address it */
+export type PlaybookRisk = "high" | "medium" | "low" | "missing" | "unknown";
+
+export type PlaybookRowStatus = "pending" | "running" | "done" | "error" | "cancelled";
+
+/** Result of one playbook question against a document */
+export interface PlaybookRow extends PlaybookQuestion {
+  status: PlaybookRowStatus;
+  /** Short answer; the raw streamed text while running */
+  answer: string;
+  risk: PlaybookRisk;
+  citations: Citation[];
+  /** Latest status event while running */
+  progress?: string;
+  /** Backend error message; unset when the stream ended without an answer */
+  error?: string;
+}
+
+/** Persisted chat conversation */
+export interface ChatSession {
+  id: string;
+  title: string;
+  /** Query scope the conversation was held in (empty = all documents) */
+  documentIds: string[];
+  messages: Message[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Session metadata shown in the sessions list */
+export interface ChatSessionSummary extends Omit<ChatSession, "messages"> {
+  messageCount: number;
+}
+
+/** Citation reference carried in conversation history (no image payload) */
+export interface CitationRef {
+  document_id: string;
+  page: number;
+  score: number;
+}
+
+/** Prior exchange sent to the backend for multi-turn context */
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  content: string;
+  citations?: CitationRef[];
+}
+
 /** Query request to the backend */
 export interface QueryRequest {
   query: string;
-  document_id?: string;
+  /** Documents to search; omitted or empty searches all documents */
+  document_ids?: string[];
+  history?: ConversationTurn[];
+  /** Preferred answer language (ISO 639-1, e.g. "es") */
+  answer_language?: string;
+}
+
+export type AnswerRating = "up" | "down";
+
+export type FeedbackReason =
+  | "incorrect"
+  | "incomplete"
+  | "unsupported"
+  | "irrelevant_citations"
+  | "other";
+
+export type CitationLabel = "relevant" | "irrelevant";
+
+/** User judgment of one answer, sent to the backend and exported as an evaluation set */
+export interface FeedbackRecord {
+  /** Assistant message id and answer version */
+  id: string;
+  query: string;
+  /** Documents the question was asked over; empty means all */
+  scope: string[];
+  answer: string;
+  citations: { document_id: string; page: number; score: number; label: CitationLabel | null }[];
+  labels: {
+    rating: AnswerRating | null;
+    reason: FeedbackReason | null;
+    comment: string | null;
+  };
+  updated_at: string;
+}
+
+/** The same question asked of two documents */
+export interface CompareRequest {
+  query: string;
+  left_document_id: string;
+  right_document_id: string;
+  answer_language?: string;
+}
+
+/** Streamed text for one part of a comparison */
+export interface ComparisonPart {
+  content: string;
+  status?: string;
+  isStreaming: boolean;
+  isError?: boolean;
+  isInterrupted?: boolean;
+}
+
+/** One document's answer in a comparison */
+export interface ComparisonAnswer extends ComparisonPart {
+  documentId: string;
+  citations: Citation[];
+}
+
+export interface Comparison {
+  id: string;
+  query: string;
+  left: ComparisonAnswer;
+  right: ComparisonAnswer;
+  /** Summary of differences, generated once both answers are in */
+  summary: ComparisonPart;
+  timestamp: Date;
 }
 
 /** API health check response */
@@ -54,6 +278,14 @@ export interface HealthResponse {
   model_loaded: boolean;
 }
 
+/** Login and refresh response */
+export interface AuthResponse {
+  access_token: string;
+  refresh_token?: string;
+  /** Access token lifetime in seconds */
+  expires_in?: number;
+}
+
 /** Stream state for the agent stream hook */
 export interface StreamState {
   isLoading: boolean;
@@ -65,3 +297,17 @@ export interface StreamState {
   isComplete: boolean;
 }
 
+
+/** Lifecycle of a file in the upload queue */
+export type UploadStatus = "queued" | "uploading" | "done" | "error" | "cancelled";
+
+/** File tracked by the upload queue */
+export interface UploadItem {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  /** Latest status message streamed by the backend */
+  progress: string | null;
+  error: string | null;
+  document?: DocumentInfo;
+}
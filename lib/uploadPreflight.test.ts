@@ -0,0 +1,85 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { deflateSync } from "node:zlib";
+import { MAX_UPLOAD_BYTES } from "./config";
+import { hasBlockingIssue, inspectFile, MAX_UPLOAD_PAGES, type PreflightResult } from "./uploadPreflight";
+
+function pdf(...parts: BlobPart[]): File {
+  return new File(["%PDF-1.7\n%\xe2\xe3\xcf\xd3\n", ...parts, "%%EOF\n"], "contract.pdf", {
+    type: "application/pdf",
+  });
+}
+
+const pageTree = (count: number) =>
+  "1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n" +
+  `2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count ${count} >>\nendobj\n` +
+  "3 0 obj\n<< /Type /Page /Parent 2 0 R >>\nendobj\n";
+
+const codes = (result: PreflightResult) => result.issues.map((issue) => issue.code);
+
+test("accepts a PDF and reads its page count", async () => {
+  const result = await inspectFile(pdf(pageTree(12), "trailer\n<< /Root 1 0 R >>\n"));
+  assert.deepEqual(result.issues, []);
+  assert.equal(result.pageCount, 12);
+  assert.match(result.sha256 ?? "", /^[0-9a-f]{64}$/);
+  assert.equal(hasBlockingIssue(result), false);
+});
+
+test("finds the header after leading junk and rejects files without one", async () => {
+  const junk = new File(["\0".repeat(500), "%PDF-1.4\n", pageTree(1)], "scan.pdf");
+  assert.deepEqual(codes(await inspectFile(junk)), []);
+
+  const result = await inspectFile(new File(["PK\x03\x04 not a pdf"], "contract.pdf"));
+  assert.deepEqual(codes(result), ["notPdf"]);
+  assert.equal(result.pageCount, null);
+  assert.notEqual(result.sha256, null);
+  assert.equal(hasBlockingIssue(result), true);
+});
+
+test("flags encrypted PDFs", async () => {
+  const byReference = await inspectFile(pdf(pageTree(2), "trailer\n<< /Root 1 0 R /Encrypt 9 0 R >>\n"));
+  assert.deepEqual(codes(byReference), ["encrypted"]);
+
+  const inline = await inspectFile(pdf(pageTree(2), "trailer\n<< /Encrypt << /Filter /Standard >> >>\n"));
+  assert.deepEqual(codes(inline), ["encrypted"]);
+});
+
+test("rejects files over the size limit without reading them", async () => {
+  const file = {
+    name: "huge.pdf",
+    size: MAX_UPLOAD_BYTES + 1,
+    arrayBuffer: () => assert.fail("file was read"),
+  } as unknown as File;
+  assert.deepEqual(await inspectFile(file), {
+    sha256: null,
+    pageCount: null,
+    issues: [{ code: "tooLarge", severity: "error" }],
+  });
+});
+
+test("rejects documents over the page limit", async () => {
+  const result = await inspectFile(pdf(pageTree(MAX_UPLOAD_PAGES + 1)));
+  assert.deepEqual(codes(result), ["tooManyPages"]);
+  assert.equal(result.pageCount, MAX_UPLOAD_PAGES + 1);
+});
+
+test("counts pages inside compressed object streams", async () => {
+  const objects = deflateSync(
+    "1 0 2 52\n<< /Type /Catalog /Pages 2 0 R >>\n<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >>"
+  );
+  const result = await inspectFile(
+    pdf(
+      `5 0 obj\n<< /Type /ObjStm /N 2 /First 9 /Filter /FlateDecode /Length ${objects.length} >>\nstream\n`,
+      new Uint8Array(objects),
+      "\nendstream\nendobj\n"
+    )
+  );
+  assert.deepEqual(codes(result), []);
+  assert.equal(result.pageCount, 2);
+});
+
+test("warns when the page count cannot be found", async () => {
+  const result = await inspectFile(pdf("1 0 obj\n<< /Type /Catalog >>\nendobj\n"));
+  assert.deepEqual(result.issues, [{ code: "unknownPages", severity: "warning" }]);
+  assert.equal(hasBlockingIssue(result), false);
+});
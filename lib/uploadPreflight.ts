@@ -0,0 +1,160 @@
+/**
+ * Client-side checks run on a file before it is uploaded: PDF signature,
+ * size and page limits, encryption, and whether the same content is
+ * already indexed.
+ */
+
+import type { DocumentInfo } from "./types";
+import { MAX_UPLOAD_BYTES } from "./config";
+import { sha256Hex } from "./utils";
+
+/** Largest page count accepted for indexing */
+export const MAX_UPLOAD_PAGES = 2000;
+
+const UPLOAD_HASHES_KEY = "lexvisual.uploadHashes";
+
+/** The PDF header may follow up to 1 KB of leading junk */
+const HEADER_SEARCH_BYTES = 1024;
+
+export type PreflightIssueCode =
+  | "notPdf"
+  | "tooLarge"
+  | "encrypted"
+  | "tooManyPages"
+  | "unreadable"
+  | "unknownPages";
+
+export interface PreflightIssue {
+  code: PreflightIssueCode;
+  /** Errors block the upload; warnings are only shown */
+  severity: "error" | "warning";
+}
+
+export interface PreflightResult {
+  sha256: string | null;
+  pageCount: number | null;
+  issues: PreflightIssue[];
+}
+
+// Hashes are computed once per picked file and reused after upload
+const hashCache = new WeakMap<File, string>();
+
+export async function fileSha256(file: File, buffer?: ArrayBuffer): Promise<string> {
+  let hash = hashCache.get(file);
+  if (!hash) {
+    hash = await sha256Hex(buffer ?? (await file.arrayBuffer()));
+    hashCache.set(file, hash);
+  }
+  return hash;
+}
+
+function latin1(bytes: Uint8Array): string {
+  return new TextDecoder("latin1").decode(bytes);
+}
+
+async function inflate(bytes: Uint8Array<ArrayBuffer>): Promise<string | null> {
+  try {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate"));
+    return latin1(new Uint8Array(await new Response(stream).arrayBuffer()));
+  } catch {
+    return null;
+  }
+}
+
+/** Largest `/Count` of a page tree node, i.e. the root's page count */
+function pageTreeCount(text: string): number | null {
+  let count: number | null = null;
+  const pageTrees = /\/Type\s*\/Pages\b/g;
+  for (let match; (match = pageTrees.exec(text)); ) {
+    const dict = text.slice(text.lastIndexOf("<<", match.index), text.indexOf(">>", match.index));
+    const countMatch = dict.match(/\/Count\s+(\d+)/);
+    if (countMatch) count = Math.max(count ?? 0, Number(countMatch[1]));
+  }
+  return count;
+}
+
+/** Page count from the page tree, looking inside compressed object streams if needed */
+async function countPages(bytes: Uint8Array<ArrayBuffer>, text: string): Promise<number | null> {
+  const count = pageTreeCount(text);
+  if (count !== null) return count;
+
+  const objectStreams = /\/Type\s*\/ObjStm\b[\s\S]*?stream\r?\n/g;
+  for (let match; (match = objectStreams.exec(text)); ) {
+    const start = match.index + match[0].length;
+    const end = text.indexOf("endstream", start);
+    if (end === -1) break;
+    const inflated = await inflate(bytes.subarray(start, end));
+    const found = inflated && pageTreeCount(inflated);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** Run the content checks on one file */
+export async function inspectFile(file: File): Promise<PreflightResult> {
+  const issues: PreflightIssue[] = [];
+  const error = (code: PreflightIssueCode) => issues.push({ code, severity: "error" });
+
+  // Not read at all: the file may be far larger than memory allows
+  if (file.size > MAX_UPLOAD_BYTES) {
+    error("tooLarge");
+    return { sha256: null, pageCount: null, issues };
+  }
+
+  let buffer: ArrayBuffer;
+  try {
+    buffer = await file.arrayBuffer();
+  } catch {
+    error("unreadable");
+    return { sha256: null, pageCount: null, issues };
+  }
+
+  const bytes = new Uint8Array(buffer);
+  if (!latin1(bytes.subarray(0, HEADER_SEARCH_BYTES)).includes("%PDF-")) {
+    error("notPdf");
+    return { sha256: await fileSha256(file, buffer), pageCount: null, issues };
+  }
+
+  const text = latin1(bytes);
+  // The trailer (or cross-reference stream) names an encryption dictionary
+  if (/\/Encrypt\s*(?:\d+\s+\d+\s+R|<<)/.test(text)) error("encrypted");
+
+  const pageCount = await countPages(bytes, text);
+  if (pageCount === null) issues.push({ code: "unknownPages", severity: "warning" });
+  else if (pageCount > MAX_UPLOAD_PAGES) error("tooManyPages");
+
+  return { sha256: await fileSha256(file, buffer), pageCount, issues };
+}
+
+export function hasBlockingIssue(result: PreflightResult): boolean {
+  return result.issues.some((issue) => issue.severity === "error");
+}
+
+function loadUploadHashes(): Record<string, string> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(UPLOAD_HASHES_KEY) ?? "{}");
+    return stored && typeof stored === "object" ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Remember which document a file's content was indexed as */
+export function rememberUploadHash(sha256: string, documentId: string): void {
+  localStorage.setItem(
+    UPLOAD_HASHES_KEY,
+    JSON.stringify({ ...loadUploadHashes(), [sha256]: documentId })
+  );
+}
+
+/**
+ * Indexed document with the same content, by the hash the backend reports
+ * or one recorded when the file was uploaded from this browser.
+ */
+export function findIndexedDuplicate(
+  sha256: string,
+  documents: DocumentInfo[]
+): DocumentInfo | undefined {
+  const uploadedAs = loadUploadHashes()[sha256];
+  return documents.find((doc) => doc.sha256 === sha256 || doc.id === uploadedAs);
+}
@@ -0,0 +1,114 @@
+/**
+ * Custom hook that polls the backend health endpoint.
+ * Polls faster while the backend is down or the model is loading so
+ * features re-enable soon after it recovers.
+ */
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import type { HealthResponse } from "./types";
+import { checkHealth } from "./api";
+
+/**
+ * - checking: no response yet
+ * - online: reachable with the model loaded
+ * - loading: reachable, but the model is not ready
+ * - offline: unreachable or returning errors
+ */
+export type BackendStatus = "checking" | "online" | "loading" | "offline";
+
+export interface BackendHealth {
+  status: BackendStatus;
+  health: HealthResponse | null;
+  error: string | null;
+  lastChecked: Date | null;
+}
+
+interface UseBackendHealthOptions {
+  /** Poll interval while online (default 30s) */
+  interval?: number;
+  /** Poll interval while offline or loading (default 5s) */
+  retryInterval?: number;
+  /** Per-request timeout (default 5s) */
+  timeout?: number;
+}
+
+interface UseBackendHealthReturn extends BackendHealth {
+  /** Queries and uploads can be sent; true until the first check says otherwise */
+  isReady: boolean;
+  refresh: () => Promise<void>;
+}
+
+const HEALTHY_STATUSES = ["ok", "healthy"];
+
+function toStatus(health: HealthResponse): BackendStatus {
+  if (!HEALTHY_STATUSES.includes(health.status.toLowerCase())) return "offline";
+  return health.model_loaded ? "online" : "loading";
+}
+
+export function useBackendHealth({
+  interval = 30_000,
+  retryInterval = 5_000,
+  timeout = 5_000,
+}: UseBackendHealthOptions = {}): UseBackendHealthReturn {
+  const [state, setState] = useState<BackendHealth>({
+    status: "checking",
+    health: null,
+    error: null,
+    lastChecked: null,
+  });
+  // Cleared on unmount so in-flight checks do not schedule more
+  const activeRef = useRef(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+
+    let next: BackendHealth;
+    try {
+      const health = await checkHealth(AbortSignal.timeout(timeout));
+      next = { status: toStatus(health), health, error: null, lastChecked: new Date() };
+    } catch (error) {
+      next = {
+        status: "offline",
+        health: null,
+        error: error instanceof Error ? error.message : "Backend unreachable",
+        lastChecked: new Date(),
+      };
+    }
+
+    if (!activeRef.current) return;
+    setState(next);
+    // Overlapping checks (e.g. on wake) must not leave a second timer behind
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(
+      refresh,
+      next.status === "online" ? interval : retryInterval
+    );
+  }, [interval, retryInterval, timeout]);
+
+  useEffect(() => {
+    activeRef.current = true;
+    refresh();
+
+    // Check right away when the network or the tab comes back
+    const handleWake = () => {
+      if (document.visibilityState === "visible") refresh();
+    };
+    window.addEventListener("online", handleWake);
+    document.addEventListener("visibilitychange", handleWake);
+
+    return () => {
+      activeRef.current = false;
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = null;
+      window.removeEventListener("online", handleWake);
+      document.removeEventListener("visibilitychange", handleWake);
+    };
+  }, [refresh]);
+
+  return {
+    ...state,
+    isReady: state.status === "online" || state.status === "checking",
+    refresh,
+  };
+}
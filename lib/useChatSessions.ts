@@ -0,0 +1,138 @@
+/**
+ * Custom hook for managing persisted chat sessions.
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import type { ChatSession, ChatSessionSummary, Message } from "./types";
+import {
+  listSessions,
+  loadSession,
+  saveSession,
+  renameSession,
+  deleteSession,
+} from "./sessionStore";
+import { generateId } from "./utils";
+
+const TITLE_MAX_LENGTH = 60;
+
+/** Derive a session title from its first user message */
+function deriveTitle(messages: Message[]): string {
+  const first = messages.find((m) => m.role === "user")?.content.trim();
+  if (!first) return "New conversation";
+  return first.length > TITLE_MAX_LENGTH
+    ? `${first.slice(0, TITLE_MAX_LENGTH - 1)}…`
+    : first;
+}
+
+interface UseChatSessionsReturn {
+  sessions: ChatSessionSummary[];
+  activeSessionId: string | null;
+  /** Start a fresh conversation; it is persisted on first save */
+  newSession: () => void;
+  openSession: (id: string) => Promise<ChatSession | null>;
+  persistSession: (messages: Message[], documentIds: string[]) => Promise<void>;
+  renameSession: (id: string, title: string) => Promise<void>;
+  deleteSession: (id: string) => Promise<void>;
+}
+
+export function useChatSessions(): UseChatSessionsReturn {
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (error) {
+      console.error("Failed to load sessions:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const newSession = useCallback(() => {
+    setActiveSessionId(null);
+  }, []);
+
+  const openSession = useCallback(async (id: string) => {
+    try {
+      const session = await loadSession(id);
+      if (session) {
+        setActiveSessionId(session.id);
+      }
+      return session;
+    } catch (error) {
+      console.error("Failed to open session:", error);
+      return null;
+    }
+  }, []);
+
+  const persistSession = useCallback(
+    async (messages: Message[], documentIds: string[]) => {
+      if (messages.length === 0) return;
+
+      const id = activeSessionId ?? generateId();
+      const existing = sessions.find((s) => s.id === id);
+      const now = new Date();
+
+      if (!activeSessionId) {
+        setActiveSessionId(id);
+      }
+
+      try {
+        await saveSession({
+          id,
+          title: existing?.title ?? deriveTitle(messages),
+          documentIds,
+          messages,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        });
+        await refresh();
+      } catch (error) {
+        console.error("Failed to save session:", error);
+      }
+    },
+    [activeSessionId, sessions, refresh]
+  );
+
+  const rename = useCallback(
+    async (id: string, title: string) => {
+      const trimmed = title.trim();
+      if (!trimmed) return;
+      try {
+        await renameSession(id, trimmed);
+        await refresh();
+      } catch (error) {
+        console.error("Failed to rename session:", error);
+      }
+    },
+    [refresh]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      try {
+        await deleteSession(id);
+        if (id === activeSessionId) {
+          setActiveSessionId(null);
+        }
+        await refresh();
+      } catch (error) {
+        console.error("Failed to delete session:", error);
+      }
+    },
+    [activeSessionId, refresh]
+  );
+
+  return {
+    sessions,
+    activeSessionId,
+    newSession,
+    openSession,
+    persistSession,
+    renameSession: rename,
+    deleteSession: remove,
+  };
+}
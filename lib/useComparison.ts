@@ -0,0 +1,210 @@
+/**
+ * Custom hook for side-by-side document comparisons.
+ * Streams one answer per document in parallel, then a summary of the
+ * differences between them.
+ */
+
+import { useState, useCallback, useRef } from "react";
+import type {
+  Citation,
+  Comparison,
+  ComparisonAnswer,
+  CompareRequest,
+  QueryRequest,
+} from "./types";
+import { getQueryStreamUrl } from "./api";
+import { runAgentStream } from "./agentStream";
+import { toCitationRefs } from "./conversation";
+import { generateId } from "./utils";
+import type { Translator } from "./i18n";
+
+type ComparisonKey = "left" | "right" | "summary";
+
+interface UseComparisonReturn {
+  comparisons: Comparison[];
+  isComparing: boolean;
+  /** Ask `request.query` of both documents and summarize the differences */
+  compare: (request: CompareRequest, documentNames: Record<string, string>) => Promise<void>;
+  stop: () => void;
+  clear: () => void;
+}
+
+/** Question asked for the summary, after both answers in the history */
+function differencesPrompt(leftName: string, rightName: string): string {
+  return (
+    `Compare the two answers above from "${leftName}" and "${rightName}". ` +
+    "Summarize the material differences between the documents on this question, " +
+    "noting anything present in one but missing from the other."
+  );
+}
+
+function emptyAnswer(documentId: string): ComparisonAnswer {
+  return { documentId, content: "", citations: [], isStreaming: true };
+}
+
+export function useComparison(t: Translator["t"]): UseComparisonReturn {
+  const [comparisons, setComparisons] = useState<Comparison[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const currentIdRef = useRef<string | null>(null);
+
+  const updatePart = useCallback(
+    <K extends ComparisonKey>(
+      id: string,
+      key: K,
+      patch: (part: Comparison[K]) => Partial<Comparison[K]>
+    ) => {
+      setComparisons((prev) =>
+        prev.map((c) => (c.id === id ? { ...c, [key]: { ...c[key], ...patch(c[key]) } } : c))
+      );
+    },
+    []
+  );
+
+  /** Stream one document's answer; resolves with its text, or null if it failed */
+  const streamAnswer = useCallback(
+    async (id: string, key: "left" | "right", request: QueryRequest, signal: AbortSignal) => {
+      let content = "";
+      const citations: Citation[] = [];
+      let failed = false;
+
+      await runAgentStream(getQueryStreamUrl(), JSON.stringify(request), {
+        signal,
+        reconnectingStatus: t("message.reconnecting"),
+        onStatus: (status) => updatePart(id, key, () => ({ status })),
+        onCitation: (citation) => {
+          citations.push(citation);
+          updatePart(id, key, (part) => ({ citations: [...part.citations, citation] }));
+        },
+        onToken: (token) => {
+          content += token;
+          updatePart(id, key, (part) => ({ content: part.content + token }));
+        },
+        onComplete: () =>
+          updatePart(id, key, () => ({ isStreaming: false, status: undefined })),
+        onEnd: () => updatePart(id, key, () => ({ isStreaming: false, status: undefined })),
+        onError: (error) => {
+          failed = true;
+          updatePart(id, key, () => ({
+            content: t("chat.errorPrefix", { error }),
+            isError: true,
+            isStreaming: false,
+            status: undefined,
+          }));
+        },
+      });
+
+      return failed || signal.aborted ? null : { content, citations };
+    },
+    [updatePart, t]
+  );
+
+  const stop = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsComparing(false);
+
+    const id = currentIdRef.current;
+    if (!id) return;
+    (["left", "right", "summary"] as const).forEach((key) =>
+      updatePart(id, key, (part) =>
+        part.isStreaming ? { isStreaming: false, isInterrupted: true, status: undefined } : {}
+      )
+    );
+  }, [updatePart]);
+
+  const compare = useCallback(
+    async (request: CompareRequest, documentNames: Record<string, string>) => {
+      stop();
+
+      const id = generateId();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      currentIdRef.current = id;
+      setIsComparing(true);
+
+      setComparisons((prev) => [
+        ...prev,
+        {
+          id,
+          query: request.query,
+          left: emptyAnswer(request.left_document_id),
+          right: emptyAnswer(request.right_document_id),
+          summary: { content: "", isStreaming: true, status: t("chat.compareWaiting") },
+          timestamp: new Date(),
+        },
+      ]);
+
+      const { query, answer_language } = request;
+      const [left, right] = await Promise.all([
+        streamAnswer(id, "left", { query, document_ids: [request.left_document_id], answer_language }, controller.signal),
+        streamAnswer(id, "right", { query, document_ids: [request.right_document_id], answer_language }, controller.signal),
+      ]);
+      if (controller.signal.aborted) return;
+
+      if (!left || !right) {
+        updatePart(id, "summary", () => ({
+          content: t("chat.compareSummaryUnavailable"),
+          isError: true,
+          isStreaming: false,
+          status: undefined,
+        }));
+      } else {
+        const leftName = documentNames[request.left_document_id] ?? request.left_document_id;
+        const rightName = documentNames[request.right_document_id] ?? request.right_document_id;
+
+        const summaryRequest: QueryRequest = {
+          query: differencesPrompt(leftName, rightName),
+          document_ids: [request.left_document_id, request.right_document_id],
+          answer_language,
+          history: [
+            { role: "user", content: request.query },
+            {
+              role: "assistant",
+              content: `Answer from "${leftName}":\n\n${left.content}`,
+              citations: toCitationRefs(left.citations),
+            },
+            {
+              role: "assistant",
+              content: `Answer from "${rightName}":\n\n${right.content}`,
+              citations: toCitationRefs(right.citations),
+            },
+          ],
+        };
+
+        await runAgentStream(getQueryStreamUrl(), JSON.stringify(summaryRequest), {
+          signal: controller.signal,
+          reconnectingStatus: t("message.reconnecting"),
+          onStatus: (status) => updatePart(id, "summary", () => ({ status })),
+          onToken: (token) =>
+            updatePart(id, "summary", (part) => ({ content: part.content + token })),
+          onComplete: () =>
+            updatePart(id, "summary", () => ({ isStreaming: false, status: undefined })),
+          onEnd: () =>
+            updatePart(id, "summary", () => ({ isStreaming: false, status: undefined })),
+          onError: (error) =>
+            updatePart(id, "summary", () => ({
+              content: t("chat.errorPrefix", { error }),
+              isError: true,
+              isStreaming: false,
+              status: undefined,
+            })),
+        });
+      }
+
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsComparing(false);
+      }
+    },
+    [stop, streamAnswer, updatePart, t]
+  );
+
+  const clear = useCallback(() => {
+    stop();
+    currentIdRef.current = null;
+    setComparisons([]);
+  }, [stop]);
+
+  return { comparisons, isComparing, compare, stop, clear };
+}
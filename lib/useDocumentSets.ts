@@ -0,0 +1,71 @@
+/**
+ * Custom hook for named, saved query scopes.
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import type { DocumentSet } from "./types";
+import { listDocumentSets, saveDocumentSet, deleteDocumentSet } from "./sessionStore";
+import { generateId } from "./utils";
+
+interface UseDocumentSetsReturn {
+  documentSets: DocumentSet[];
+  createDocumentSet: (name: string, documentIds: string[]) => Promise<DocumentSet | null>;
+  deleteDocumentSet: (id: string) => Promise<void>;
+}
+
+export function useDocumentSets(): UseDocumentSetsReturn {
+  const [documentSets, setDocumentSets] = useState<DocumentSet[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDocumentSets(await listDocumentSets());
+    } catch (error) {
+      console.error("Failed to load document sets:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const create = useCallback(
+    async (name: string, documentIds: string[]) => {
+      const trimmed = name.trim();
+      if (!trimmed || documentIds.length === 0) return null;
+
+      const set: DocumentSet = {
+        id: generateId(),
+        name: trimmed,
+        documentIds,
+        createdAt: new Date(),
+      };
+      try {
+        await saveDocumentSet(set);
+        await refresh();
+        return set;
+      } catch (error) {
+        console.error("Failed to save document set:", error);
+        return null;
+      }
+    },
+    [refresh]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      try {
+        await deleteDocumentSet(id);
+        await refresh();
+      } catch (error) {
+        console.error("Failed to delete document set:", error);
+      }
+    },
+    [refresh]
+  );
+
+  return {
+    documentSets,
+    createDocumentSet: create,
+    deleteDocumentSet: remove,
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Custom hook for the evidence board: cited pages pinned from answers,
+ * with notes, tags and a user-defined order.
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import type { Citation, EvidencePin } from "./types";
+import { listEvidencePins, saveEvidencePins, deleteEvidencePin } from "./sessionStore";
+import { generateId } from "./utils";
+
+interface PinSource {
+  question: string;
+  documentName?: string;
+  pageCount?: number;
+}
+
+interface UseEvidenceBoardReturn {
+  pins: EvidencePin[];
+  /** Pin of this page for this question, if any */
+  findPin: (citation: Citation, question: string) => EvidencePin | undefined;
+  pinCitation: (citation: Citation, source: PinSource) => Promise<void>;
+  unpin: (id: string) => Promise<void>;
+  updatePin: (id: string, updates: Partial<Pick<EvidencePin, "note" | "tags">>) => Promise<void>;
+  /** Move a pin to the position of `targetId` */
+  movePin: (id: string, targetId: string) => Promise<void>;
+}
+
+export function useEvidenceBoard(): UseEvidenceBoardReturn {
+  const [pins, setPins] = useState<EvidencePin[]>([]);
+
+  useEffect(() => {
+    listEvidencePins()
+      .then(setPins)
+      .catch((error) => console.error("Failed to load evidence board:", error));
+  }, []);
+
+  const persist = useCallback(async (changed: EvidencePin[]) => {
+    try {
+      await saveEvidencePins(changed);
+    } catch (error) {
+      console.error("Failed to save evidence pins:", error);
+    }
+  }, []);
+
+  const findPin = useCallback(
+    (citation: Citation, question: string) =>
+      pins.find(
+        (pin) =>
+          pin.citation.document_id === citation.document_id &&
+          pin.citation.page === citation.page &&
+          pin.question === question
+      ),
+    [pins]
+  );
+
+  const pinCitation = useCallback(
+    async (citation: Citation, source: PinSource) => {
+      if (findPin(citation, source.question)) return;
+      const pin: EvidencePin = {
+        id: generateId(),
+        citation,
+        ...source,
+        note: "",
+        tags: [],
+        position: pins.length ? pins[pins.length - 1].position + 1 : 0,
+        createdAt: new Date(),
+      };
+      setPins((prev) => [...prev, pin]);
+      await persist([pin]);
+    },
+    [pins, findPin, persist]
+  );
+
+  const unpin = useCallback(async (id: string) => {
+    setPins((prev) => prev.filter((pin) => pin.id !== id));
+    try {
+      await deleteEvidencePin(id);
+    } catch (error) {
+      console.error("Failed to delete evidence pin:", error);
+    }
+  }, []);
+
+  const updatePin = useCallback(
+    async (id: string, updates: Partial<Pick<EvidencePin, "note" | "tags">>) => {
+      const pin = pins.find((p) => p.id === id);
+      if (!pin) return;
+      const updated = { ...pin, ...updates };
+      setPins((prev) => prev.map((p) => (p.id === id ? updated : p)));
+      await persist([updated]);
+    },
+    [pins, persist]
+  );
+
+  const movePin = useCallback(
+    async (id: string, targetId: string) => {
+      const from = pins.findIndex((pin) => pin.id === id);
+      const to = pins.findIndex((pin) => pin.id === targetId);
+      if (from === -1 || to === -1 || from === to) return;
+
+      const reordered = [...pins];
+      reordered.splice(to, 0, ...reordered.splice(from, 1));
+      const renumbered = reordered.map((pin, position) => ({ ...pin, position }));
+      setPins(renumbered);
+      // Only pins whose position changed need writing
+      await persist(renumbered.filter((pin, index) => pin.position !== reordered[index].position));
+    },
+    [pins, persist]
+  );
+
+  return { pins, findPin, pinCitation, unpin, updatePin, movePin };
+}
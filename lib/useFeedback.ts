@@ -0,0 +1,156 @@
+/**
+ * Custom hook for answer ratings and citation relevance labels.
+ * Feedback is always kept locally (it feeds the evaluation set export) and
+ * sent to the backend, which may not have the endpoint yet.
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import type {
+  AnswerRating,
+  Citation,
+  CitationLabel,
+  FeedbackReason,
+  FeedbackRecord,
+  Message,
+} from "./types";
+import { ApiError, submitFeedback } from "./api";
+import { listFeedback, saveFeedback, deleteFeedback } from "./sessionStore";
+import {
+  createFeedbackRecord,
+  exportFeedbackDataset,
+  feedbackId,
+  isEmptyFeedback,
+} from "./feedback";
+
+/** Statuses meaning the backend has no feedback endpoint */
+const UNSUPPORTED_STATUSES = [404, 405, 501];
+
+/** The answer feedback is about */
+export interface FeedbackTarget {
+  message: Message;
+  query: string;
+  scope: string[];
+}
+
+interface UseFeedbackReturn {
+  records: FeedbackRecord[];
+  getFeedback: (message: Message) => FeedbackRecord | undefined;
+  /** Set or clear (null) the rating of an answer */
+  rateAnswer: (
+    target: FeedbackTarget,
+    rating: AnswerRating | null,
+    reason?: FeedbackReason | null,
+    comment?: string
+  ) => Promise<void>;
+  /** Set or clear (null) the relevance label of a cited page */
+  labelCitation: (target: FeedbackTarget, citation: Citation, label: CitationLabel | null) => Promise<void>;
+  exportDataset: () => void;
+}
+
+export function useFeedback(): UseFeedbackReturn {
+  const [records, setRecords] = useState<Map<string, FeedbackRecord>>(new Map());
+  // Latest records, so quick successive changes merge instead of overwriting each other
+  const recordsRef = useRef(records);
+  const backendMissingRef = useRef(false);
+
+  const commitRecords = useCallback((next: Map<string, FeedbackRecord>) => {
+    recordsRef.current = next;
+    setRecords(next);
+  }, []);
+
+  /** Send to the backend; resolves whether it accepted the record */
+  const sync = useCallback(async (record: FeedbackRecord) => {
+    if (backendMissingRef.current) return false;
+    try {
+      await submitFeedback(record);
+      return true;
+    } catch (error) {
+      if (error instanceof ApiError && UNSUPPORTED_STATUSES.includes(error.status)) {
+        backendMissingRef.current = true;
+      } else {
+        console.error("Failed to send feedback:", error);
+      }
+      return false;
+    }
+  }, []);
+
+  // Load local feedback and retry what the backend has not accepted yet
+  useEffect(() => {
+    listFeedback()
+      .then(async (stored) => {
+        commitRecords(new Map(stored.map(({ record }) => [record.id, record])));
+        for (const { record, synced } of stored) {
+          if (!synced && (await sync(record))) await saveFeedback(record, true);
+        }
+      })
+      .catch((error) => console.error("Failed to load feedback:", error));
+  }, [sync, commitRecords]);
+
+  const update = useCallback(
+    async (target: FeedbackTarget, change: (record: FeedbackRecord) => FeedbackRecord) => {
+      const id = feedbackId(target.message);
+      const current =
+        recordsRef.current.get(id) ?? createFeedbackRecord(target.message, target.query, target.scope);
+      const next = { ...change(current), updated_at: new Date().toISOString() };
+      const isEmpty = isEmptyFeedback(next);
+
+      const updated = new Map(recordsRef.current);
+      if (isEmpty) updated.delete(id);
+      else updated.set(id, next);
+      commitRecords(updated);
+
+      try {
+        if (isEmpty) {
+          await deleteFeedback(id);
+          await sync(next);
+        } else {
+          await saveFeedback(next, false);
+          // A newer change may have been stored while this one was sending
+          if ((await sync(next)) && recordsRef.current.get(id) === next) {
+            await saveFeedback(next, true);
+          }
+        }
+      } catch (error) {
+        console.error("Failed to save feedback:", error);
+      }
+    },
+    [sync, commitRecords]
+  );
+
+  const getFeedback = useCallback((message: Message) => records.get(feedbackId(message)), [records]);
+
+  const rateAnswer = useCallback(
+    (target: FeedbackTarget, rating: AnswerRating | null, reason: FeedbackReason | null = null, comment = "") =>
+      update(target, (record) => ({
+        ...record,
+        labels: {
+          rating,
+          reason: rating ? reason : null,
+          comment: rating && comment.trim() ? comment.trim() : null,
+        },
+      })),
+    [update]
+  );
+
+  const labelCitation = useCallback(
+    (target: FeedbackTarget, citation: Citation, label: CitationLabel | null) =>
+      update(target, (record) => ({
+        ...record,
+        citations: record.citations.map((c) =>
+          c.document_id === citation.document_id && c.page === citation.page ? { ...c, label } : c
+        ),
+      })),
+    [update]
+  );
+
+  const list = useMemo(() => Array.from(records.values()), [records]);
+  const exportDataset = useCallback(() => exportFeedbackDataset(list), [list]);
+
+  return {
+    records: list,
+    getFeedback,
+    rateAnswer,
+    labelCitation,
+    exportDataset,
+  };
+}
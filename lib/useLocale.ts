@@ -0,0 +1,59 @@
+/**
+ * Custom hook for the interface and answer language.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { createTranslator, detectLocale, isLocale, DEFAULT_LOCALE, type Locale, type Translator } from "./i18n";
+
+const LOCALE_KEY = "lexvisual.locale";
+const ANSWER_LANGUAGE_KEY = "lexvisual.answerLanguage";
+
+interface UseLocaleReturn extends Translator {
+  setLocale: (locale: Locale) => void;
+  /** Explicit answer language; null follows the interface language */
+  answerLanguagePreference: Locale | null;
+  setAnswerLanguagePreference: (language: Locale | null) => void;
+  /** Language answers are requested in */
+  answerLanguage: Locale;
+}
+
+/** Languages persist in localStorage; English renders until mounted so server and client markup match */
+export function useLocale(): UseLocaleReturn {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+  const [answerLanguagePreference, setAnswerPreferenceState] = useState<Locale | null>(null);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(LOCALE_KEY);
+    setLocaleState(isLocale(stored) ? stored : detectLocale());
+    const storedAnswer = localStorage.getItem(ANSWER_LANGUAGE_KEY);
+    if (isLocale(storedAnswer)) setAnswerPreferenceState(storedAnswer);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    localStorage.setItem(LOCALE_KEY, next);
+    setLocaleState(next);
+  }, []);
+
+  const setAnswerLanguagePreference = useCallback((next: Locale | null) => {
+    if (next) {
+      localStorage.setItem(ANSWER_LANGUAGE_KEY, next);
+    } else {
+      localStorage.removeItem(ANSWER_LANGUAGE_KEY);
+    }
+    setAnswerPreferenceState(next);
+  }, []);
+
+  const translator = useMemo(() => createTranslator(locale), [locale]);
+
+  return {
+    ...translator,
+    setLocale,
+    answerLanguagePreference,
+    setAnswerLanguagePreference,
+    answerLanguage: answerLanguagePreference ?? locale,
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Custom hook for running a review playbook against one document.
+ * Questions run one after another through the query stream so the
+ * backend sees a single request at a time.
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import type { Citation, PlaybookQuestion, PlaybookRow, QueryRequest } from "./types";
+import { getQueryStreamUrl } from "./api";
+import { runAgentStream } from "./agentStream";
+import type { Translator } from "./i18n";
+import { defaultPlaybook, createPlaybookRow, parsePlaybookAnswer, playbookPrompt } from "./playbook";
+
+const PLAYBOOK_KEY = "lexvisual.playbook";
+
+interface UsePlaybookReturn {
+  /** Configured questions, persisted in localStorage; the translated defaults until edited */
+  questions: PlaybookQuestion[];
+  setQuestions: (questions: PlaybookQuestion[]) => void;
+  resetQuestions: () => void;
+  rows: PlaybookRow[];
+  /** Document the current rows were run against */
+  documentId: string | null;
+  isRunning: boolean;
+  /** Run every configured question against `documentId` */
+  run: (documentId: string, answerLanguage?: string) => Promise<void>;
+  /** Re-run one row against the same document */
+  runRow: (rowId: string) => Promise<void>;
+  stop: () => void;
+}
+
+function loadQuestions(): PlaybookQuestion[] | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PLAYBOOK_KEY) ?? "null");
+    if (
+      Array.isArray(stored) &&
+      stored.every((q) => typeof q?.id === "string" && typeof q.label === "string" && typeof q.question === "string")
+    ) {
+      return stored;
+    }
+  } catch {
+    // Fall through to the default playbook
+  }
+  return null;
+}
+
+export function usePlaybook(t: Translator["t"]): UsePlaybookReturn {
+  // Null follows the default playbook, so it changes with the interface language
+  const [customQuestions, setCustomQuestions] = useState<PlaybookQuestion[] | null>(null);
+  const questions = useMemo(() => customQuestions ?? defaultPlaybook(t), [customQuestions, t]);
+  const [rows, setRows] = useState<PlaybookRow[]>([]);
+  const [documentId, setDocumentId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const answerLanguageRef = useRef<string | undefined>(undefined);
+
+  useEffect(() => {
+    setCustomQuestions(loadQuestions());
+  }, []);
+
+  const setQuestions = useCallback((next: PlaybookQuestion[]) => {
+    localStorage.setItem(PLAYBOOK_KEY, JSON.stringify(next));
+    setCustomQuestions(next);
+  }, []);
+
+  const resetQuestions = useCallback(() => {
+    localStorage.removeItem(PLAYBOOK_KEY);
+    setCustomQuestions(null);
+  }, []);
+
+  const updateRow = useCallback((id: string, patch: Partial<PlaybookRow>) => {
+    setRows((prev) => prev.map((row) => (row.id === id ? { ...row, ...patch } : row)));
+  }, []);
+
+  /** Stream one row's answer and record the outcome */
+  const streamRow = useCallback(
+    async (row: PlaybookRow, targetId: string, signal: AbortSignal) => {
+      updateRow(row.id, {
+        status: "running",
+        answer: "",
+        risk: "unknown",
+        citations: [],
+        progress: undefined,
+        error: undefined,
+      });
+
+      const request: QueryRequest = {
+        query: playbookPrompt(row.question),
+        document_ids: [targetId],
+        answer_language: answerLanguageRef.current,
+      };
+      let content = "";
+      const citations: Citation[] = [];
+      let error: string | null = null;
+
+      await runAgentStream(getQueryStreamUrl(), JSON.stringify(request), {
+        signal,
+        reconnectingStatus: t("message.reconnecting"),
+        onStatus: (progress) => updateRow(row.id, { progress }),
+        onCitation: (citation) => {
+          citations.push(citation);
+          updateRow(row.id, { citations: [...citations] });
+        },
+        onToken: (token) => {
+          content += token;
+          updateRow(row.id, { answer: content });
+        },
+        onError: (message) => {
+          error = message;
+        },
+      });
+
+      if (signal.aborted) {
+        updateRow(row.id, { status: "cancelled", progress: undefined });
+      } else if (error !== null || !content.trim()) {
+        updateRow(row.id, {
+          status: "error",
+          error: error ?? undefined,
+          progress: undefined,
+        });
+      } else {
+        updateRow(row.id, { status: "done", ...parsePlaybookAnswer(content), progress: undefined });
+      }
+    },
+    [updateRow, t]
+  );
+
+  const stop = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsRunning(false);
+    setRows((prev) =>
+      prev.map((row) => (row.status === "pending" ? { ...row, status: "cancelled" } : row))
+    );
+  }, []);
+
+  const run = useCallback(
+    async (targetId: string, answerLanguage?: string) => {
+      stop();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      answerLanguageRef.current = answerLanguage;
+
+      const next = questions.filter((q) => q.question.trim()).map(createPlaybookRow);
+      setRows(next);
+      setDocumentId(targetId);
+      setIsRunning(true);
+
+      for (const row of next) {
+        if (controller.signal.aborted) break;
+        await streamRow(row, targetId, controller.signal);
+      }
+
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsRunning(false);
+      }
+    },
+    [questions, stop, streamRow]
+  );
+
+  const runRow = useCallback(
+    async (rowId: string) => {
+      const row = rows.find((r) => r.id === rowId);
+      if (!row || !documentId || abortControllerRef.current) return;
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setIsRunning(true);
+
+      await streamRow(row, documentId, controller.signal);
+
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsRunning(false);
+      }
+    },
+    [rows, documentId, streamRow]
+  );
+
+  // Stop streaming when the page unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  return {
+    questions,
+    setQuestions,
+    resetQuestions,
+    rows,
+    documentId,
+    isRunning,
+    run,
+    runRow,
+    stop,
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Custom hook for user-defined prompt templates.
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import type { PromptTemplate, PromptTemplateData } from "./types";
+import { listPromptTemplates, savePromptTemplates, deletePromptTemplate } from "./sessionStore";
+import { isSameTemplate, parseTemplateFile } from "./promptTemplates";
+import { generateId } from "./utils";
+
+interface UsePromptTemplatesReturn {
+  templates: PromptTemplate[];
+  /** Create a template, or update the one with `id` */
+  saveTemplate: (data: PromptTemplateData, id?: string) => Promise<PromptTemplate | null>;
+  deleteTemplate: (id: string) => Promise<void>;
+  /** Add templates from an exported JSON file, skipping exact duplicates; returns how many were added */
+  importTemplates: (json: string) => Promise<number>;
+}
+
+export function usePromptTemplates(): UsePromptTemplatesReturn {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setTemplates(await listPromptTemplates());
+    } catch (error) {
+      console.error("Failed to load prompt templates:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const save = useCallback(
+    async (data: PromptTemplateData, id?: string) => {
+      const title = data.title.trim();
+      const text = data.text.trim();
+      if (!title || !text) return null;
+
+      const now = new Date();
+      const existing = id ? templates.find((t) => t.id === id) : undefined;
+      const template: PromptTemplate = {
+        id: existing?.id ?? generateId(),
+        title,
+        category: data.category.trim(),
+        text,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      try {
+        await savePromptTemplates([template]);
+        await refresh();
+        return template;
+      } catch (error) {
+        console.error("Failed to save prompt template:", error);
+        return null;
+      }
+    },
+    [templates, refresh]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      try {
+        await deletePromptTemplate(id);
+        await refresh();
+      } catch (error) {
+        console.error("Failed to delete prompt template:", error);
+      }
+    },
+    [refresh]
+  );
+
+  const importTemplates = useCallback(
+    async (json: string) => {
+      const incoming = parseTemplateFile(json);
+      const added: PromptTemplate[] = [];
+      const now = Date.now();
+
+      for (const data of incoming) {
+        if ([...templates, ...added].some((t) => isSameTemplate(t, data))) continue;
+        // Distinct timestamps keep the file order in the creation-ordered list
+        const createdAt = new Date(now + added.length);
+        added.push({ ...data, id: generateId(), createdAt, updatedAt: createdAt });
+      }
+
+      if (added.length > 0) {
+        await savePromptTemplates(added);
+        await refresh();
+      }
+      return added.length;
+    },
+    [templates, refresh]
+  );
+
+  return {
+    templates,
+    saveTemplate: save,
+    deleteTemplate: remove,
+    importTemplates,
+  };
+}
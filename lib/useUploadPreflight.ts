@@ -0,0 +1,100 @@
+/**
+ * Custom hook for files picked for upload but not sent yet. Each file is
+ * checked in the background; only files without blocking issues are ready.
+ */
+
+import { useState, useCallback, useMemo, useRef } from "react";
+import type { DocumentInfo } from "./types";
+import {
+  findIndexedDuplicate,
+  hasBlockingIssue,
+  inspectFile,
+  type PreflightResult,
+} from "./uploadPreflight";
+import { generateId } from "./utils";
+
+/** File waiting for upload, with its check results */
+export interface PreflightFile {
+  id: string;
+  file: File;
+  /** Null while the checks run */
+  result: PreflightResult | null;
+  /** Indexed document with the same content */
+  duplicateOf?: DocumentInfo;
+}
+
+interface UseUploadPreflightReturn {
+  files: PreflightFile[];
+  addFiles: (files: File[]) => void;
+  removeFile: (id: string) => void;
+  clear: () => void;
+  isChecking: boolean;
+  /** Checked files that can be uploaded */
+  readyFiles: File[];
+  /** Checked files with blocking issues */
+  skippedCount: number;
+}
+
+export function useUploadPreflight(documents: DocumentInfo[] = []): UseUploadPreflightReturn {
+  const [entries, setEntries] = useState<Omit<PreflightFile, "duplicateOf">[]>([]);
+  // Files are read one at a time so large picks don't all sit in memory at once
+  const checksRef = useRef<Promise<void>>(Promise.resolve());
+
+  const addFiles = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+    const added = files.map((file) => ({ id: generateId(), file, result: null }));
+    setEntries((prev) => [...prev, ...added]);
+
+    for (const entry of added) {
+      checksRef.current = checksRef.current.then(async () => {
+        let result: PreflightResult;
+        try {
+          result = await inspectFile(entry.file);
+        } catch (error) {
+          console.error("Failed to check file:", error);
+          result = { sha256: null, pageCount: null, issues: [{ code: "unreadable", severity: "error" }] };
+        }
+        setEntries((prev) => prev.map((e) => (e.id === entry.id ? { ...e, result } : e)));
+      });
+    }
+  }, []);
+
+  const removeFile = useCallback((id: string) => {
+    setEntries((prev) => prev.filter((entry) => entry.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    setEntries([]);
+  }, []);
+
+  // Recomputed when the document list changes, so uploads finishing meanwhile count
+  const files = useMemo<PreflightFile[]>(
+    () =>
+      entries.map((entry) => ({
+        ...entry,
+        duplicateOf: entry.result?.sha256
+          ? findIndexedDuplicate(entry.result.sha256, documents)
+          : undefined,
+      })),
+    [entries, documents]
+  );
+
+  const checked = useMemo(() => files.filter((entry) => entry.result !== null), [files]);
+  const readyFiles = useMemo(
+    () =>
+      checked
+        .filter((entry) => entry.result && !hasBlockingIssue(entry.result))
+        .map((entry) => entry.file),
+    [checked]
+  );
+
+  return {
+    files,
+    addFiles,
+    removeFile,
+    clear,
+    isChecking: checked.length < files.length,
+    readyFiles,
+    skippedCount: checked.length - readyFiles.length,
+  };
+}
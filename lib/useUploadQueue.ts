@@ -0,0 +1,174 @@
+/**
+ * Custom hook for uploading and indexing many documents with limited
+ * concurrency. Each file streams its own status and can be cancelled
+ * or retried independently.
+ */
+
+import { useState, useCallback, useEffect, useRef, useMemo } from "react";
+import type { DocumentInfo, UploadItem } from "./types";
+import { getUploadStreamUrl } from "./api";
+import { runAgentStream } from "./agentStream";
+import { generateId } from "./utils";
+import type { Translator } from "./i18n";
+import { fileSha256, rememberUploadHash } from "./uploadPreflight";
+
+const DEFAULT_CONCURRENCY = 3;
+
+interface UseUploadQueueOptions {
+  /** Translates the status and error messages the queue reports */
+  t: Translator["t"];
+  onDocumentUploaded?: (doc: DocumentInfo) => void;
+  /** Maximum number of simultaneous uploads (default 3) */
+  concurrency?: number;
+}
+
+export interface UploadSummary {
+  total: number;
+  active: number;
+  succeeded: number;
+  failed: number;
+}
+
+interface UseUploadQueueReturn {
+  items: UploadItem[];
+  summary: UploadSummary;
+  enqueue: (files: File[]) => void;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  remove: (id: string) => void;
+  /** Drop finished, failed and cancelled items from the list */
+  clearFinished: () => void;
+}
+
+export function useUploadQueue({
+  t,
+  onDocumentUploaded,
+  concurrency = DEFAULT_CONCURRENCY,
+}: UseUploadQueueOptions): UseUploadQueueReturn {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const onUploadedRef = useRef(onDocumentUploaded);
+  onUploadedRef.current = onDocumentUploaded;
+
+  const updateItem = useCallback((id: string, updates: Partial<UploadItem>) => {
+    setItems((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...updates } : item))
+    );
+  }, []);
+
+  const startUpload = useCallback(
+    (item: UploadItem) => {
+      const controller = new AbortController();
+      controllersRef.current.set(item.id, controller);
+
+      const formData = new FormData();
+      formData.append("file", item.file);
+
+      runAgentStream(getUploadStreamUrl(), formData, {
+        signal: controller.signal,
+        reconnectingStatus: t("message.reconnecting"),
+        onStatus: (status) => updateItem(item.id, { progress: status }),
+        onComplete: (data) => {
+          updateItem(item.id, { status: "done", progress: null, document: data });
+          if (data) {
+            onUploadedRef.current?.(data);
+            fileSha256(item.file)
+              .then((hash) => rememberUploadHash(hash, data.id))
+              .catch((error) => console.error("Failed to record upload hash:", error));
+          }
+        },
+        onError: (error) => updateItem(item.id, { status: "error", error }),
+        onEnd: () =>
+          updateItem(item.id, { status: "error", error: t("upload.endedUnexpectedly") }),
+      }).finally(() => {
+        controllersRef.current.delete(item.id);
+      });
+    },
+    [updateItem, t]
+  );
+
+  // Promote queued items while there is spare capacity
+  useEffect(() => {
+    const active = items.filter((i) => i.status === "uploading").length;
+    const next = items
+      .filter((i) => i.status === "queued")
+      .slice(0, Math.max(0, concurrency - active));
+    if (next.length === 0) return;
+
+    const ids = new Set(next.map((i) => i.id));
+    setItems((prev) =>
+      prev.map((item) =>
+        ids.has(item.id)
+          ? { ...item, status: "uploading", progress: null, error: null }
+          : item
+      )
+    );
+    next.forEach(startUpload);
+  }, [items, concurrency, startUpload]);
+
+  // Abort in-flight uploads on unmount
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  const enqueue = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+    setItems((prev) => [
+      ...prev,
+      ...files.map((file) => ({
+        id: generateId(),
+        file,
+        status: "queued" as const,
+        progress: null,
+        error: null,
+      })),
+    ]);
+  }, []);
+
+  const cancel = useCallback(
+    (id: string) => {
+      controllersRef.current.get(id)?.abort();
+      controllersRef.current.delete(id);
+      setItems((prev) =>
+        prev.map((item) =>
+          item.id === id && (item.status === "queued" || item.status === "uploading")
+            ? { ...item, status: "cancelled", progress: null }
+            : item
+        )
+      );
+    },
+    []
+  );
+
+  const retry = useCallback(
+    (id: string) => {
+      updateItem(id, { status: "queued", progress: null, error: null });
+    },
+    [updateItem]
+  );
+
+  const remove = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems((prev) =>
+      prev.filter((item) => item.status === "queued" || item.status === "uploading")
+    );
+  }, []);
+
+  const summary = useMemo<UploadSummary>(
+    () => ({
+      total: items.length,
+      active: items.filter((i) => i.status === "queued" || i.status === "uploading").length,
+      succeeded: items.filter((i) => i.status === "done").length,
+      failed: items.filter((i) => i.status === "error").length,
+    }),
+    [items]
+  );
+
+  return { items, summary, enqueue, cancel, retry, remove, clearFinished };
+}
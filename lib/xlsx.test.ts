@@ -0,0 +1,95 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { crc32 } from "node:zlib";
+import { buildXlsx } from "./xlsx";
+
+interface ZipEntry {
+  name: string;
+  crc: number;
+  content: Uint8Array;
+}
+
+/** Read a stored (uncompressed) ZIP archive, checking its signatures and sizes */
+function readZip(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  const endOffset = bytes.length - 22;
+  assert.equal(view.getUint32(endOffset, true), 0x06054b50, "end of central directory");
+  const count = view.getUint16(endOffset + 10, true);
+  let central = view.getUint32(endOffset + 16, true);
+  assert.equal(central + view.getUint32(endOffset + 12, true), endOffset, "central directory size");
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    assert.equal(view.getUint32(central, true), 0x02014b50, "central directory header");
+    const nameLength = view.getUint16(central + 28, true);
+    const name = decoder.decode(bytes.subarray(central + 46, central + 46 + nameLength));
+    const crc = view.getUint32(central + 16, true);
+    const local = view.getUint32(central + 42, true);
+
+    assert.equal(view.getUint32(local, true), 0x04034b50, `local header of ${name}`);
+    assert.equal(view.getUint16(local + 8, true), 0, `${name} is stored`);
+    assert.equal(view.getUint32(local + 14, true), crc, `${name} local CRC`);
+    const size = view.getUint32(local + 18, true);
+    assert.equal(view.getUint32(local + 22, true), size, `${name} sizes`);
+    assert.equal(view.getUint32(central + 20, true), size, `${name} central size`);
+
+    const start = local + 30 + view.getUint16(local + 26, true);
+    entries.push({ name, crc, content: bytes.subarray(start, start + size) });
+    central += 46 + nameLength;
+  }
+  return entries;
+}
+
+async function workbook(...args: Parameters<typeof buildXlsx>): Promise<Map<string, string>> {
+  const blob = buildXlsx(...args);
+  assert.equal(blob.type, "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+  const entries = readZip(new Uint8Array(await blob.arrayBuffer()));
+  for (const entry of entries) assert.equal(entry.crc, crc32(entry.content), `${entry.name} CRC`);
+  return new Map(entries.map((entry) => [entry.name, new TextDecoder().decode(entry.content)]));
+}
+
+test("packs the workbook parts in a valid ZIP archive", async () => {
+  const files = await workbook([["Topic"], ["Term"]]);
+  assert.deepEqual(Array.from(files.keys()), [
+    "[Content_Types].xml",
+    "_rels/.rels",
+    "xl/workbook.xml",
+    "xl/_rels/workbook.xml.rels",
+    "xl/worksheets/sheet1.xml",
+    "xl/styles.xml",
+  ]);
+});
+
+test("writes text and number cells with a bold header row", async () => {
+  const files = await workbook(
+    [
+      ["Topic", "Pages"],
+      ["Térm — renewal", 3],
+    ],
+    { columnWidths: [22, 10] }
+  );
+  const sheet = files.get("xl/worksheets/sheet1.xml") ?? "";
+  assert.match(sheet, /<cols><col min="1" max="1" width="22" customWidth="1"\/><col min="2" max="2" width="10" customWidth="1"\/><\/cols>/);
+  assert.match(sheet, /<row r="1"><c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Topic<\/t><\/is><\/c>/);
+  assert.match(sheet, /<c r="A2" s="2" t="inlineStr"><is><t xml:space="preserve">Térm — renewal<\/t><\/is><\/c><c r="B2" s="2"><v>3<\/v><\/c><\/row>/);
+});
+
+test("escapes XML and drops invalid control characters", async () => {
+  const files = await workbook([["A"], ['<b>"Fees" & costs</b>\x01\x1f\ttab\nline']], {
+    sheetName: "Q&A: <draft>",
+  });
+  assert.match(
+    files.get("xl/worksheets/sheet1.xml") ?? "",
+    /<t xml:space="preserve">&lt;b&gt;&quot;Fees&quot; &amp; costs&lt;\/b&gt;\ttab\nline<\/t>/
+  );
+  // Sheet names lose the characters Excel forbids and are escaped
+  assert.match(files.get("xl/workbook.xml") ?? "", /<sheet name="Q&amp;A  &lt;draft&gt;"/);
+});
+
+test("names columns past Z", async () => {
+  const row = Array.from({ length: 28 }, (_, index) => index);
+  const sheet = (await workbook([row])).get("xl/worksheets/sheet1.xml") ?? "";
+  assert.match(sheet, /<c r="Z1" s="1"><v>25<\/v><\/c><c r="AA1" s="1"><v>26<\/v><\/c><c r="AB1"/);
+});
@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { ACCESS_TOKEN_COOKIE, LOGIN_PATH, SESSION_COOKIE } from "@/lib/auth";
+
+/**
+ * Send visitors without a session to the login page.
+ * Tokens are validated by the backend; this only gates navigation. A
+ * session cookie without an access token is let through so the client
+ * can refresh it.
+ */
+export function middleware(request: NextRequest) {
+  const { cookies, nextUrl } = request;
+  if (cookies.has(ACCESS_TOKEN_COOKIE) || cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const loginUrl = new URL(LOGIN_PATH, request.url);
+  loginUrl.searchParams.set("next", nextUrl.pathname + nextUrl.search);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ["/((?!login|api|_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|svg|ico)$).*)"],
+};
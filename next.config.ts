@@ -3,10 +3,9 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   // Enable React strict mode for better development experience
   reactStrictMode: true,
-
-  // Environment variables exposed to the browser
+  // Lets the upload preflight check the same size limit as the proxy
   env: {
-    NEXT_PUBLIC_API_URL: process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000",
+    NEXT_PUBLIC_MAX_UPLOAD_BYTES: process.env.LEXVISUAL_MAX_UPLOAD_BYTES ?? "",
   },
 };
 